@@ -10,6 +10,7 @@ import SellerPanel from "./pages/SellerPanel";
 import AdminPanel from "./pages/AdminPanel";
 import Purchase from "./pages/Purchase";
 import Order from "./pages/Order";
+import Wallet from "./pages/Wallet";
 import NotFound from "./pages/NotFound";
 
 const queryClient = new QueryClient();
@@ -28,6 +29,7 @@ const App = () => (
           <Route path="/admin" element={<AdminPanel />} />
           <Route path="/purchase/:sellerId" element={<Purchase />} />
           <Route path="/order/:orderId" element={<Order />} />
+          <Route path="/wallet" element={<Wallet />} />
           {/* ADD ALL CUSTOM ROUTES ABOVE THE CATCH-ALL "*" ROUTE */}
           <Route path="*" element={<NotFound />} />
         </Routes>
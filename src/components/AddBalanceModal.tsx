@@ -144,9 +144,8 @@ export function AddBalanceModal({ open, onOpenChange, onSuccess }: AddBalanceMod
           .update({ cpf: cleanCpf })
           .eq("id", session.user.id);
         
-        if (updateError) {
-          console.error("Erro ao atualizar CPF:", updateError);
-        }
+        // The CPF is locked once saved, so a different one is refused
+        if (updateError) throw updateError;
       }
 
       const response = await supabase.functions.invoke("asaas-create-payment", {
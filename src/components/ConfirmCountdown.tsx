@@ -0,0 +1,39 @@
+import { useState, useEffect } from "react";
+import { Timer } from "lucide-react";
+
+interface ConfirmCountdownProps {
+  deadline: string;
+  className?: string;
+}
+
+const formatRemaining = (ms: number) => {
+  const totalMinutes = Math.max(0, Math.floor(ms / 60000));
+  const days = Math.floor(totalMinutes / 1440);
+  const hours = Math.floor((totalMinutes % 1440) / 60);
+  const minutes = totalMinutes % 60;
+
+  if (days > 0) return `${days}d ${hours}h`;
+  if (hours > 0) return `${hours}h ${minutes}min`;
+  return `${minutes}min`;
+};
+
+/** Time left before a delivered order is confirmed automatically */
+export function ConfirmCountdown({ deadline, className }: ConfirmCountdownProps) {
+  const [now, setNow] = useState(Date.now());
+
+  useEffect(() => {
+    const interval = setInterval(() => setNow(Date.now()), 30000);
+    return () => clearInterval(interval);
+  }, []);
+
+  const remaining = new Date(deadline).getTime() - now;
+
+  return (
+    <span className={`inline-flex items-center gap-1 text-xs text-muted-foreground ${className ?? ""}`}>
+      <Timer className="w-3 h-3" />
+      {remaining > 0
+        ? `Confirmação automática em ${formatRemaining(remaining)}`
+        : "Confirmação automática em instantes"}
+    </span>
+  );
+}
@@ -0,0 +1,305 @@
+import { useCallback, useEffect, useState } from "react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Switch } from "@/components/ui/switch";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { supabase } from "@/integrations/supabase/client";
+import { useToast } from "@/hooks/use-toast";
+import { Database, Tables } from "@/integrations/supabase/types";
+import { Loader2, Plus, Ticket } from "lucide-react";
+
+type Coupon = Tables<"coupons">;
+type DiscountType = Database["public"]["Enums"]["coupon_discount_type"];
+
+const PLATFORM_SCOPE = "platform";
+
+const formatDiscount = (coupon: Coupon) =>
+  coupon.discount_type === "percentage"
+    ? `${Number(coupon.discount_value)}%`
+    : `R$ ${Number(coupon.discount_value).toFixed(2)}`;
+
+interface CouponsManagerProps {
+  sellers: { id: string; profiles: { username: string } | null }[];
+  userId: string;
+}
+
+export function CouponsManager({ sellers, userId }: CouponsManagerProps) {
+  const [coupons, setCoupons] = useState<Coupon[]>([]);
+  const [code, setCode] = useState("");
+  const [discountType, setDiscountType] = useState<DiscountType>("percentage");
+  const [discountValue, setDiscountValue] = useState("");
+  const [scope, setScope] = useState(PLATFORM_SCOPE);
+  const [maxUses, setMaxUses] = useState("");
+  const [maxUsesPerUser, setMaxUsesPerUser] = useState("1");
+  const [expiresAt, setExpiresAt] = useState("");
+  const [saving, setSaving] = useState(false);
+  const { toast } = useToast();
+
+  const fetchCoupons = useCallback(async () => {
+    const { data } = await supabase
+      .from("coupons")
+      .select("*")
+      .order("created_at", { ascending: false });
+
+    setCoupons(data || []);
+  }, []);
+
+  useEffect(() => {
+    fetchCoupons();
+  }, [fetchCoupons]);
+
+  const sellerName = (sellerId: string | null) =>
+    sellerId
+      ? sellers.find((s) => s.id === sellerId)?.profiles?.username || "Vendedor"
+      : "Plataforma";
+
+  const resetForm = () => {
+    setCode("");
+    setDiscountType("percentage");
+    setDiscountValue("");
+    setScope(PLATFORM_SCOPE);
+    setMaxUses("");
+    setMaxUsesPerUser("1");
+    setExpiresAt("");
+  };
+
+  const handleCreate = async () => {
+    const value = parseFloat(discountValue);
+
+    if (!code.trim()) {
+      toast({
+        title: "Código obrigatório",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    if (isNaN(value) || value <= 0 || (discountType === "percentage" && value >= 100)) {
+      toast({
+        title: "Desconto inválido",
+        description: "Percentuais devem ficar entre 0 e 100",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    try {
+      setSaving(true);
+      const { error } = await supabase.from("coupons").insert({
+        code: code.trim().toUpperCase(),
+        discount_type: discountType,
+        discount_value: value,
+        seller_id: scope === PLATFORM_SCOPE ? null : scope,
+        max_uses: maxUses ? parseInt(maxUses) : null,
+        max_uses_per_user: maxUsesPerUser ? parseInt(maxUsesPerUser) : null,
+        expires_at: expiresAt ? new Date(expiresAt).toISOString() : null,
+        created_by: userId,
+      });
+
+      if (error) throw error;
+
+      toast({ title: "Cupom criado!" });
+      resetForm();
+      await fetchCoupons();
+    } catch (error: unknown) {
+      toast({
+        title: "Erro",
+        description: error instanceof Error ? error.message : "Erro ao criar cupom",
+        variant: "destructive",
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleToggle = async (coupon: Coupon, isActive: boolean) => {
+    const { error } = await supabase
+      .from("coupons")
+      .update({ is_active: isActive })
+      .eq("id", coupon.id);
+
+    if (error) {
+      toast({
+        title: "Erro",
+        description: error.message,
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setCoupons(coupons.map((c) => (c.id === coupon.id ? { ...c, is_active: isActive } : c)));
+  };
+
+  return (
+    <div className="space-y-4">
+      <Card className="bg-card/50">
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <Ticket className="w-5 h-5" />
+            Novo Cupom
+          </CardTitle>
+          <CardDescription>
+            Cupons da plataforma são custeados pela plataforma; cupons de vendedor saem do valor da venda
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="coupon-code">Código</Label>
+              <Input
+                id="coupon-code"
+                value={code}
+                onChange={(e) => setCode(e.target.value.toUpperCase())}
+                placeholder="PROMO10"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label>Tipo</Label>
+              <Select value={discountType} onValueChange={(v) => setDiscountType(v as DiscountType)}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="percentage">Percentual (%)</SelectItem>
+                  <SelectItem value="fixed">Valor fixo (R$)</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="coupon-value">Desconto</Label>
+              <Input
+                id="coupon-value"
+                type="number"
+                step="0.01"
+                value={discountValue}
+                onChange={(e) => setDiscountValue(e.target.value)}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label>Válido para</Label>
+              <Select value={scope} onValueChange={setScope}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={PLATFORM_SCOPE}>Toda a plataforma</SelectItem>
+                  {sellers.map((seller) => (
+                    <SelectItem key={seller.id} value={seller.id}>
+                      {seller.profiles?.username || "Vendedor"}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="coupon-max-uses">Limite de usos (total)</Label>
+              <Input
+                id="coupon-max-uses"
+                type="number"
+                min="1"
+                placeholder="Ilimitado"
+                value={maxUses}
+                onChange={(e) => setMaxUses(e.target.value)}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="coupon-max-user">Usos por usuário</Label>
+              <Input
+                id="coupon-max-user"
+                type="number"
+                min="1"
+                placeholder="Ilimitado"
+                value={maxUsesPerUser}
+                onChange={(e) => setMaxUsesPerUser(e.target.value)}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="coupon-expires">Expira em</Label>
+              <Input
+                id="coupon-expires"
+                type="datetime-local"
+                value={expiresAt}
+                onChange={(e) => setExpiresAt(e.target.value)}
+              />
+            </div>
+          </div>
+          <Button onClick={handleCreate} disabled={saving} className="gap-2">
+            {saving ? <Loader2 className="w-4 h-4 animate-spin" /> : <Plus className="w-4 h-4" />}
+            Criar Cupom
+          </Button>
+        </CardContent>
+      </Card>
+
+      <Card className="bg-card/50">
+        <CardHeader>
+          <CardTitle>Cupons</CardTitle>
+        </CardHeader>
+        <CardContent>
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Código</TableHead>
+                <TableHead>Desconto</TableHead>
+                <TableHead>Válido para</TableHead>
+                <TableHead>Usos</TableHead>
+                <TableHead>Expira</TableHead>
+                <TableHead>Ativo</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {coupons.map((coupon) => {
+                const expired = !!coupon.expires_at && new Date(coupon.expires_at) <= new Date();
+                return (
+                  <TableRow key={coupon.id}>
+                    <TableCell className="font-mono font-medium">{coupon.code}</TableCell>
+                    <TableCell>{formatDiscount(coupon)}</TableCell>
+                    <TableCell>{sellerName(coupon.seller_id)}</TableCell>
+                    <TableCell>
+                      {coupon.uses_count}
+                      {coupon.max_uses ? ` / ${coupon.max_uses}` : ""}
+                      {coupon.max_uses_per_user && (
+                        <span className="text-xs text-muted-foreground"> ({coupon.max_uses_per_user}/usuário)</span>
+                      )}
+                    </TableCell>
+                    <TableCell>
+                      {coupon.expires_at ? (
+                        <Badge variant={expired ? "secondary" : "outline"}>
+                          {new Date(coupon.expires_at).toLocaleString("pt-BR")}
+                        </Badge>
+                      ) : (
+                        "—"
+                      )}
+                    </TableCell>
+                    <TableCell>
+                      <Switch
+                        checked={coupon.is_active}
+                        onCheckedChange={(checked) => handleToggle(coupon, checked)}
+                      />
+                    </TableCell>
+                  </TableRow>
+                );
+              })}
+            </TableBody>
+          </Table>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,131 @@
+import { useState } from "react";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { supabase } from "@/integrations/supabase/client";
+import { useToast } from "@/hooks/use-toast";
+import { Loader2, Upload } from "lucide-react";
+import { PROOF_BUCKET } from "@/lib/orders";
+
+const MAX_FILE_SIZE = 10 * 1024 * 1024;
+
+interface DeliveryProofModalProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onSuccess: (orderId: string) => void;
+  orderId: string | null;
+}
+
+export function DeliveryProofModal({ open, onOpenChange, onSuccess, orderId }: DeliveryProofModalProps) {
+  const [files, setFiles] = useState<File[]>([]);
+  const [loading, setLoading] = useState(false);
+  const { toast } = useToast();
+
+  const handleDeliver = async () => {
+    if (!orderId) return;
+
+    if (files.length === 0) {
+      toast({
+        title: "Prova obrigatória",
+        description: "Envie ao menos um print ou arquivo comprovando a entrega",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    if (files.some((file) => file.size > MAX_FILE_SIZE)) {
+      toast({
+        title: "Arquivo muito grande",
+        description: "Cada arquivo deve ter no máximo 10 MB",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    try {
+      setLoading(true);
+
+      for (const file of files) {
+        const safeName = file.name.replace(/[^a-zA-Z0-9._-]/g, "_");
+        const { error: uploadError } = await supabase.storage
+          .from(PROOF_BUCKET)
+          .upload(`${orderId}/${Date.now()}-${safeName}`, file, { contentType: file.type });
+
+        if (uploadError) throw uploadError;
+      }
+
+      const { error } = await supabase
+        .from("orders")
+        .update({ status: "delivered" })
+        .eq("id", orderId);
+
+      if (error) throw error;
+
+      toast({
+        title: "Pedido entregue!",
+        description: "O comprador foi avisado para confirmar o recebimento",
+      });
+
+      onSuccess(orderId);
+      handleClose();
+    } catch (error: unknown) {
+      toast({
+        title: "Erro",
+        description: error instanceof Error ? error.message : "Erro ao enviar prova de entrega",
+        variant: "destructive",
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleClose = () => {
+    setFiles([]);
+    onOpenChange(false);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={handleClose}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle>Marcar como Entregue</DialogTitle>
+          <DialogDescription>
+            Envie prints ou arquivos que comprovem a entrega dos Robux
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="proof-files">Prova de entrega</Label>
+            <Input
+              id="proof-files"
+              type="file"
+              multiple
+              accept="image/png,image/jpeg,image/webp,image/gif,application/pdf"
+              onChange={(e) => setFiles(Array.from(e.target.files ?? []))}
+            />
+            {files.length > 0 && (
+              <p className="text-xs text-muted-foreground">
+                {files.length} arquivo(s) selecionado(s)
+              </p>
+            )}
+          </div>
+
+          <Button
+            className="w-full"
+            onClick={handleDeliver}
+            disabled={loading}
+          >
+            {loading ? (
+              <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+            ) : (
+              <Upload className="w-4 h-4 mr-2" />
+            )}
+            Enviar Prova
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,253 @@
+import { useState, useEffect, useCallback } from "react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { supabase } from "@/integrations/supabase/client";
+import { useToast } from "@/hooks/use-toast";
+import { AlertTriangle, Gavel, Link as LinkIcon, Loader2, Send } from "lucide-react";
+import { Database, Tables } from "@/integrations/supabase/types";
+import { isHttpUrl, parseEvidenceUrls, resolutionLabels } from "@/lib/disputes";
+
+type DisputeResolution = Database["public"]["Enums"]["dispute_resolution"];
+
+type DisputeMessage = Tables<"dispute_messages"> & {
+  profiles: {
+    username: string;
+  };
+};
+
+interface DisputePanelProps {
+  dispute: Tables<"disputes">;
+  orderTotal: number;
+  userId: string;
+  isAdmin: boolean;
+  onResolved: () => void;
+}
+
+export function DisputePanel({ dispute, orderTotal, userId, isAdmin, onResolved }: DisputePanelProps) {
+  const [messages, setMessages] = useState<DisputeMessage[]>([]);
+  const [message, setMessage] = useState("");
+  const [evidence, setEvidence] = useState("");
+  const [sending, setSending] = useState(false);
+  const [resolution, setResolution] = useState<DisputeResolution>("refund");
+  const [refundAmount, setRefundAmount] = useState("");
+  const [notes, setNotes] = useState("");
+  const [resolving, setResolving] = useState(false);
+  const { toast } = useToast();
+
+  const isOpen = dispute.status === "open";
+
+  const fetchMessages = useCallback(async () => {
+    const { data } = await supabase
+      .from("dispute_messages")
+      .select(`
+        *,
+        profiles:sender_id (
+          username
+        )
+      `)
+      .eq("dispute_id", dispute.id)
+      .order("created_at", { ascending: true });
+
+    setMessages((data as DisputeMessage[]) || []);
+  }, [dispute.id]);
+
+  useEffect(() => {
+    fetchMessages();
+  }, [fetchMessages, dispute.status]);
+
+  const handleRespond = async () => {
+    if (!message.trim()) return;
+
+    try {
+      setSending(true);
+
+      const { error } = await supabase
+        .from("dispute_messages")
+        .insert({
+          dispute_id: dispute.id,
+          sender_id: userId,
+          message: message.trim(),
+          evidence_urls: parseEvidenceUrls(evidence),
+        });
+
+      if (error) throw error;
+
+      setMessage("");
+      setEvidence("");
+      fetchMessages();
+    } catch (error: unknown) {
+      toast({
+        title: "Erro ao responder",
+        description: error instanceof Error ? error.message : "Erro desconhecido",
+        variant: "destructive",
+      });
+    } finally {
+      setSending(false);
+    }
+  };
+
+  const handleResolve = async () => {
+    const amount = parseFloat(refundAmount);
+    if (resolution === "split" && (isNaN(amount) || amount <= 0 || amount >= orderTotal)) {
+      toast({
+        title: "Valor inválido",
+        description: `Na divisão o reembolso deve ser menor que R$ ${orderTotal.toFixed(2)}`,
+        variant: "destructive",
+      });
+      return;
+    }
+
+    try {
+      setResolving(true);
+
+      const { error } = await supabase.rpc("resolve_dispute", {
+        _dispute_id: dispute.id,
+        _resolution: resolution,
+        _refund_amount: resolution === "split" ? amount : undefined,
+        _notes: notes.trim() || undefined,
+      });
+
+      if (error) throw error;
+
+      toast({
+        title: "Disputa resolvida",
+        description: resolutionLabels[resolution],
+      });
+
+      onResolved();
+    } catch (error: unknown) {
+      toast({
+        title: "Erro ao resolver disputa",
+        description: error instanceof Error ? error.message : "Erro desconhecido",
+        variant: "destructive",
+      });
+    } finally {
+      setResolving(false);
+    }
+  };
+
+  return (
+    <Card className="bg-card/50 border-destructive/30">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <AlertTriangle className="w-5 h-5 text-destructive" />
+          Disputa
+          <Badge variant={isOpen ? "destructive" : "outline"}>
+            {isOpen ? "Em análise" : "Resolvida"}
+          </Badge>
+        </CardTitle>
+        <CardDescription>
+          {isOpen
+            ? "O valor do pedido está congelado até a decisão do administrador"
+            : `Decisão: ${dispute.resolution ? resolutionLabels[dispute.resolution] : "-"}`}
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="space-y-3">
+          {messages.map((entry) => (
+            <div
+              key={entry.id}
+              className={`p-3 rounded-lg ${entry.is_system ? "bg-primary/10 border border-primary/20" : "bg-background/50"}`}
+            >
+              <div className="flex justify-between text-xs text-muted-foreground mb-1">
+                <span className="font-medium">
+                  {entry.is_system ? "Decisão do administrador" : entry.profiles?.username}
+                </span>
+                <span>{new Date(entry.created_at).toLocaleString("pt-BR")}</span>
+              </div>
+              <p className="text-sm whitespace-pre-line">{entry.message}</p>
+              {entry.evidence_urls.length > 0 && (
+                <div className="mt-2 space-y-1">
+                  {entry.evidence_urls.filter(isHttpUrl).map((url) => (
+                    <a
+                      key={url}
+                      href={url}
+                      target="_blank"
+                      rel="noopener noreferrer"
+                      className="flex items-center gap-1 text-xs text-primary hover:underline break-all"
+                    >
+                      <LinkIcon className="w-3 h-3 shrink-0" />
+                      {url}
+                    </a>
+                  ))}
+                </div>
+              )}
+            </div>
+          ))}
+        </div>
+
+        {isOpen && (
+          <div className="space-y-2 border-t border-border pt-4">
+            <Label htmlFor="dispute-response">Responder</Label>
+            <Textarea
+              id="dispute-response"
+              placeholder="Sua versão dos fatos"
+              value={message}
+              onChange={(e) => setMessage(e.target.value)}
+            />
+            <Textarea
+              placeholder="Links de provas (um por linha, opcional)"
+              value={evidence}
+              onChange={(e) => setEvidence(e.target.value)}
+            />
+            <Button onClick={handleRespond} disabled={!message.trim() || sending}>
+              {sending ? (
+                <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+              ) : (
+                <Send className="w-4 h-4 mr-2" />
+              )}
+              Enviar
+            </Button>
+          </div>
+        )}
+
+        {isOpen && isAdmin && (
+          <div className="space-y-3 border-t border-border pt-4">
+            <p className="font-medium flex items-center gap-2">
+              <Gavel className="w-4 h-4" />
+              Decisão
+            </p>
+            <Select value={resolution} onValueChange={(v) => setResolution(v as DisputeResolution)}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="release">{resolutionLabels.release}</SelectItem>
+                <SelectItem value="refund">{resolutionLabels.refund}</SelectItem>
+                <SelectItem value="split">{resolutionLabels.split}</SelectItem>
+              </SelectContent>
+            </Select>
+            {resolution === "split" && (
+              <div className="space-y-2">
+                <Label htmlFor="split-amount">Reembolso ao comprador (R$)</Label>
+                <Input
+                  id="split-amount"
+                  type="number"
+                  min="0.01"
+                  max={orderTotal}
+                  step="0.01"
+                  value={refundAmount}
+                  onChange={(e) => setRefundAmount(e.target.value)}
+                />
+              </div>
+            )}
+            <Textarea
+              placeholder="Justificativa (visível para as partes)"
+              value={notes}
+              onChange={(e) => setNotes(e.target.value)}
+            />
+            <Button className="w-full" onClick={handleResolve} disabled={resolving}>
+              {resolving && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+              Confirmar Decisão
+            </Button>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
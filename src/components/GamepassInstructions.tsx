@@ -0,0 +1,48 @@
+import { Gamepad2, ExternalLink } from "lucide-react";
+import { GamepassDeliveryDetails, gamepassPrice } from "@/lib/gamepass";
+
+interface GamepassInstructionsProps {
+  amount: number;
+  details?: GamepassDeliveryDetails;
+  audience: "buyer" | "seller";
+}
+
+export function GamepassInstructions({ amount, details, audience }: GamepassInstructionsProps) {
+  const price = details?.gamepass_price ?? gamepassPrice(amount);
+
+  return (
+    <div className="p-3 rounded-lg bg-primary/10 border border-primary/20 text-sm space-y-2">
+      <div className="flex items-center gap-2 font-medium">
+        <Gamepad2 className="w-4 h-4 text-primary" />
+        Preço do gamepass: <span className="text-primary font-bold">{price.toLocaleString()} Robux</span>
+      </div>
+      <p className="text-xs text-muted-foreground">
+        {audience === "buyer"
+          ? `O Roblox retém 30% de cada venda. Com esse preço, você recebe ${amount.toLocaleString()} Robux.`
+          : `Compre o gamepass por esse valor para que o comprador receba ${amount.toLocaleString()} Robux após a taxa de 30% do Roblox.`}
+      </p>
+      {details?.gamepass_url && (
+        <a
+          href={details.gamepass_url}
+          target="_blank"
+          rel="noopener noreferrer"
+          className="flex items-center gap-1 text-xs text-primary hover:underline break-all"
+        >
+          <ExternalLink className="w-3 h-3 shrink-0" />
+          {details.gamepass_url}
+        </a>
+      )}
+      {details?.place_url && (
+        <a
+          href={details.place_url}
+          target="_blank"
+          rel="noopener noreferrer"
+          className="flex items-center gap-1 text-xs text-muted-foreground hover:underline break-all"
+        >
+          <ExternalLink className="w-3 h-3 shrink-0" />
+          {details.place_url}
+        </a>
+      )}
+    </div>
+  );
+}
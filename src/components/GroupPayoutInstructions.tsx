@@ -0,0 +1,91 @@
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { supabase } from "@/integrations/supabase/client";
+import { useToast } from "@/hooks/use-toast";
+import { CalendarClock, ExternalLink, Loader2, Users } from "lucide-react";
+import { GROUP_PAYOUT_WAIT_DAYS, GroupPayoutDeliveryDetails, robloxGroupUrl } from "@/lib/groups";
+
+interface GroupPayoutInstructionsProps {
+  orderId: string;
+  details: GroupPayoutDeliveryDetails;
+  audience: "buyer" | "seller";
+  /** Lets the buyer register the join date while the order is still open */
+  canMarkJoined?: boolean;
+  onJoined?: () => void;
+}
+
+export function GroupPayoutInstructions({
+  orderId,
+  details,
+  audience,
+  canMarkJoined = false,
+  onJoined,
+}: GroupPayoutInstructionsProps) {
+  const [loading, setLoading] = useState(false);
+  const { toast } = useToast();
+
+  const eligibleAt = details.eligible_at ? new Date(details.eligible_at) : null;
+  const eligible = eligibleAt !== null && eligibleAt <= new Date();
+
+  const handleJoined = async () => {
+    try {
+      setLoading(true);
+      const { error } = await supabase.rpc("mark_group_joined", { _order_id: orderId });
+      if (error) throw error;
+
+      toast({
+        title: "Entrada registrada!",
+        description: `O pagamento pode ser feito após ${GROUP_PAYOUT_WAIT_DAYS} dias no grupo`,
+      });
+      onJoined?.();
+    } catch (error: unknown) {
+      toast({
+        title: "Erro",
+        description: error instanceof Error ? error.message : "Erro ao registrar entrada no grupo",
+        variant: "destructive",
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <div className="p-3 rounded-lg bg-green-500/10 border border-green-500/20 text-sm space-y-2">
+      <div className="flex items-center gap-2 font-medium">
+        <Users className="w-4 h-4 text-green-500" />
+        Grupo: {details.group_name}
+      </div>
+      {details.roblox_group_id && (
+        <a
+          href={robloxGroupUrl(details.roblox_group_id)}
+          target="_blank"
+          rel="noopener noreferrer"
+          className="flex items-center gap-1 text-xs text-primary hover:underline break-all"
+        >
+          <ExternalLink className="w-3 h-3 shrink-0" />
+          {robloxGroupUrl(details.roblox_group_id)}
+        </a>
+      )}
+      {eligibleAt ? (
+        <p className={`flex items-center gap-1 text-xs ${eligible ? "text-green-500" : "text-muted-foreground"}`}>
+          <CalendarClock className="w-3 h-3" />
+          {eligible
+            ? "O comprador já pode receber o pagamento pelo grupo"
+            : `Pagamento liberado a partir de ${eligibleAt.toLocaleDateString("pt-BR")}`}
+        </p>
+      ) : (
+        <p className="text-xs text-muted-foreground">
+          {audience === "buyer"
+            ? `Entre no grupo e avise abaixo. O Roblox só libera o pagamento após ${GROUP_PAYOUT_WAIT_DAYS} dias no grupo.`
+            : "Aguardando o comprador entrar no grupo"}
+        </p>
+      )}
+      {audience === "buyer" && !details.joined_at && canMarkJoined && (
+        <Button size="sm" variant="outline" onClick={handleJoined} disabled={loading}>
+          {loading && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+          Já entrei no grupo
+        </Button>
+      )}
+    </div>
+  );
+}
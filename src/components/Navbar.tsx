@@ -1,6 +1,6 @@
 import { Link } from "react-router-dom";
 import { Button } from "@/components/ui/button";
-import { ShoppingCart, User, LogOut } from "lucide-react";
+import { ShoppingCart, User, LogOut, Wallet } from "lucide-react";
 import { supabase } from "@/integrations/supabase/client";
 import { useNavigate } from "react-router-dom";
 import { useToast } from "@/hooks/use-toast";
@@ -46,6 +46,14 @@ export const Navbar = ({ user }: NavbarProps) => {
               <Button variant="ghost" size="icon" className="relative">
                 <ShoppingCart className="w-5 h-5" />
               </Button>
+              <Button
+                variant="ghost"
+                onClick={() => navigate("/wallet")}
+                className="gap-2"
+              >
+                <Wallet className="w-4 h-4" />
+                <span className="hidden sm:inline">Carteira</span>
+              </Button>
               <Button
                 variant="ghost"
                 onClick={() => navigate("/dashboard")}
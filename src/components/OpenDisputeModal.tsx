@@ -0,0 +1,113 @@
+import { useState } from "react";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { supabase } from "@/integrations/supabase/client";
+import { useToast } from "@/hooks/use-toast";
+import { Loader2 } from "lucide-react";
+import { parseEvidenceUrls } from "@/lib/disputes";
+
+interface OpenDisputeModalProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onSuccess: () => void;
+  orderId: string;
+}
+
+export function OpenDisputeModal({ open, onOpenChange, onSuccess, orderId }: OpenDisputeModalProps) {
+  const [reason, setReason] = useState("");
+  const [evidence, setEvidence] = useState("");
+  const [loading, setLoading] = useState(false);
+  const { toast } = useToast();
+
+  const handleOpen = async () => {
+    if (!reason.trim()) {
+      toast({
+        title: "Motivo obrigatório",
+        description: "Descreva o problema com o pedido",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    try {
+      setLoading(true);
+
+      const { error } = await supabase.rpc("open_dispute", {
+        _order_id: orderId,
+        _reason: reason.trim(),
+        _evidence_urls: parseEvidenceUrls(evidence),
+      });
+
+      if (error) throw error;
+
+      toast({
+        title: "Disputa aberta",
+        description: "O valor do pedido ficará congelado até a decisão do administrador",
+      });
+
+      onSuccess();
+      handleClose();
+    } catch (error: unknown) {
+      toast({
+        title: "Erro",
+        description: error instanceof Error ? error.message : "Erro ao abrir disputa",
+        variant: "destructive",
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleClose = () => {
+    setReason("");
+    setEvidence("");
+    onOpenChange(false);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={handleClose}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle>Abrir Disputa</DialogTitle>
+          <DialogDescription>
+            Um administrador vai analisar o caso. Vendedor e comprador podem responder até a decisão.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="dispute-reason">Motivo</Label>
+            <Textarea
+              id="dispute-reason"
+              placeholder="Explique o que aconteceu com o pedido"
+              value={reason}
+              onChange={(e) => setReason(e.target.value)}
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="dispute-evidence">Provas (links, um por linha)</Label>
+            <Textarea
+              id="dispute-evidence"
+              placeholder="https://..."
+              value={evidence}
+              onChange={(e) => setEvidence(e.target.value)}
+            />
+          </div>
+
+          <Button
+            className="w-full"
+            variant="destructive"
+            onClick={handleOpen}
+            disabled={loading}
+          >
+            {loading && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+            Abrir Disputa
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,178 @@
+import { useCallback, useEffect, useState } from "react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { supabase } from "@/integrations/supabase/client";
+import { useToast } from "@/hooks/use-toast";
+import { Tables } from "@/integrations/supabase/types";
+import { isAccountPixKey, isPixKeyAvailable, PixKeyType, pixKeyPlaceholders, pixKeyTypeLabels } from "@/lib/pix";
+import { KeyRound, Loader2, Plus, Trash2 } from "lucide-react";
+
+type PixKey = Tables<"seller_pix_keys">;
+
+interface PixKeysCardProps {
+  sellerId: string;
+}
+
+export function PixKeysCard({ sellerId }: PixKeysCardProps) {
+  const [keys, setKeys] = useState<PixKey[]>([]);
+  const [holdHours, setHoldHours] = useState<number | null>(null);
+  const [keyType, setKeyType] = useState<PixKeyType>("CPF");
+  const [keyValue, setKeyValue] = useState("");
+  const [saving, setSaving] = useState(false);
+  const { toast } = useToast();
+
+  const fetchKeys = useCallback(async () => {
+    const [keysRes, settingsRes] = await Promise.all([
+      supabase
+        .from("seller_pix_keys")
+        .select("*")
+        .eq("seller_id", sellerId)
+        .order("created_at", { ascending: true }),
+      supabase.from("platform_settings").select("pix_key_hold_hours").single(),
+    ]);
+
+    setKeys(keysRes.data || []);
+    setHoldHours(settingsRes.data?.pix_key_hold_hours ?? null);
+  }, [sellerId]);
+
+  useEffect(() => {
+    fetchKeys();
+  }, [fetchKeys]);
+
+  const handleAdd = async () => {
+    if (!keyValue.trim()) {
+      toast({
+        title: "Chave PIX obrigatória",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    try {
+      setSaving(true);
+      const { error } = await supabase.rpc("add_pix_key", {
+        _key_type: keyType,
+        _key_value: keyValue,
+      });
+
+      if (error) throw error;
+
+      toast({
+        title: "Chave PIX cadastrada!",
+        description: holdHours
+          ? `Por segurança, ela poderá receber saques em ${holdHours} horas`
+          : undefined,
+      });
+      setKeyValue("");
+      await fetchKeys();
+    } catch (error: unknown) {
+      toast({
+        title: "Erro",
+        description: error instanceof Error ? error.message : "Erro ao cadastrar chave PIX",
+        variant: "destructive",
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleRemove = async (key: PixKey) => {
+    const { error } = await supabase
+      .from("seller_pix_keys")
+      .delete()
+      .eq("id", key.id);
+
+    if (error) {
+      toast({
+        title: "Erro",
+        description: error.message,
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setKeys(keys.filter((k) => k.id !== key.id));
+  };
+
+  return (
+    <Card className="bg-card/50 mt-4">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <KeyRound className="w-5 h-5" />
+          Chaves PIX
+        </CardTitle>
+        <CardDescription>
+          Chaves CPF e e-mail precisam ser o CPF cadastrado e o e-mail de login da sua conta; das
+          demais validamos apenas o formato, então confira se são suas. Novas chaves ficam em carência
+          {holdHours ? ` por ${holdHours} horas` : ""} antes de receber saques.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {keys.length === 0 ? (
+          <p className="text-sm text-muted-foreground">Nenhuma chave PIX cadastrada.</p>
+        ) : (
+          <div className="space-y-2">
+            {keys.map((key) => (
+              <div key={key.id} className="flex items-center justify-between gap-4 p-3 rounded-lg bg-background/50">
+                <div>
+                  <p className="font-mono text-sm break-all">{key.key_value}</p>
+                  <p className="text-xs text-muted-foreground">
+                    {pixKeyTypeLabels[key.key_type]} ·{" "}
+                    {isAccountPixKey(key.key_type) ? "conferida com a conta" : "formato validado"}
+                  </p>
+                </div>
+                <div className="flex items-center gap-2">
+                  {isPixKeyAvailable(key) ? (
+                    <Badge variant="secondary">Disponível</Badge>
+                  ) : (
+                    <Badge variant="outline">
+                      Carência até {new Date(key.available_at).toLocaleString("pt-BR")}
+                    </Badge>
+                  )}
+                  <Button variant="ghost" size="icon" onClick={() => handleRemove(key)}>
+                    <Trash2 className="w-4 h-4" />
+                  </Button>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+
+        <div className="grid grid-cols-1 md:grid-cols-[180px_1fr_auto] gap-2 items-end">
+          <div className="space-y-2">
+            <Label>Tipo</Label>
+            <Select value={keyType} onValueChange={(v) => setKeyType(v as PixKeyType)}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {Object.entries(pixKeyTypeLabels).map(([value, label]) => (
+                  <SelectItem key={value} value={value}>
+                    {label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="new-pix-key">Chave</Label>
+            <Input
+              id="new-pix-key"
+              placeholder={pixKeyPlaceholders[keyType]}
+              value={keyValue}
+              onChange={(e) => setKeyValue(e.target.value)}
+            />
+          </div>
+          <Button onClick={handleAdd} disabled={saving} className="gap-2">
+            {saving ? <Loader2 className="w-4 h-4 animate-spin" /> : <Plus className="w-4 h-4" />}
+            Adicionar
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
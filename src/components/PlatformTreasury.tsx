@@ -0,0 +1,136 @@
+import { useCallback, useEffect, useState } from "react";
+import { useNavigate } from "react-router-dom";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { supabase } from "@/integrations/supabase/client";
+import { Database } from "@/integrations/supabase/types";
+import { Landmark, Loader2, RefreshCw } from "lucide-react";
+
+type TreasuryEntry = Database["public"]["Functions"]["platform_treasury_history"]["Returns"][number];
+
+export function PlatformTreasury() {
+  const [balance, setBalance] = useState(0);
+  const [entries, setEntries] = useState<TreasuryEntry[]>([]);
+  const [loading, setLoading] = useState(true);
+  const navigate = useNavigate();
+
+  const fetchTreasury = useCallback(async () => {
+    setLoading(true);
+
+    const [balanceRes, historyRes] = await Promise.all([
+      supabase.rpc("platform_treasury_balance"),
+      supabase.rpc("platform_treasury_history"),
+    ]);
+
+    setBalance(Number(balanceRes.data ?? 0));
+    setEntries(historyRes.data || []);
+    setLoading(false);
+  }, []);
+
+  useEffect(() => {
+    fetchTreasury();
+  }, [fetchTreasury]);
+
+  const totalIn = entries.filter((e) => Number(e.amount) > 0).reduce((acc, e) => acc + Number(e.amount), 0);
+  const totalOut = entries.filter((e) => Number(e.amount) < 0).reduce((acc, e) => acc - Number(e.amount), 0);
+
+  return (
+    <div className="space-y-4">
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+        <Card className="bg-gradient-to-br from-primary/20 to-primary/5 border-primary/20">
+          <CardHeader className="pb-2">
+            <CardDescription>Saldo da Tesouraria</CardDescription>
+            <CardTitle className="text-2xl flex items-center gap-2">
+              <Landmark className="w-5 h-5 text-primary" />
+              R$ {balance.toFixed(2)}
+            </CardTitle>
+          </CardHeader>
+        </Card>
+
+        <Card className="bg-card/50">
+          <CardHeader className="pb-2">
+            <CardDescription>Entradas (período listado)</CardDescription>
+            <CardTitle className="text-2xl text-green-500">R$ {totalIn.toFixed(2)}</CardTitle>
+          </CardHeader>
+        </Card>
+
+        <Card className="bg-card/50">
+          <CardHeader className="pb-2">
+            <CardDescription>Saídas (período listado)</CardDescription>
+            <CardTitle className="text-2xl text-destructive">R$ {totalOut.toFixed(2)}</CardTitle>
+          </CardHeader>
+        </Card>
+      </div>
+
+      <Card className="bg-card/50">
+        <CardHeader className="flex flex-row items-start justify-between">
+          <div>
+            <CardTitle>Movimentações</CardTitle>
+            <CardDescription>
+              Comissões de venda e taxas de saque entram aqui; subsídios de cupons saem daqui
+            </CardDescription>
+          </div>
+          <Button variant="outline" size="sm" onClick={fetchTreasury} disabled={loading} className="gap-2">
+            {loading ? <Loader2 className="w-4 h-4 animate-spin" /> : <RefreshCw className="w-4 h-4" />}
+            Atualizar
+          </Button>
+        </CardHeader>
+        <CardContent>
+          {entries.length === 0 ? (
+            <p className="py-12 text-center text-muted-foreground">
+              {loading ? "Carregando..." : "Nenhuma movimentação na tesouraria"}
+            </p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Data</TableHead>
+                  <TableHead>Descrição</TableHead>
+                  <TableHead>Referência</TableHead>
+                  <TableHead>Valor</TableHead>
+                  <TableHead>Saldo</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {entries.map((entry) => (
+                  <TableRow key={entry.entry_id}>
+                    <TableCell>{new Date(entry.created_at).toLocaleString("pt-BR")}</TableCell>
+                    <TableCell>{entry.description}</TableCell>
+                    <TableCell>
+                      {entry.order_id ? (
+                        <Button
+                          variant="link"
+                          size="sm"
+                          className="px-0 font-mono text-xs"
+                          onClick={() => navigate(`/order/${entry.order_id}`)}
+                        >
+                          Pedido {entry.order_id.slice(0, 8)}
+                        </Button>
+                      ) : entry.withdrawal_id ? (
+                        <span className="font-mono text-xs">Saque {entry.withdrawal_id.slice(0, 8)}</span>
+                      ) : (
+                        "-"
+                      )}
+                    </TableCell>
+                    <TableCell className={Number(entry.amount) > 0 ? "text-green-500" : "text-destructive"}>
+                      {Number(entry.amount) > 0 ? "+" : "-"}R$ {Math.abs(Number(entry.amount)).toFixed(2)}
+                    </TableCell>
+                    <TableCell>R$ {Number(entry.balance).toFixed(2)}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,98 @@
+import { useState, useEffect } from "react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { supabase } from "@/integrations/supabase/client";
+import { FileText, Image as ImageIcon, Loader2 } from "lucide-react";
+import { PROOF_BUCKET } from "@/lib/orders";
+
+interface ProofFile {
+  name: string;
+  url: string;
+  isImage: boolean;
+}
+
+interface ProofGalleryProps {
+  folder: string;
+}
+
+export function ProofGallery({ folder }: ProofGalleryProps) {
+  const [files, setFiles] = useState<ProofFile[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    const fetchProof = async () => {
+      setLoading(true);
+
+      const { data: objects } = await supabase.storage
+        .from(PROOF_BUCKET)
+        .list(folder, { sortBy: { column: "created_at", order: "asc" } });
+
+      const paths = (objects || []).map((object) => `${folder}/${object.name}`);
+      if (paths.length === 0) {
+        setFiles([]);
+        setLoading(false);
+        return;
+      }
+
+      // The bucket is private, so links expire after an hour
+      const { data: signed } = await supabase.storage
+        .from(PROOF_BUCKET)
+        .createSignedUrls(paths, 3600);
+
+      setFiles(
+        (signed || [])
+          .map((entry, index) => ({
+            name: objects![index].name.replace(/^\d+-/, ""),
+            url: entry.signedUrl,
+            isImage: (objects![index].metadata?.mimetype ?? "").startsWith("image/"),
+          }))
+          .filter((file) => file.url)
+      );
+      setLoading(false);
+    };
+
+    fetchProof();
+  }, [folder]);
+
+  return (
+    <Card className="bg-card/50">
+      <CardHeader>
+        <CardTitle className="text-sm text-muted-foreground flex items-center gap-2">
+          <ImageIcon className="w-4 h-4" />
+          Prova de Entrega
+        </CardTitle>
+      </CardHeader>
+      <CardContent>
+        {loading ? (
+          <div className="flex justify-center py-4">
+            <Loader2 className="w-5 h-5 animate-spin text-muted-foreground" />
+          </div>
+        ) : files.length === 0 ? (
+          <p className="text-sm text-muted-foreground text-center">Nenhum arquivo enviado</p>
+        ) : (
+          <div className="grid grid-cols-2 gap-2">
+            {files.map((file) => (
+              <a
+                key={file.url}
+                href={file.url}
+                target="_blank"
+                rel="noopener noreferrer"
+                className="block rounded-lg overflow-hidden bg-background/50 hover:opacity-80 transition-opacity"
+              >
+                {file.isImage ? (
+                  <img src={file.url} alt={file.name} className="w-full h-24 object-cover" />
+                ) : (
+                  <div className="h-24 flex flex-col items-center justify-center gap-1 p-2">
+                    <FileText className="w-6 h-6 text-muted-foreground" />
+                    <span className="text-xs text-muted-foreground truncate w-full text-center">
+                      {file.name}
+                    </span>
+                  </div>
+                )}
+              </a>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,142 @@
+import { useState } from "react";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { supabase } from "@/integrations/supabase/client";
+import { useToast } from "@/hooks/use-toast";
+import { Loader2 } from "lucide-react";
+import { Tables } from "@/integrations/supabase/types";
+
+interface RefundOrderModalProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onSuccess: (order: Tables<"orders">) => void;
+  order: Pick<Tables<"orders">, "id" | "total_price"> | null;
+  /** Only admins may refund part of the order; sellers always refund in full */
+  allowPartial?: boolean;
+}
+
+export function RefundOrderModal({ open, onOpenChange, onSuccess, order, allowPartial = false }: RefundOrderModalProps) {
+  const [partial, setPartial] = useState(false);
+  const [amount, setAmount] = useState("");
+  const [loading, setLoading] = useState(false);
+  const { toast } = useToast();
+
+  const total = Number(order?.total_price ?? 0);
+  const refundValue = partial ? parseFloat(amount) : total;
+
+  const handleCancel = async () => {
+    if (!order) return;
+
+    if (partial && (isNaN(refundValue) || refundValue <= 0 || refundValue > total)) {
+      toast({
+        title: "Valor inválido",
+        description: `O reembolso deve ser entre R$ 0,01 e R$ ${total.toFixed(2)}`,
+        variant: "destructive",
+      });
+      return;
+    }
+
+    try {
+      setLoading(true);
+
+      const { data, error } = await supabase.rpc("cancel_order", {
+        _order_id: order.id,
+        _refund_amount: partial ? refundValue : undefined,
+      });
+
+      if (error) throw error;
+
+      toast({
+        title: "Pedido cancelado",
+        description: `R$ ${refundValue.toFixed(2)} reembolsados ao comprador`,
+      });
+
+      onSuccess(data);
+      handleClose();
+    } catch (error: unknown) {
+      toast({
+        title: "Erro",
+        description: error instanceof Error ? error.message : "Erro ao cancelar pedido",
+        variant: "destructive",
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleClose = () => {
+    setPartial(false);
+    setAmount("");
+    onOpenChange(false);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={handleClose}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle>Cancelar Pedido</DialogTitle>
+          <DialogDescription>
+            Valor do pedido: R$ {total.toFixed(2)}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          {allowPartial ? (
+            <div className="flex items-center justify-between">
+              <Label htmlFor="partial-refund">Reembolso parcial</Label>
+              <Switch id="partial-refund" checked={partial} onCheckedChange={setPartial} />
+            </div>
+          ) : (
+            <p className="text-sm text-muted-foreground">
+              O comprador recebe de volta o valor integral do pedido.
+            </p>
+          )}
+
+          {partial && (
+            <div className="space-y-2">
+              <Label htmlFor="refund-amount">Valor a reembolsar (R$)</Label>
+              <Input
+                id="refund-amount"
+                type="number"
+                min="0.01"
+                max={total}
+                step="0.01"
+                placeholder={`Até R$ ${total.toFixed(2)}`}
+                value={amount}
+                onChange={(e) => setAmount(e.target.value)}
+              />
+            </div>
+          )}
+
+          {!isNaN(refundValue) && refundValue > 0 && refundValue <= total && (
+            <div className="p-3 bg-muted rounded-lg text-sm space-y-1">
+              <div className="flex justify-between">
+                <span>Reembolso ao comprador:</span>
+                <span>R$ {refundValue.toFixed(2)}</span>
+              </div>
+              {partial && (
+                <div className="flex justify-between text-muted-foreground">
+                  <span>Liberado ao vendedor (antes da comissão):</span>
+                  <span>R$ {(total - refundValue).toFixed(2)}</span>
+                </div>
+              )}
+            </div>
+          )}
+
+          <Button
+            className="w-full"
+            variant="destructive"
+            onClick={handleCancel}
+            disabled={loading}
+          >
+            {loading && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+            Cancelar e Reembolsar
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,211 @@
+import { useEffect, useState } from "react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { supabase } from "@/integrations/supabase/client";
+import { useToast } from "@/hooks/use-toast";
+import { Tables } from "@/integrations/supabase/types";
+import { robloxProfileUrl } from "@/lib/roblox";
+import { Copy, ExternalLink, Gamepad2, Loader2, ShieldCheck } from "lucide-react";
+
+type Verification = Tables<"roblox_verifications">;
+
+interface RobloxAccountCardProps {
+  profile: Tables<"profiles">;
+  onChange: () => void;
+}
+
+export function RobloxAccountCard({ profile, onChange }: RobloxAccountCardProps) {
+  const [username, setUsername] = useState("");
+  const [pending, setPending] = useState<Verification | null>(null);
+  const [loading, setLoading] = useState(false);
+  const { toast } = useToast();
+
+  const verified = !!profile.roblox_verified_at && profile.roblox_user_id !== null;
+
+  useEffect(() => {
+    if (verified) return;
+
+    supabase
+      .from("roblox_verifications")
+      .select("*")
+      .eq("user_id", profile.id)
+      .maybeSingle()
+      .then(({ data }) => {
+        if (data && new Date(data.expires_at) > new Date()) setPending(data);
+      });
+  }, [profile.id, verified]);
+
+  const invoke = async (body: Record<string, unknown>) => {
+    const response = await supabase.functions.invoke("roblox-verify", { body });
+
+    if (response.error) {
+      throw new Error(response.error.message || "Erro ao verificar conta Roblox");
+    }
+    if (response.data?.error) {
+      throw new Error(response.data.error);
+    }
+
+    return response.data;
+  };
+
+  const handleStart = async () => {
+    if (!username.trim()) {
+      toast({
+        title: "Usuário obrigatório",
+        description: "Informe seu nome de usuário Roblox",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    try {
+      setLoading(true);
+      const data = await invoke({ action: "start", username: username.trim() });
+
+      setPending({
+        user_id: profile.id,
+        roblox_user_id: data.robloxUserId,
+        roblox_username: data.robloxUsername,
+        code: data.code,
+        expires_at: data.expiresAt,
+        created_at: new Date().toISOString(),
+      });
+    } catch (error: unknown) {
+      toast({
+        title: "Erro",
+        description: error instanceof Error ? error.message : "Erro ao gerar código",
+        variant: "destructive",
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleConfirm = async () => {
+    try {
+      setLoading(true);
+      await invoke({ action: "confirm" });
+
+      toast({
+        title: "Conta verificada!",
+        description: "Você já pode remover o código da sua descrição",
+      });
+
+      setPending(null);
+      setUsername("");
+      onChange();
+    } catch (error: unknown) {
+      toast({
+        title: "Erro",
+        description: error instanceof Error ? error.message : "Erro ao verificar conta",
+        variant: "destructive",
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleUnlink = async () => {
+    try {
+      setLoading(true);
+      await invoke({ action: "unlink" });
+      onChange();
+    } catch (error: unknown) {
+      toast({
+        title: "Erro",
+        description: error instanceof Error ? error.message : "Erro ao desvincular conta",
+        variant: "destructive",
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const copyCode = () => {
+    if (!pending) return;
+    navigator.clipboard.writeText(pending.code);
+    toast({ title: "Código copiado!" });
+  };
+
+  return (
+    <Card className="bg-card/50 mb-8">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2 text-lg">
+          <Gamepad2 className="w-5 h-5 text-primary" />
+          Conta Roblox
+          {verified && (
+            <Badge className="bg-green-500/20 text-green-500 border-green-500/30 gap-1">
+              <ShieldCheck className="w-3 h-3" />
+              Verificada
+            </Badge>
+          )}
+        </CardTitle>
+        <CardDescription>
+          Os vendedores entregam os Robux na conta vinculada aqui
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        {verified ? (
+          <div className="flex items-center justify-between gap-4">
+            <a
+              href={robloxProfileUrl(profile.roblox_user_id!)}
+              target="_blank"
+              rel="noopener noreferrer"
+              className="flex items-center gap-1 font-medium text-primary hover:underline"
+            >
+              {profile.roblox_username}
+              <ExternalLink className="w-3 h-3" />
+            </a>
+            <Button variant="outline" size="sm" onClick={handleUnlink} disabled={loading}>
+              Desvincular
+            </Button>
+          </div>
+        ) : pending ? (
+          <div className="space-y-3">
+            <p className="text-sm text-muted-foreground">
+              Cole o código abaixo na descrição do perfil Roblox de{" "}
+              <span className="font-medium text-foreground">{pending.roblox_username}</span> e clique em verificar.
+            </p>
+            <div className="flex items-center gap-2">
+              <code className="flex-1 p-2 rounded bg-muted font-mono text-center">{pending.code}</code>
+              <Button variant="outline" size="icon" onClick={copyCode}>
+                <Copy className="w-4 h-4" />
+              </Button>
+            </div>
+            <p className="text-xs text-muted-foreground">
+              Válido até {new Date(pending.expires_at).toLocaleTimeString("pt-BR")}
+            </p>
+            <div className="flex gap-2">
+              <Button className="flex-1" onClick={handleConfirm} disabled={loading}>
+                {loading && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+                Verificar
+              </Button>
+              <Button variant="outline" onClick={() => setPending(null)} disabled={loading}>
+                Trocar conta
+              </Button>
+            </div>
+          </div>
+        ) : (
+          <div className="flex flex-col sm:flex-row gap-2 sm:items-end">
+            <div className="flex-1 space-y-2">
+              <Label htmlFor="roblox-username">Usuário Roblox</Label>
+              <Input
+                id="roblox-username"
+                placeholder="Seu nome de usuário no Roblox"
+                value={username}
+                onChange={(e) => setUsername(e.target.value)}
+              />
+            </div>
+            <Button onClick={handleStart} disabled={loading}>
+              {loading && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+              Gerar código
+            </Button>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
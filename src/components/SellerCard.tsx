@@ -12,6 +12,7 @@ interface SellerCardProps {
     price_per_1k: number;
     min_amount: number;
     max_amount: number;
+    stock: number;
     is_online: boolean;
     average_rating: number;
     total_ratings: number;
@@ -87,7 +88,7 @@ export const SellerCard = ({ seller, onBuy }: SellerCardProps) => {
           </div>
         </div>
 
-        <div className="grid grid-cols-2 gap-3">
+        <div className="grid grid-cols-3 gap-3">
           <div className="p-3 bg-background/50 rounded-lg border border-border">
             <p className="text-xs text-muted-foreground mb-1">Mínimo</p>
             <p className="font-semibold">{formatNumber(seller.min_amount)}</p>
@@ -96,6 +97,10 @@ export const SellerCard = ({ seller, onBuy }: SellerCardProps) => {
             <p className="text-xs text-muted-foreground mb-1">Máximo</p>
             <p className="font-semibold">{formatNumber(seller.max_amount)}</p>
           </div>
+          <div className="p-3 bg-background/50 rounded-lg border border-border">
+            <p className="text-xs text-muted-foreground mb-1">Estoque</p>
+            <p className="font-semibold">{formatNumber(seller.stock)}</p>
+          </div>
         </div>
 
         <div className="flex items-center gap-2 text-xs text-muted-foreground">
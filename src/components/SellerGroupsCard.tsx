@@ -0,0 +1,189 @@
+import { useCallback, useEffect, useState } from "react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { supabase } from "@/integrations/supabase/client";
+import { useToast } from "@/hooks/use-toast";
+import { Tables } from "@/integrations/supabase/types";
+import { GROUP_PAYOUT_WAIT_DAYS, parseRobloxGroupId, robloxGroupUrl } from "@/lib/groups";
+import { ExternalLink, Loader2, Plus, Trash2, Users } from "lucide-react";
+
+type SellerGroup = Tables<"seller_groups">;
+
+interface SellerGroupsCardProps {
+  sellerId: string;
+}
+
+export function SellerGroupsCard({ sellerId }: SellerGroupsCardProps) {
+  const [groups, setGroups] = useState<SellerGroup[]>([]);
+  const [groupLink, setGroupLink] = useState("");
+  const [groupName, setGroupName] = useState("");
+  const [saving, setSaving] = useState(false);
+  const { toast } = useToast();
+
+  const fetchGroups = useCallback(async () => {
+    const { data } = await supabase
+      .from("seller_groups")
+      .select("*")
+      .eq("seller_id", sellerId)
+      .order("created_at", { ascending: true });
+
+    setGroups(data || []);
+  }, [sellerId]);
+
+  useEffect(() => {
+    fetchGroups();
+  }, [fetchGroups]);
+
+  const showError = (error: unknown, fallback: string) => {
+    toast({
+      title: "Erro",
+      description: error instanceof Error ? error.message : fallback,
+      variant: "destructive",
+    });
+  };
+
+  const handleAdd = async () => {
+    const robloxGroupId = parseRobloxGroupId(groupLink);
+
+    if (!robloxGroupId) {
+      toast({
+        title: "Grupo inválido",
+        description: "Use o link do grupo (https://www.roblox.com/groups/...) ou o ID",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    if (!groupName.trim()) {
+      toast({
+        title: "Nome obrigatório",
+        description: "Informe o nome do grupo",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    try {
+      setSaving(true);
+      const { error } = await supabase
+        .from("seller_groups")
+        .insert({ seller_id: sellerId, roblox_group_id: robloxGroupId, name: groupName.trim() });
+
+      if (error) throw error;
+
+      setGroupLink("");
+      setGroupName("");
+      await fetchGroups();
+    } catch (error: unknown) {
+      showError(error, "Erro ao adicionar grupo");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleToggle = async (group: SellerGroup, isActive: boolean) => {
+    const { error } = await supabase
+      .from("seller_groups")
+      .update({ is_active: isActive })
+      .eq("id", group.id);
+
+    if (error) {
+      showError(error, "Erro ao atualizar grupo");
+      return;
+    }
+
+    setGroups(groups.map((g) => (g.id === group.id ? { ...g, is_active: isActive } : g)));
+  };
+
+  const handleRemove = async (group: SellerGroup) => {
+    const { error } = await supabase
+      .from("seller_groups")
+      .delete()
+      .eq("id", group.id);
+
+    if (error) {
+      showError(error, "Erro ao remover grupo");
+      return;
+    }
+
+    setGroups(groups.filter((g) => g.id !== group.id));
+  };
+
+  return (
+    <Card className="bg-card/50 mt-4">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Users className="w-5 h-5" />
+          Grupos para Group Payout
+        </CardTitle>
+        <CardDescription>
+          Os compradores entram no grupo escolhido e recebem após {GROUP_PAYOUT_WAIT_DAYS} dias como membros
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {groups.length === 0 ? (
+          <p className="text-sm text-muted-foreground">
+            Nenhum grupo cadastrado. Sem grupos ativos, o Group Payout fica indisponível na sua loja.
+          </p>
+        ) : (
+          <div className="space-y-2">
+            {groups.map((group) => (
+              <div key={group.id} className="flex items-center justify-between gap-4 p-3 rounded-lg bg-background/50">
+                <div>
+                  <p className="font-medium">{group.name}</p>
+                  <a
+                    href={robloxGroupUrl(group.roblox_group_id)}
+                    target="_blank"
+                    rel="noopener noreferrer"
+                    className="flex items-center gap-1 text-xs text-primary hover:underline"
+                  >
+                    {robloxGroupUrl(group.roblox_group_id)}
+                    <ExternalLink className="w-3 h-3" />
+                  </a>
+                </div>
+                <div className="flex items-center gap-2">
+                  <Switch
+                    checked={group.is_active}
+                    onCheckedChange={(checked) => handleToggle(group, checked)}
+                  />
+                  <Button variant="ghost" size="icon" onClick={() => handleRemove(group)}>
+                    <Trash2 className="w-4 h-4 text-destructive" />
+                  </Button>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+
+        <div className="grid grid-cols-1 md:grid-cols-[2fr_1fr_auto] gap-2 items-end">
+          <div className="space-y-2">
+            <Label htmlFor="group-link">Link ou ID do grupo</Label>
+            <Input
+              id="group-link"
+              placeholder="https://www.roblox.com/groups/..."
+              value={groupLink}
+              onChange={(e) => setGroupLink(e.target.value)}
+              className="bg-background/50"
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="group-name">Nome</Label>
+            <Input
+              id="group-name"
+              value={groupName}
+              onChange={(e) => setGroupName(e.target.value)}
+              className="bg-background/50"
+            />
+          </div>
+          <Button onClick={handleAdd} disabled={saving} className="gap-2">
+            {saving ? <Loader2 className="w-4 h-4 animate-spin" /> : <Plus className="w-4 h-4" />}
+            Adicionar
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
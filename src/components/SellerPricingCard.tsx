@@ -0,0 +1,237 @@
+import { useCallback, useEffect, useState } from "react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { supabase } from "@/integrations/supabase/client";
+import { useToast } from "@/hooks/use-toast";
+import { Database, Tables } from "@/integrations/supabase/types";
+import { deliveryMethodLabels } from "@/lib/orders";
+import { Layers, Loader2, Plus, Trash2 } from "lucide-react";
+
+type PriceTier = Tables<"seller_price_tiers">;
+type DeliveryMethod = Database["public"]["Enums"]["delivery_method"];
+
+const deliveryMethods = Object.keys(deliveryMethodLabels) as DeliveryMethod[];
+
+interface SellerPricingCardProps {
+  sellerId: string;
+  basePricePer1k: number;
+}
+
+export function SellerPricingCard({ sellerId, basePricePer1k }: SellerPricingCardProps) {
+  const [tiers, setTiers] = useState<PriceTier[]>([]);
+  const [surcharges, setSurcharges] = useState<Record<DeliveryMethod, string>>({
+    gamepass: "0",
+    donation: "0",
+    group_payout: "0",
+  });
+  const [tierAmount, setTierAmount] = useState("");
+  const [tierPrice, setTierPrice] = useState("");
+  const [saving, setSaving] = useState(false);
+  const { toast } = useToast();
+
+  const fetchPricing = useCallback(async () => {
+    const [{ data: tiersData }, { data: surchargesData }] = await Promise.all([
+      supabase
+        .from("seller_price_tiers")
+        .select("*")
+        .eq("seller_id", sellerId)
+        .order("min_amount", { ascending: true }),
+      supabase
+        .from("seller_delivery_surcharges")
+        .select("*")
+        .eq("seller_id", sellerId),
+    ]);
+
+    setTiers(tiersData || []);
+    setSurcharges((current) => {
+      const next = { ...current };
+      for (const row of surchargesData || []) {
+        next[row.delivery_method] = row.surcharge_per_1k.toString();
+      }
+      return next;
+    });
+  }, [sellerId]);
+
+  useEffect(() => {
+    fetchPricing();
+  }, [fetchPricing]);
+
+  const showError = (error: unknown, fallback: string) => {
+    toast({
+      title: "Erro",
+      description: error instanceof Error ? error.message : fallback,
+      variant: "destructive",
+    });
+  };
+
+  const handleAddTier = async () => {
+    const minAmount = parseInt(tierAmount);
+    const price = parseFloat(tierPrice);
+
+    if (isNaN(minAmount) || minAmount <= 0 || isNaN(price) || price <= 0) {
+      toast({
+        title: "Faixa inválida",
+        description: "Informe a quantidade mínima e o preço por 1K",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    try {
+      setSaving(true);
+      const { error } = await supabase
+        .from("seller_price_tiers")
+        .upsert(
+          { seller_id: sellerId, min_amount: minAmount, price_per_1k: price },
+          { onConflict: "seller_id,min_amount" }
+        );
+
+      if (error) throw error;
+
+      setTierAmount("");
+      setTierPrice("");
+      await fetchPricing();
+    } catch (error: unknown) {
+      showError(error, "Erro ao salvar faixa");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleRemoveTier = async (tier: PriceTier) => {
+    const { error } = await supabase
+      .from("seller_price_tiers")
+      .delete()
+      .eq("id", tier.id);
+
+    if (error) {
+      showError(error, "Erro ao remover faixa");
+      return;
+    }
+
+    setTiers(tiers.filter((t) => t.id !== tier.id));
+  };
+
+  const handleSaveSurcharges = async () => {
+    const rows = deliveryMethods.map((method) => ({
+      seller_id: sellerId,
+      delivery_method: method,
+      surcharge_per_1k: parseFloat(surcharges[method]) || 0,
+    }));
+
+    if (rows.some((row) => row.surcharge_per_1k < 0)) {
+      toast({
+        title: "Taxa inválida",
+        description: "As taxas não podem ser negativas",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    try {
+      setSaving(true);
+      const { error } = await supabase
+        .from("seller_delivery_surcharges")
+        .upsert(rows, { onConflict: "seller_id,delivery_method" });
+
+      if (error) throw error;
+
+      toast({
+        title: "Taxas salvas!",
+        description: "As taxas por método de entrega foram atualizadas",
+      });
+    } catch (error: unknown) {
+      showError(error, "Erro ao salvar taxas");
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Card className="bg-card/50 mt-4">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Layers className="w-5 h-5" />
+          Preços por Quantidade
+        </CardTitle>
+        <CardDescription>
+          A faixa mais alta alcançada define o preço por 1K do pedido inteiro. Abaixo da primeira faixa vale o preço base.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="space-y-2">
+          <div className="flex items-center justify-between p-3 rounded-lg bg-background/50 text-sm">
+            <span className="text-muted-foreground">Preço base</span>
+            <span className="font-semibold">R$ {Number(basePricePer1k).toFixed(2)} / 1K</span>
+          </div>
+          {tiers.map((tier) => (
+            <div key={tier.id} className="flex items-center justify-between p-3 rounded-lg bg-background/50 text-sm">
+              <span className="text-muted-foreground">
+                A partir de {tier.min_amount.toLocaleString()} Robux
+              </span>
+              <div className="flex items-center gap-2">
+                <span className="font-semibold">R$ {Number(tier.price_per_1k).toFixed(2)} / 1K</span>
+                <Button variant="ghost" size="icon" onClick={() => handleRemoveTier(tier)}>
+                  <Trash2 className="w-4 h-4 text-destructive" />
+                </Button>
+              </div>
+            </div>
+          ))}
+        </div>
+
+        <div className="grid grid-cols-1 md:grid-cols-[1fr_1fr_auto] gap-2 items-end">
+          <div className="space-y-2">
+            <Label htmlFor="tier-amount">A partir de (Robux)</Label>
+            <Input
+              id="tier-amount"
+              type="number"
+              value={tierAmount}
+              onChange={(e) => setTierAmount(e.target.value)}
+              className="bg-background/50"
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="tier-price">Preço por 1K (R$)</Label>
+            <Input
+              id="tier-price"
+              type="number"
+              step="0.01"
+              value={tierPrice}
+              onChange={(e) => setTierPrice(e.target.value)}
+              className="bg-background/50"
+            />
+          </div>
+          <Button onClick={handleAddTier} disabled={saving} className="gap-2">
+            {saving ? <Loader2 className="w-4 h-4 animate-spin" /> : <Plus className="w-4 h-4" />}
+            Adicionar
+          </Button>
+        </div>
+
+        <div className="space-y-3">
+          <Label className="text-base">Taxa por método de entrega (R$ por 1K)</Label>
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            {deliveryMethods.map((method) => (
+              <div key={method} className="space-y-2">
+                <Label htmlFor={`surcharge-${method}`}>{deliveryMethodLabels[method]}</Label>
+                <Input
+                  id={`surcharge-${method}`}
+                  type="number"
+                  step="0.01"
+                  min="0"
+                  value={surcharges[method]}
+                  onChange={(e) => setSurcharges({ ...surcharges, [method]: e.target.value })}
+                  className="bg-background/50"
+                />
+              </div>
+            ))}
+          </div>
+          <Button variant="outline" onClick={handleSaveSurcharges} disabled={saving}>
+            Salvar Taxas
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
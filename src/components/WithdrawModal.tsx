@@ -1,4 +1,4 @@
-import { useState } from "react";
+import { useCallback, useEffect, useState } from "react";
 import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
@@ -6,6 +6,8 @@ import { Label } from "@/components/ui/label";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { supabase } from "@/integrations/supabase/client";
 import { useToast } from "@/hooks/use-toast";
+import { Tables } from "@/integrations/supabase/types";
+import { isPixKeyAvailable, pixKeyTypeLabels } from "@/lib/pix";
 import { Loader2 } from "lucide-react";
 
 interface WithdrawModalProps {
@@ -13,17 +15,46 @@ interface WithdrawModalProps {
   onOpenChange: (open: boolean) => void;
   onSuccess: () => void;
   maxAmount: number;
+  sellerId: string;
 }
 
-type PixKeyType = "CPF" | "CNPJ" | "EMAIL" | "PHONE" | "EVP";
+type PixKey = Tables<"seller_pix_keys">;
+type WithdrawalRules = Pick<
+  Tables<"platform_settings">,
+  "withdrawal_daily_limit" | "withdrawal_monthly_limit" | "withdrawal_cooldown_minutes"
+>;
 
-export function WithdrawModal({ open, onOpenChange, onSuccess, maxAmount }: WithdrawModalProps) {
+export function WithdrawModal({ open, onOpenChange, onSuccess, maxAmount, sellerId }: WithdrawModalProps) {
   const [amount, setAmount] = useState("");
-  const [pixKey, setPixKey] = useState("");
-  const [pixKeyType, setPixKeyType] = useState<PixKeyType>("CPF");
+  const [pixKeys, setPixKeys] = useState<PixKey[]>([]);
+  const [pixKeyId, setPixKeyId] = useState("");
+  const [rules, setRules] = useState<WithdrawalRules | null>(null);
   const [loading, setLoading] = useState(false);
   const { toast } = useToast();
 
+  const fetchPixKeys = useCallback(async () => {
+    const [keysRes, settingsRes] = await Promise.all([
+      supabase
+        .from("seller_pix_keys")
+        .select("*")
+        .eq("seller_id", sellerId)
+        .order("created_at", { ascending: true }),
+      supabase
+        .from("platform_settings")
+        .select("withdrawal_daily_limit, withdrawal_monthly_limit, withdrawal_cooldown_minutes")
+        .single(),
+    ]);
+
+    const keys = keysRes.data || [];
+    setPixKeys(keys);
+    setPixKeyId((current) => current || keys.find(isPixKeyAvailable)?.id || "");
+    setRules(settingsRes.data);
+  }, [sellerId]);
+
+  useEffect(() => {
+    if (open) fetchPixKeys();
+  }, [open, fetchPixKeys]);
+
   const handleWithdraw = async () => {
     const value = parseFloat(amount);
     if (isNaN(value) || value < 10) {
@@ -38,16 +69,16 @@ export function WithdrawModal({ open, onOpenChange, onSuccess, maxAmount }: With
     if (value > maxAmount) {
       toast({
         title: "Saldo insuficiente",
-        description: `Seu saldo disponível é R$ ${maxAmount.toFixed(2)}`,
+        description: `Seu saldo liberado para saque é R$ ${maxAmount.toFixed(2)}; vendas recentes ainda estão a liberar`,
         variant: "destructive",
       });
       return;
     }
 
-    if (!pixKey.trim()) {
+    if (!pixKeyId) {
       toast({
         title: "Chave PIX obrigatória",
-        description: "Informe sua chave PIX para receber o saque",
+        description: "Selecione uma chave PIX cadastrada para receber o saque",
         variant: "destructive",
       });
       return;
@@ -57,7 +88,7 @@ export function WithdrawModal({ open, onOpenChange, onSuccess, maxAmount }: With
       setLoading(true);
       
       const response = await supabase.functions.invoke("asaas-create-withdrawal", {
-        body: { amount: value, pixKey, pixKeyType },
+        body: { amount: value, pixKeyId },
       });
 
       if (response.error) {
@@ -66,7 +97,7 @@ export function WithdrawModal({ open, onOpenChange, onSuccess, maxAmount }: With
 
       toast({
         title: "Saque solicitado!",
-        description: "Sua solicitação de saque foi criada com sucesso",
+        description: "Sua solicitação foi enviada e será analisada pela equipe",
       });
       
       onSuccess();
@@ -84,8 +115,7 @@ export function WithdrawModal({ open, onOpenChange, onSuccess, maxAmount }: With
 
   const handleClose = () => {
     setAmount("");
-    setPixKey("");
-    setPixKeyType("CPF");
+    setPixKeyId("");
     onOpenChange(false);
   };
 
@@ -114,37 +144,28 @@ export function WithdrawModal({ open, onOpenChange, onSuccess, maxAmount }: With
             />
           </div>
 
-          <div className="space-y-2">
-            <Label htmlFor="pix-key-type">Tipo de Chave PIX</Label>
-            <Select value={pixKeyType} onValueChange={(v) => setPixKeyType(v as PixKeyType)}>
-              <SelectTrigger>
-                <SelectValue />
-              </SelectTrigger>
-              <SelectContent>
-                <SelectItem value="CPF">CPF</SelectItem>
-                <SelectItem value="CNPJ">CNPJ</SelectItem>
-                <SelectItem value="EMAIL">E-mail</SelectItem>
-                <SelectItem value="PHONE">Telefone</SelectItem>
-                <SelectItem value="EVP">Chave Aleatória</SelectItem>
-              </SelectContent>
-            </Select>
-          </div>
-
           <div className="space-y-2">
             <Label htmlFor="pix-key">Chave PIX</Label>
-            <Input
-              id="pix-key"
-              type="text"
-              placeholder={
-                pixKeyType === "CPF" ? "000.000.000-00" :
-                pixKeyType === "CNPJ" ? "00.000.000/0000-00" :
-                pixKeyType === "EMAIL" ? "seu@email.com" :
-                pixKeyType === "PHONE" ? "+5511999999999" :
-                "Chave aleatória"
-              }
-              value={pixKey}
-              onChange={(e) => setPixKey(e.target.value)}
-            />
+            {pixKeys.length === 0 ? (
+              <p className="text-sm text-muted-foreground">
+                Cadastre uma chave PIX na aba Saques antes de solicitar um saque.
+              </p>
+            ) : (
+              <Select value={pixKeyId} onValueChange={setPixKeyId}>
+                <SelectTrigger id="pix-key">
+                  <SelectValue placeholder="Selecione uma chave" />
+                </SelectTrigger>
+                <SelectContent>
+                  {pixKeys.map((key) => (
+                    <SelectItem key={key.id} value={key.id} disabled={!isPixKeyAvailable(key)}>
+                      {pixKeyTypeLabels[key.key_type]}: {key.key_value}
+                      {!isPixKeyAvailable(key) &&
+                        ` (carência até ${new Date(key.available_at).toLocaleString("pt-BR")})`}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            )}
           </div>
 
           <Button
@@ -176,6 +197,17 @@ export function WithdrawModal({ open, onOpenChange, onSuccess, maxAmount }: With
           <p className="text-xs text-center text-muted-foreground">
             O saque será processado em até 24 horas úteis
           </p>
+
+          {rules && (
+            <p className="text-xs text-center text-muted-foreground">
+              Limite diário:{" "}
+              {rules.withdrawal_daily_limit ? `R$ ${Number(rules.withdrawal_daily_limit).toFixed(2)}` : "sem limite"}
+              {" · "}Limite mensal:{" "}
+              {rules.withdrawal_monthly_limit ? `R$ ${Number(rules.withdrawal_monthly_limit).toFixed(2)}` : "sem limite"}
+              {rules.withdrawal_cooldown_minutes > 0 &&
+                ` · Intervalo entre saques: ${rules.withdrawal_cooldown_minutes} min`}
+            </p>
+          )}
         </div>
       </DialogContent>
     </Dialog>
@@ -0,0 +1,259 @@
+import { useState } from "react";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { supabase } from "@/integrations/supabase/client";
+import { useToast } from "@/hooks/use-toast";
+import { Database, Tables } from "@/integrations/supabase/types";
+import { Banknote, CheckCircle, Loader2, RotateCcw, XCircle } from "lucide-react";
+
+type WithdrawalStatus = Database["public"]["Enums"]["withdrawal_status"];
+export type QueuedWithdrawal = Tables<"withdrawals"> & {
+  sellers: { profiles: { username: string } | null } | null;
+};
+
+interface PixDetails {
+  pixKey?: string;
+  pixKeyType?: string;
+  originalAmount?: number;
+  adminFee?: number;
+}
+
+const statusLabels: Record<WithdrawalStatus, string> = {
+  pending: "Pendente",
+  approved: "Aprovado",
+  completed: "Concluído",
+  rejected: "Recusado",
+};
+
+const ALL_STATUSES = "all";
+
+interface WithdrawalsQueueProps {
+  withdrawals: QueuedWithdrawal[];
+  onChanged: () => void;
+}
+
+export function WithdrawalsQueue({ withdrawals, onChanged }: WithdrawalsQueueProps) {
+  const [statusFilter, setStatusFilter] = useState<string>("pending");
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const [rejecting, setRejecting] = useState<QueuedWithdrawal | null>(null);
+  const [reason, setReason] = useState("");
+  const { toast } = useToast();
+
+  const visible = withdrawals.filter((w) => statusFilter === ALL_STATUSES || w.status === statusFilter);
+
+  const review = async (withdrawal: QueuedWithdrawal, action: "approve" | "reject" | "retry", rejectReason?: string) => {
+    try {
+      setBusyId(withdrawal.id);
+
+      const response = await supabase.functions.invoke("admin-withdrawals", {
+        body: { action, withdrawalId: withdrawal.id, reason: rejectReason },
+      });
+
+      if (response.error) {
+        throw new Error(response.error.message || "Erro ao processar saque");
+      }
+
+      if (response.data?.transferError) {
+        toast({
+          title: "Falha na transferência",
+          description: response.data.transferError,
+          variant: "destructive",
+        });
+      } else {
+        toast({
+          title: action === "reject" ? "Saque recusado" : "Transferência enviada",
+          description: action === "reject" ? "O valor integral foi devolvido ao vendedor" : undefined,
+        });
+      }
+
+      onChanged();
+    } catch (error: unknown) {
+      toast({
+        title: "Erro",
+        description: error instanceof Error ? error.message : "Erro ao processar saque",
+        variant: "destructive",
+      });
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const handleReject = async () => {
+    if (!rejecting) return;
+
+    if (!reason.trim()) {
+      toast({
+        title: "Informe o motivo da recusa",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    await review(rejecting, "reject", reason.trim());
+    setRejecting(null);
+    setReason("");
+  };
+
+  return (
+    <Card className="bg-card/50">
+      <CardHeader className="flex flex-row items-start justify-between">
+        <div>
+          <CardTitle className="flex items-center gap-2">
+            <Banknote className="w-5 h-5" />
+            Saques
+          </CardTitle>
+          <CardDescription>
+            Aprovar envia a transferência PIX; recusar devolve o valor integral, incluindo a taxa
+          </CardDescription>
+        </div>
+        <Select value={statusFilter} onValueChange={setStatusFilter}>
+          <SelectTrigger className="w-40">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value={ALL_STATUSES}>Todos</SelectItem>
+            {Object.entries(statusLabels).map(([value, label]) => (
+              <SelectItem key={value} value={value}>
+                {label}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </CardHeader>
+      <CardContent>
+        {visible.length === 0 ? (
+          <p className="py-12 text-center text-muted-foreground">Nenhum saque encontrado</p>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Vendedor</TableHead>
+                <TableHead>Valor</TableHead>
+                <TableHead>Chave PIX</TableHead>
+                <TableHead>Status</TableHead>
+                <TableHead>Data</TableHead>
+                <TableHead>Ações</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {visible.map((withdrawal) => {
+                const details = (withdrawal.payment_details ?? {}) as PixDetails;
+                const transferFailed =
+                  withdrawal.status === "approved" && !withdrawal.transfer_id && !!withdrawal.transfer_error;
+                const busy = busyId === withdrawal.id;
+
+                return (
+                  <TableRow key={withdrawal.id}>
+                    <TableCell className="font-medium">
+                      {withdrawal.sellers?.profiles?.username || "Vendedor"}
+                    </TableCell>
+                    <TableCell>
+                      <p className="font-semibold">R$ {Number(withdrawal.amount).toFixed(2)}</p>
+                      {details.adminFee !== undefined && (
+                        <p className="text-xs text-muted-foreground">
+                          Taxa: R$ {Number(details.adminFee).toFixed(2)}
+                        </p>
+                      )}
+                    </TableCell>
+                    <TableCell>
+                      <p className="font-mono text-xs break-all">{details.pixKey || "-"}</p>
+                      <p className="text-xs text-muted-foreground">{details.pixKeyType}</p>
+                    </TableCell>
+                    <TableCell>
+                      <Badge variant={withdrawal.status === "rejected" || transferFailed ? "destructive" : "secondary"}>
+                        {transferFailed ? "Falha na transferência" : statusLabels[withdrawal.status]}
+                      </Badge>
+                      {transferFailed && (
+                        <p className="text-xs text-destructive mt-1">{withdrawal.transfer_error}</p>
+                      )}
+                      {withdrawal.status === "rejected" && withdrawal.rejection_reason && (
+                        <p className="text-xs text-muted-foreground mt-1">{withdrawal.rejection_reason}</p>
+                      )}
+                    </TableCell>
+                    <TableCell>{new Date(withdrawal.created_at).toLocaleString("pt-BR")}</TableCell>
+                    <TableCell>
+                      <div className="flex gap-2">
+                        {withdrawal.status === "pending" && (
+                          <Button size="sm" onClick={() => review(withdrawal, "approve")} disabled={busy} className="gap-1">
+                            {busy ? <Loader2 className="w-4 h-4 animate-spin" /> : <CheckCircle className="w-4 h-4" />}
+                            Aprovar
+                          </Button>
+                        )}
+                        {transferFailed && (
+                          <Button size="sm" onClick={() => review(withdrawal, "retry")} disabled={busy} className="gap-1">
+                            {busy ? <Loader2 className="w-4 h-4 animate-spin" /> : <RotateCcw className="w-4 h-4" />}
+                            Tentar novamente
+                          </Button>
+                        )}
+                        {(withdrawal.status === "pending" || transferFailed) && (
+                          <Button
+                            size="sm"
+                            variant="outline"
+                            onClick={() => setRejecting(withdrawal)}
+                            disabled={busy}
+                            className="gap-1"
+                          >
+                            <XCircle className="w-4 h-4" />
+                            Recusar
+                          </Button>
+                        )}
+                      </div>
+                    </TableCell>
+                  </TableRow>
+                );
+              })}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+
+      <Dialog open={!!rejecting} onOpenChange={(open) => !open && setRejecting(null)}>
+        <DialogContent className="sm:max-w-md">
+          <DialogHeader>
+            <DialogTitle>Recusar Saque</DialogTitle>
+            <DialogDescription>
+              O vendedor recebe de volta o valor solicitado, incluindo a taxa de saque
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-2">
+            <Label htmlFor="reject-reason">Motivo</Label>
+            <Textarea
+              id="reject-reason"
+              value={reason}
+              onChange={(e) => setReason(e.target.value)}
+              placeholder="Ex.: chave PIX não pertence ao titular da conta"
+            />
+          </div>
+          <Button
+            variant="destructive"
+            onClick={handleReject}
+            disabled={!!rejecting && busyId === rejecting.id}
+            className="w-full"
+          >
+            {rejecting && busyId === rejecting.id && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+            Recusar e Devolver Valor
+          </Button>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
@@ -53,56 +53,840 @@ export type Database = {
           },
         ]
       }
+      coupon_redemptions: {
+        Row: {
+          coupon_id: string
+          created_at: string
+          discount_amount: number
+          id: string
+          order_id: string
+          user_id: string
+        }
+        Insert: {
+          coupon_id: string
+          created_at?: string
+          discount_amount: number
+          id?: string
+          order_id: string
+          user_id: string
+        }
+        Update: {
+          coupon_id?: string
+          created_at?: string
+          discount_amount?: number
+          id?: string
+          order_id?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "coupon_redemptions_coupon_id_fkey"
+            columns: ["coupon_id"]
+            isOneToOne: false
+            referencedRelation: "coupons"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "coupon_redemptions_order_id_fkey"
+            columns: ["order_id"]
+            isOneToOne: true
+            referencedRelation: "orders"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "coupon_redemptions_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      coupons: {
+        Row: {
+          code: string
+          created_at: string
+          created_by: string | null
+          discount_type: Database["public"]["Enums"]["coupon_discount_type"]
+          discount_value: number
+          expires_at: string | null
+          id: string
+          is_active: boolean
+          max_uses: number | null
+          max_uses_per_user: number | null
+          seller_id: string | null
+          uses_count: number
+        }
+        Insert: {
+          code: string
+          created_at?: string
+          created_by?: string | null
+          discount_type: Database["public"]["Enums"]["coupon_discount_type"]
+          discount_value: number
+          expires_at?: string | null
+          id?: string
+          is_active?: boolean
+          max_uses?: number | null
+          max_uses_per_user?: number | null
+          seller_id?: string | null
+          uses_count?: number
+        }
+        Update: {
+          code?: string
+          created_at?: string
+          created_by?: string | null
+          discount_type?: Database["public"]["Enums"]["coupon_discount_type"]
+          discount_value?: number
+          expires_at?: string | null
+          id?: string
+          is_active?: boolean
+          max_uses?: number | null
+          max_uses_per_user?: number | null
+          seller_id?: string | null
+          uses_count?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "coupons_created_by_fkey"
+            columns: ["created_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "coupons_seller_id_fkey"
+            columns: ["seller_id"]
+            isOneToOne: false
+            referencedRelation: "sellers"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      dispute_messages: {
+        Row: {
+          created_at: string
+          dispute_id: string
+          evidence_urls: string[]
+          id: string
+          is_system: boolean
+          message: string
+          sender_id: string
+        }
+        Insert: {
+          created_at?: string
+          dispute_id: string
+          evidence_urls?: string[]
+          id?: string
+          is_system?: boolean
+          message: string
+          sender_id: string
+        }
+        Update: {
+          created_at?: string
+          dispute_id?: string
+          evidence_urls?: string[]
+          id?: string
+          is_system?: boolean
+          message?: string
+          sender_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "dispute_messages_dispute_id_fkey"
+            columns: ["dispute_id"]
+            isOneToOne: false
+            referencedRelation: "disputes"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "dispute_messages_sender_id_fkey"
+            columns: ["sender_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      disputes: {
+        Row: {
+          created_at: string
+          id: string
+          opened_by: string
+          order_id: string
+          reason: string
+          refund_amount: number | null
+          resolution: Database["public"]["Enums"]["dispute_resolution"] | null
+          resolution_notes: string | null
+          resolved_at: string | null
+          resolved_by: string | null
+          status: Database["public"]["Enums"]["dispute_status"]
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          opened_by: string
+          order_id: string
+          reason: string
+          refund_amount?: number | null
+          resolution?: Database["public"]["Enums"]["dispute_resolution"] | null
+          resolution_notes?: string | null
+          resolved_at?: string | null
+          resolved_by?: string | null
+          status?: Database["public"]["Enums"]["dispute_status"]
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          opened_by?: string
+          order_id?: string
+          reason?: string
+          refund_amount?: number | null
+          resolution?: Database["public"]["Enums"]["dispute_resolution"] | null
+          resolution_notes?: string | null
+          resolved_at?: string | null
+          resolved_by?: string | null
+          status?: Database["public"]["Enums"]["dispute_status"]
+        }
+        Relationships: [
+          {
+            foreignKeyName: "disputes_opened_by_fkey"
+            columns: ["opened_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "disputes_order_id_fkey"
+            columns: ["order_id"]
+            isOneToOne: true
+            referencedRelation: "orders"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "disputes_resolved_by_fkey"
+            columns: ["resolved_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      escrows: {
+        Row: {
+          amount: number
+          buyer_id: string
+          commission_amount: number | null
+          commission_rate: number
+          created_at: string
+          id: string
+          order_id: string
+          platform_funded: number
+          refunded_amount: number
+          seller_id: string
+          settled_at: string | null
+          status: Database["public"]["Enums"]["escrow_status"]
+        }
+        Insert: {
+          amount: number
+          buyer_id: string
+          commission_amount?: number | null
+          commission_rate?: number
+          created_at?: string
+          id?: string
+          order_id: string
+          platform_funded?: number
+          refunded_amount?: number
+          seller_id: string
+          settled_at?: string | null
+          status?: Database["public"]["Enums"]["escrow_status"]
+        }
+        Update: {
+          amount?: number
+          buyer_id?: string
+          commission_amount?: number | null
+          commission_rate?: number
+          created_at?: string
+          id?: string
+          order_id?: string
+          platform_funded?: number
+          refunded_amount?: number
+          seller_id?: string
+          settled_at?: string | null
+          status?: Database["public"]["Enums"]["escrow_status"]
+        }
+        Relationships: [
+          {
+            foreignKeyName: "escrows_buyer_id_fkey"
+            columns: ["buyer_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "escrows_order_id_fkey"
+            columns: ["order_id"]
+            isOneToOne: true
+            referencedRelation: "orders"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "escrows_seller_id_fkey"
+            columns: ["seller_id"]
+            isOneToOne: false
+            referencedRelation: "sellers"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      ledger_accounts: {
+        Row: {
+          created_at: string
+          id: string
+          kind: Database["public"]["Enums"]["ledger_account_kind"]
+          name: string
+          user_id: string | null
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          kind: Database["public"]["Enums"]["ledger_account_kind"]
+          name: string
+          user_id?: string | null
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          kind?: Database["public"]["Enums"]["ledger_account_kind"]
+          name?: string
+          user_id?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "ledger_accounts_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      ledger_entries: {
+        Row: {
+          account_id: string
+          amount: number
+          created_at: string
+          id: string
+          journal_id: string
+        }
+        Insert: {
+          account_id: string
+          amount: number
+          created_at?: string
+          id?: string
+          journal_id: string
+        }
+        Update: {
+          account_id?: string
+          amount?: number
+          created_at?: string
+          id?: string
+          journal_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "ledger_entries_account_id_fkey"
+            columns: ["account_id"]
+            isOneToOne: false
+            referencedRelation: "ledger_accounts"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "ledger_entries_journal_id_fkey"
+            columns: ["journal_id"]
+            isOneToOne: false
+            referencedRelation: "ledger_journals"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      ledger_journals: {
+        Row: {
+          created_at: string
+          description: string
+          id: string
+          order_id: string | null
+          withdrawal_id: string | null
+        }
+        Insert: {
+          created_at?: string
+          description: string
+          id?: string
+          order_id?: string | null
+          withdrawal_id?: string | null
+        }
+        Update: {
+          created_at?: string
+          description?: string
+          id?: string
+          order_id?: string | null
+          withdrawal_id?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "ledger_journals_order_id_fkey"
+            columns: ["order_id"]
+            isOneToOne: false
+            referencedRelation: "orders"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "ledger_journals_withdrawal_id_fkey"
+            columns: ["withdrawal_id"]
+            isOneToOne: false
+            referencedRelation: "withdrawals"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      order_events: {
+        Row: {
+          actor_id: string | null
+          created_at: string
+          from_status: Database["public"]["Enums"]["order_status"] | null
+          id: string
+          order_id: string
+          to_status: Database["public"]["Enums"]["order_status"]
+        }
+        Insert: {
+          actor_id?: string | null
+          created_at?: string
+          from_status?: Database["public"]["Enums"]["order_status"] | null
+          id?: string
+          order_id: string
+          to_status: Database["public"]["Enums"]["order_status"]
+        }
+        Update: {
+          actor_id?: string | null
+          created_at?: string
+          from_status?: Database["public"]["Enums"]["order_status"] | null
+          id?: string
+          order_id?: string
+          to_status?: Database["public"]["Enums"]["order_status"]
+        }
+        Relationships: [
+          {
+            foreignKeyName: "order_events_actor_id_fkey"
+            columns: ["actor_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "order_events_order_id_fkey"
+            columns: ["order_id"]
+            isOneToOne: false
+            referencedRelation: "orders"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       orders: {
         Row: {
-          amount: number
-          buyer_id: string
-          completed_at: string | null
-          created_at: string
-          delivery_method: Database["public"]["Enums"]["delivery_method"]
-          id: string
-          proof_url: string | null
+          amount: number
+          buyer_id: string
+          buyer_roblox_user_id: number | null
+          buyer_roblox_username: string | null
+          completed_at: string | null
+          confirm_deadline: string | null
+          coupon_id: string | null
+          created_at: string
+          delivered_at: string | null
+          delivery_details: Json
+          delivery_method: Database["public"]["Enums"]["delivery_method"]
+          discount_amount: number
+          id: string
+          proof_url: string | null
+          seller_id: string
+          status: Database["public"]["Enums"]["order_status"]
+          total_price: number
+          updated_at: string
+        }
+        Insert: {
+          amount: number
+          buyer_id: string
+          buyer_roblox_user_id?: number | null
+          buyer_roblox_username?: string | null
+          completed_at?: string | null
+          confirm_deadline?: string | null
+          coupon_id?: string | null
+          created_at?: string
+          delivered_at?: string | null
+          delivery_details?: Json
+          delivery_method: Database["public"]["Enums"]["delivery_method"]
+          discount_amount?: number
+          id?: string
+          proof_url?: string | null
+          seller_id: string
+          status?: Database["public"]["Enums"]["order_status"]
+          total_price: number
+          updated_at?: string
+        }
+        Update: {
+          amount?: number
+          buyer_id?: string
+          buyer_roblox_user_id?: number | null
+          buyer_roblox_username?: string | null
+          completed_at?: string | null
+          confirm_deadline?: string | null
+          coupon_id?: string | null
+          created_at?: string
+          delivered_at?: string | null
+          delivery_details?: Json
+          delivery_method?: Database["public"]["Enums"]["delivery_method"]
+          discount_amount?: number
+          id?: string
+          proof_url?: string | null
+          seller_id?: string
+          status?: Database["public"]["Enums"]["order_status"]
+          total_price?: number
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "orders_buyer_id_fkey"
+            columns: ["buyer_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "orders_coupon_id_fkey"
+            columns: ["coupon_id"]
+            isOneToOne: false
+            referencedRelation: "coupons"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "orders_seller_id_fkey"
+            columns: ["seller_id"]
+            isOneToOne: false
+            referencedRelation: "sellers"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      payments: {
+        Row: {
+          amount: number
+          billing_type: string | null
+          created_at: string
+          id: string
+          processed_at: string | null
+          provider: string
+          provider_payment_id: string
+          status: string
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          amount: number
+          billing_type?: string | null
+          created_at?: string
+          id?: string
+          processed_at?: string | null
+          provider?: string
+          provider_payment_id: string
+          status?: string
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          amount?: number
+          billing_type?: string | null
+          created_at?: string
+          id?: string
+          processed_at?: string | null
+          provider?: string
+          provider_payment_id?: string
+          status?: string
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "payments_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      pending_funds: {
+        Row: {
+          amount: number
+          available_at: string
+          created_at: string
+          id: string
+          order_id: string | null
+          user_id: string
+        }
+        Insert: {
+          amount: number
+          available_at: string
+          created_at?: string
+          id?: string
+          order_id?: string | null
+          user_id: string
+        }
+        Update: {
+          amount?: number
+          available_at?: string
+          created_at?: string
+          id?: string
+          order_id?: string | null
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "pending_funds_order_id_fkey"
+            columns: ["order_id"]
+            isOneToOne: false
+            referencedRelation: "orders"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "pending_funds_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      platform_settings: {
+        Row: {
+          auto_confirm_hours: number
+          funds_hold_days: number
+          id: boolean
+          pix_key_hold_hours: number
+          sales_commission_rate: number
+          updated_at: string
+          withdrawal_cooldown_minutes: number
+          withdrawal_daily_limit: number | null
+          withdrawal_monthly_limit: number | null
+        }
+        Insert: {
+          auto_confirm_hours?: number
+          funds_hold_days?: number
+          id?: boolean
+          pix_key_hold_hours?: number
+          sales_commission_rate?: number
+          updated_at?: string
+          withdrawal_cooldown_minutes?: number
+          withdrawal_daily_limit?: number | null
+          withdrawal_monthly_limit?: number | null
+        }
+        Update: {
+          auto_confirm_hours?: number
+          funds_hold_days?: number
+          id?: boolean
+          pix_key_hold_hours?: number
+          sales_commission_rate?: number
+          updated_at?: string
+          withdrawal_cooldown_minutes?: number
+          withdrawal_daily_limit?: number | null
+          withdrawal_monthly_limit?: number | null
+        }
+        Relationships: []
+      }
+      profiles: {
+        Row: {
+          avatar_url: string | null
+          balance: number
+          created_at: string
+          email: string
+          id: string
+          roblox_user_id: number | null
+          roblox_username: string | null
+          roblox_verified_at: string | null
+          updated_at: string
+          username: string
+          cpf?: string; // Adicionando o campo CPF
+        }
+        Insert: {
+          avatar_url?: string | null
+          balance?: number
+          created_at?: string
+          email: string
+          id: string
+          roblox_user_id?: number | null
+          roblox_username?: string | null
+          roblox_verified_at?: string | null
+          updated_at?: string
+          username: string
+          cpf?: string; // Adicionando o campo CPF
+        }
+        Update: {
+          avatar_url?: string | null
+          balance?: number
+          created_at?: string
+          email?: string
+          id?: string
+          roblox_user_id?: number | null
+          roblox_username?: string | null
+          roblox_verified_at?: string | null
+          updated_at?: string
+          username?: string
+          cpf?: string; // Adicionando o campo CPF
+        }
+        Relationships: []
+      }
+      ratings: {
+        Row: {
+          buyer_id: string
+          comment: string | null
+          created_at: string
+          id: string
+          order_id: string
+          rating: number
+          seller_id: string
+        }
+        Insert: {
+          buyer_id: string
+          comment?: string | null
+          created_at?: string
+          id?: string
+          order_id: string
+          rating: number
+          seller_id: string
+        }
+        Update: {
+          buyer_id?: string
+          comment?: string | null
+          created_at?: string
+          id?: string
+          order_id?: string
+          rating?: number
+          seller_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "ratings_buyer_id_fkey"
+            columns: ["buyer_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "ratings_order_id_fkey"
+            columns: ["order_id"]
+            isOneToOne: true
+            referencedRelation: "orders"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "ratings_seller_id_fkey"
+            columns: ["seller_id"]
+            isOneToOne: false
+            referencedRelation: "sellers"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      roblox_verifications: {
+        Row: {
+          code: string
+          created_at: string
+          expires_at: string
+          roblox_user_id: number
+          roblox_username: string
+          user_id: string
+        }
+        Insert: {
+          code: string
+          created_at?: string
+          expires_at: string
+          roblox_user_id: number
+          roblox_username: string
+          user_id: string
+        }
+        Update: {
+          code?: string
+          created_at?: string
+          expires_at?: string
+          roblox_user_id?: number
+          roblox_username?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "roblox_verifications_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: true
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      seller_commissions: {
+        Row: {
+          commission_rate: number
           seller_id: string
-          status: Database["public"]["Enums"]["order_status"]
-          total_price: number
           updated_at: string
+          updated_by: string | null
         }
         Insert: {
-          amount: number
-          buyer_id: string
-          completed_at?: string | null
-          created_at?: string
-          delivery_method: Database["public"]["Enums"]["delivery_method"]
-          id?: string
-          proof_url?: string | null
+          commission_rate: number
           seller_id: string
-          status?: Database["public"]["Enums"]["order_status"]
-          total_price: number
           updated_at?: string
+          updated_by?: string | null
         }
         Update: {
-          amount?: number
-          buyer_id?: string
-          completed_at?: string | null
-          created_at?: string
-          delivery_method?: Database["public"]["Enums"]["delivery_method"]
-          id?: string
-          proof_url?: string | null
+          commission_rate?: number
           seller_id?: string
-          status?: Database["public"]["Enums"]["order_status"]
-          total_price?: number
           updated_at?: string
+          updated_by?: string | null
         }
         Relationships: [
           {
-            foreignKeyName: "orders_buyer_id_fkey"
-            columns: ["buyer_id"]
+            foreignKeyName: "seller_commissions_seller_id_fkey"
+            columns: ["seller_id"]
+            isOneToOne: true
+            referencedRelation: "sellers"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "seller_commissions_updated_by_fkey"
+            columns: ["updated_by"]
             isOneToOne: false
             referencedRelation: "profiles"
             referencedColumns: ["id"]
           },
+        ]
+      }
+      seller_delivery_surcharges: {
+        Row: {
+          created_at: string
+          delivery_method: Database["public"]["Enums"]["delivery_method"]
+          seller_id: string
+          surcharge_per_1k: number
+        }
+        Insert: {
+          created_at?: string
+          delivery_method: Database["public"]["Enums"]["delivery_method"]
+          seller_id: string
+          surcharge_per_1k: number
+        }
+        Update: {
+          created_at?: string
+          delivery_method?: Database["public"]["Enums"]["delivery_method"]
+          seller_id?: string
+          surcharge_per_1k?: number
+        }
+        Relationships: [
           {
-            foreignKeyName: "orders_seller_id_fkey"
+            foreignKeyName: "seller_delivery_surcharges_seller_id_fkey"
             columns: ["seller_id"]
             isOneToOne: false
             referencedRelation: "sellers"
@@ -110,84 +894,104 @@ export type Database = {
           },
         ]
       }
-      profiles: {
+      seller_groups: {
         Row: {
-          avatar_url: string | null
-          balance: number
           created_at: string
-          email: string
           id: string
-          updated_at: string
-          username: string
-          cpf?: string; // Adicionando o campo CPF
+          is_active: boolean
+          name: string
+          roblox_group_id: number
+          seller_id: string
         }
         Insert: {
-          avatar_url?: string | null
-          balance?: number
           created_at?: string
-          email: string
-          id: string
-          updated_at?: string
-          username: string
-          cpf?: string; // Adicionando o campo CPF
+          id?: string
+          is_active?: boolean
+          name: string
+          roblox_group_id: number
+          seller_id: string
         }
         Update: {
-          avatar_url?: string | null
-          balance?: number
           created_at?: string
-          email?: string
           id?: string
-          updated_at?: string
-          username?: string
-          cpf?: string; // Adicionando o campo CPF
+          is_active?: boolean
+          name?: string
+          roblox_group_id?: number
+          seller_id?: string
         }
-        Relationships: []
+        Relationships: [
+          {
+            foreignKeyName: "seller_groups_seller_id_fkey"
+            columns: ["seller_id"]
+            isOneToOne: false
+            referencedRelation: "sellers"
+            referencedColumns: ["id"]
+          },
+        ]
       }
-      ratings: {
+      seller_pix_keys: {
         Row: {
-          buyer_id: string
-          comment: string | null
+          available_at: string
           created_at: string
           id: string
-          order_id: string
-          rating: number
+          key_type: Database["public"]["Enums"]["pix_key_type"]
+          key_value: string
           seller_id: string
+          validated_at: string
         }
         Insert: {
-          buyer_id: string
-          comment?: string | null
+          available_at: string
           created_at?: string
           id?: string
-          order_id: string
-          rating: number
+          key_type: Database["public"]["Enums"]["pix_key_type"]
+          key_value: string
           seller_id: string
+          validated_at: string
         }
         Update: {
-          buyer_id?: string
-          comment?: string | null
+          available_at?: string
           created_at?: string
           id?: string
-          order_id?: string
-          rating?: number
+          key_type?: Database["public"]["Enums"]["pix_key_type"]
+          key_value?: string
           seller_id?: string
+          validated_at?: string
         }
         Relationships: [
           {
-            foreignKeyName: "ratings_buyer_id_fkey"
-            columns: ["buyer_id"]
+            foreignKeyName: "seller_pix_keys_seller_id_fkey"
+            columns: ["seller_id"]
             isOneToOne: false
-            referencedRelation: "profiles"
-            referencedColumns: ["id"]
-          },
-          {
-            foreignKeyName: "ratings_order_id_fkey"
-            columns: ["order_id"]
-            isOneToOne: true
-            referencedRelation: "orders"
+            referencedRelation: "sellers"
             referencedColumns: ["id"]
           },
+        ]
+      }
+      seller_price_tiers: {
+        Row: {
+          created_at: string
+          id: string
+          min_amount: number
+          price_per_1k: number
+          seller_id: string
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          min_amount: number
+          price_per_1k: number
+          seller_id: string
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          min_amount?: number
+          price_per_1k?: number
+          seller_id?: string
+        }
+        Relationships: [
           {
-            foreignKeyName: "ratings_seller_id_fkey"
+            foreignKeyName: "seller_price_tiers_seller_id_fkey"
             columns: ["seller_id"]
             isOneToOne: false
             referencedRelation: "sellers"
@@ -204,6 +1008,8 @@ export type Database = {
           max_amount: number
           min_amount: number
           price_per_1k: number
+          reserved_stock: number
+          stock: number
           total_ratings: number
           total_sales: number
           updated_at: string
@@ -217,6 +1023,8 @@ export type Database = {
           max_amount: number
           min_amount: number
           price_per_1k: number
+          reserved_stock?: number
+          stock?: number
           total_ratings?: number
           total_sales?: number
           updated_at?: string
@@ -230,6 +1038,8 @@ export type Database = {
           max_amount?: number
           min_amount?: number
           price_per_1k?: number
+          reserved_stock?: number
+          stock?: number
           total_ratings?: number
           total_sales?: number
           updated_at?: string
@@ -254,6 +1064,7 @@ export type Database = {
           order_id: string | null
           type: string
           user_id: string
+          withdrawal_id: string | null
         }
         Insert: {
           amount: number
@@ -263,6 +1074,7 @@ export type Database = {
           order_id?: string | null
           type: string
           user_id: string
+          withdrawal_id?: string | null
         }
         Update: {
           amount?: number
@@ -272,6 +1084,7 @@ export type Database = {
           order_id?: string | null
           type?: string
           user_id?: string
+          withdrawal_id?: string | null
         }
         Relationships: [
           {
@@ -288,6 +1101,13 @@ export type Database = {
             referencedRelation: "profiles"
             referencedColumns: ["id"]
           },
+          {
+            foreignKeyName: "transactions_withdrawal_id_fkey"
+            columns: ["withdrawal_id"]
+            isOneToOne: false
+            referencedRelation: "withdrawals"
+            referencedColumns: ["id"]
+          },
         ]
       }
       user_roles: {
@@ -319,6 +1139,36 @@ export type Database = {
           },
         ]
       }
+      webhook_audit_log: {
+        Row: {
+          created_at: string
+          event: string | null
+          id: string
+          payload: Json | null
+          provider: string
+          reason: string
+          source_ip: string | null
+        }
+        Insert: {
+          created_at?: string
+          event?: string | null
+          id?: string
+          payload?: Json | null
+          provider: string
+          reason: string
+          source_ip?: string | null
+        }
+        Update: {
+          created_at?: string
+          event?: string | null
+          id?: string
+          payload?: Json | null
+          provider?: string
+          reason?: string
+          source_ip?: string | null
+        }
+        Relationships: []
+      }
       withdrawals: {
         Row: {
           amount: number
@@ -326,9 +1176,16 @@ export type Database = {
           id: string
           payment_details: Json | null
           payment_method: string | null
+          payout_requested_at: string | null
+          pix_key_id: string | null
           processed_at: string | null
+          rejection_reason: string | null
+          reviewed_at: string | null
+          reviewed_by: string | null
           seller_id: string
           status: Database["public"]["Enums"]["withdrawal_status"]
+          transfer_error: string | null
+          transfer_id: string | null
         }
         Insert: {
           amount: number
@@ -336,9 +1193,16 @@ export type Database = {
           id?: string
           payment_details?: Json | null
           payment_method?: string | null
+          payout_requested_at?: string | null
+          pix_key_id?: string | null
           processed_at?: string | null
+          rejection_reason?: string | null
+          reviewed_at?: string | null
+          reviewed_by?: string | null
           seller_id: string
           status?: Database["public"]["Enums"]["withdrawal_status"]
+          transfer_error?: string | null
+          transfer_id?: string | null
         }
         Update: {
           amount?: number
@@ -346,11 +1210,32 @@ export type Database = {
           id?: string
           payment_details?: Json | null
           payment_method?: string | null
+          payout_requested_at?: string | null
+          pix_key_id?: string | null
           processed_at?: string | null
+          rejection_reason?: string | null
+          reviewed_at?: string | null
+          reviewed_by?: string | null
           seller_id?: string
           status?: Database["public"]["Enums"]["withdrawal_status"]
+          transfer_error?: string | null
+          transfer_id?: string | null
         }
         Relationships: [
+          {
+            foreignKeyName: "withdrawals_pix_key_id_fkey"
+            columns: ["pix_key_id"]
+            isOneToOne: false
+            referencedRelation: "seller_pix_keys"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "withdrawals_reviewed_by_fkey"
+            columns: ["reviewed_by"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
           {
             foreignKeyName: "withdrawals_seller_id_fkey"
             columns: ["seller_id"]
@@ -365,6 +1250,65 @@ export type Database = {
       [_ in never]: never
     }
     Functions: {
+      add_pix_key: {
+        Args: {
+          _key_type: Database["public"]["Enums"]["pix_key_type"]
+          _key_value: string
+        }
+        Returns: Database["public"]["Tables"]["seller_pix_keys"]["Row"]
+      }
+      auto_confirm_delivered_orders: { Args: never; Returns: number }
+      available_balance: { Args: { _user_id: string }; Returns: number }
+      calculate_order_total: {
+        Args: {
+          _amount: number
+          _delivery_method: Database["public"]["Enums"]["delivery_method"]
+          _seller_id: string
+        }
+        Returns: number
+      }
+      cancel_order: {
+        Args: { _order_id: string; _refund_amount?: number }
+        Returns: Database["public"]["Tables"]["orders"]["Row"]
+      }
+      confirm_order_receipt: {
+        Args: { _order_id: string }
+        Returns: Database["public"]["Tables"]["orders"]["Row"]
+      }
+      coupon_discount: {
+        Args: {
+          _buyer_id: string
+          _coupon: Database["public"]["Tables"]["coupons"]["Row"]
+          _seller_id: string
+          _subtotal: number
+        }
+        Returns: number
+      }
+      coupon_exists: {
+        Args: { _coupon_id: string }
+        Returns: boolean
+      }
+      credit_wallet_deposit: {
+        Args: { _amount: number; _description: string; _user_id: string }
+        Returns: undefined
+      }
+      debit_wallet_withdrawal: {
+        Args: {
+          _amount: number
+          _fee: number
+          _user_id: string
+          _withdrawal_id: string
+        }
+        Returns: undefined
+      }
+      gamepass_price: { Args: { _amount: number }; Returns: number }
+      group_payout_details: {
+        Args: {
+          _group: Database["public"]["Tables"]["seller_groups"]["Row"]
+          _joined_at: string
+        }
+        Returns: Json
+      }
       has_role: {
         Args: {
           _role: Database["public"]["Enums"]["app_role"]
@@ -372,16 +1316,197 @@ export type Database = {
         }
         Returns: boolean
       }
+      hold_sale_proceeds: {
+        Args: { _amount: number; _order_id: string; _user_id: string }
+        Returns: undefined
+      }
+      is_order_participant: {
+        Args: { _order_id: string; _user_id: string }
+        Returns: boolean
+      }
+      ledger_account_id: {
+        Args: {
+          _kind: Database["public"]["Enums"]["ledger_account_kind"]
+          _user_id?: string
+        }
+        Returns: string
+      }
+      ledger_post: {
+        Args: {
+          _amount: number
+          _description: string
+          _from_account: string
+          _order_id?: string
+          _to_account: string
+          _withdrawal_id?: string
+        }
+        Returns: string
+      }
+      ledger_reconciliation_report: {
+        Args: never
+        Returns: {
+          difference: number
+          ledger_balance: number
+          profile_balance: number
+          user_id: string
+          username: string
+        }[]
+      }
+      link_roblox_account: {
+        Args: {
+          _roblox_user_id: number
+          _roblox_username: string
+          _user_id: string
+        }
+        Returns: undefined
+      }
+      mark_group_joined: {
+        Args: { _order_id: string }
+        Returns: Database["public"]["Tables"]["orders"]["Row"]
+      }
+      open_dispute: {
+        Args: { _evidence_urls?: string[]; _order_id: string; _reason: string }
+        Returns: Database["public"]["Tables"]["disputes"]["Row"]
+      }
+      order_transition_allowed: {
+        Args: {
+          _from: Database["public"]["Enums"]["order_status"]
+          _to: Database["public"]["Enums"]["order_status"]
+        }
+        Returns: boolean
+      }
+      place_order: {
+        Args: {
+          _amount: number
+          _coupon_code?: string
+          _delivery_details?: Json
+          _delivery_method: Database["public"]["Enums"]["delivery_method"]
+          _seller_id: string
+        }
+        Returns: Database["public"]["Tables"]["orders"]["Row"]
+      }
+      platform_treasury_balance: { Args: never; Returns: number }
+      platform_treasury_history: {
+        Args: { _limit?: number }
+        Returns: {
+          amount: number
+          balance: number
+          created_at: string
+          description: string
+          entry_id: string
+          order_id: string
+          withdrawal_id: string
+        }[]
+      }
+      preview_coupon: {
+        Args: {
+          _amount: number
+          _code: string
+          _delivery_method: Database["public"]["Enums"]["delivery_method"]
+          _seller_id: string
+        }
+        Returns: number
+      }
+      process_payment_credit: {
+        Args: {
+          _amount: number
+          _billing_type: string
+          _provider: string
+          _provider_payment_id: string
+          _status: string
+          _user_id: string
+        }
+        Returns: boolean
+      }
+      proof_order_id: {
+        Args: { _name: string }
+        Returns: string
+      }
+      refund_withdrawal: {
+        Args: { _reason: string; _reviewed_by?: string; _withdrawal_id: string }
+        Returns: undefined
+      }
+      request_withdrawal: {
+        Args: {
+          _amount: number
+          _fee: number
+          _pix_key_id: string
+          _user_id: string
+        }
+        Returns: Database["public"]["Tables"]["withdrawals"]["Row"]
+      }
+      resolve_dispute: {
+        Args: {
+          _dispute_id: string
+          _notes?: string
+          _refund_amount?: number
+          _resolution: Database["public"]["Enums"]["dispute_resolution"]
+        }
+        Returns: Database["public"]["Tables"]["disputes"]["Row"]
+      }
+      seller_commission_rate: { Args: { _seller_id: string }; Returns: number }
+      seller_price_per_1k: {
+        Args: { _amount: number; _seller_id: string }
+        Returns: number
+      }
+      settle_withdrawal_transfer: {
+        Args: {
+          _fail_reason?: string
+          _status: string
+          _transfer_id: string
+          _withdrawal_id: string
+        }
+        Returns: boolean
+      }
+      wallet_history: {
+        Args: {
+          _from?: string
+          _limit?: number
+          _offset?: number
+          _to?: string
+          _type?: string
+        }
+        Returns: {
+          amount: number
+          balance_after: number
+          created_at: string
+          description: string
+          id: string
+          order_id: string
+          total_count: number
+          type: string
+          withdrawal_id: string
+        }[]
+      }
+      withdrawal_is_debited: {
+        Args: { _withdrawal_id: string }
+        Returns: boolean
+      }
+      withdrawal_requested_amount: {
+        Args: { _withdrawal: Database["public"]["Tables"]["withdrawals"]["Row"] }
+        Returns: number
+      }
     }
     Enums: {
       app_role: "admin" | "seller" | "buyer"
+      coupon_discount_type: "percentage" | "fixed"
       delivery_method: "gamepass" | "donation" | "group_payout"
+      dispute_resolution: "release" | "refund" | "split"
+      dispute_status: "open" | "resolved"
+      escrow_status: "held" | "released" | "refunded"
+      ledger_account_kind:
+        | "user_wallet"
+        | "escrow"
+        | "platform_fees"
+        | "provider_clearing"
       order_status:
         | "pending"
         | "processing"
+        | "delivered"
         | "completed"
         | "cancelled"
         | "disputed"
+      pix_key_type: "CPF" | "CNPJ" | "EMAIL" | "PHONE" | "EVP"
       withdrawal_status: "pending" | "approved" | "completed" | "rejected"
     }
     CompositeTypes: {
@@ -511,14 +1636,26 @@ export const Constants = {
   public: {
     Enums: {
       app_role: ["admin", "seller", "buyer"],
+      coupon_discount_type: ["percentage", "fixed"],
       delivery_method: ["gamepass", "donation", "group_payout"],
+      dispute_resolution: ["release", "refund", "split"],
+      dispute_status: ["open", "resolved"],
+      escrow_status: ["held", "released", "refunded"],
+      ledger_account_kind: [
+        "user_wallet",
+        "escrow",
+        "platform_fees",
+        "provider_clearing",
+      ],
       order_status: [
         "pending",
         "processing",
+        "delivered",
         "completed",
         "cancelled",
         "disputed",
       ],
+      pix_key_type: ["CPF", "CNPJ", "EMAIL", "PHONE", "EVP"],
       withdrawal_status: ["pending", "approved", "completed", "rejected"],
     },
   },
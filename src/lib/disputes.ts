@@ -0,0 +1,35 @@
+import { Database } from "@/integrations/supabase/types";
+
+type DisputeResolution = Database["public"]["Enums"]["dispute_resolution"];
+
+export const resolutionLabels: Record<DisputeResolution, string> = {
+  release: "Liberar ao vendedor",
+  refund: "Reembolsar comprador",
+  split: "Dividir valor",
+};
+
+// Only web links may be stored or rendered: a javascript: or data: href would
+// run in the session of whoever clicks it
+export function isHttpUrl(value: string) {
+  try {
+    const { protocol } = new URL(value);
+    return protocol === "http:" || protocol === "https:";
+  } catch {
+    return false;
+  }
+}
+
+// Evidence links are entered one per line; throws on anything but http(s) links
+export function parseEvidenceUrls(value: string) {
+  const urls = value
+    .split("\n")
+    .map((url) => url.trim())
+    .filter(Boolean);
+
+  const invalid = urls.find((url) => !isHttpUrl(url));
+  if (invalid) {
+    throw new Error(`Link inválido: ${invalid}. Use links começando com http:// ou https://`);
+  }
+
+  return urls;
+}
@@ -0,0 +1,16 @@
+// Roblox keeps 30% of every gamepass sale; the seller receives floor(price * 0.7)
+export const ROBLOX_MARKETPLACE_FEE = 0.3;
+
+/** Gamepass price that nets `amount` Robux after the marketplace fee (mirrors public.gamepass_price) */
+export function gamepassPrice(amount: number) {
+  return Math.ceil((amount * 10) / 7);
+}
+
+export const GAMEPASS_URL_PATTERN = /^https:\/\/(www\.)?roblox\.com\/game-pass\/\d+/i;
+export const PLACE_URL_PATTERN = /^https:\/\/(www\.)?roblox\.com\/games\/\d+/i;
+
+export interface GamepassDeliveryDetails {
+  gamepass_url?: string;
+  place_url?: string | null;
+  gamepass_price?: number;
+}
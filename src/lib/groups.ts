@@ -0,0 +1,28 @@
+// Roblox only pays out group funds to members who joined at least 14 days ago
+export const GROUP_PAYOUT_WAIT_DAYS = 14;
+
+export const GROUP_URL_PATTERN = /^https:\/\/(www\.)?roblox\.com\/(groups|communities)\/(\d+)/i;
+
+export const robloxGroupUrl = (robloxGroupId: number) =>
+  `https://www.roblox.com/groups/${robloxGroupId}`;
+
+/** Extracts the group ID from a group page link or a bare numeric ID */
+export function parseRobloxGroupId(value: string): number | null {
+  const trimmed = value.trim();
+  if (/^\d+$/.test(trimmed)) return Number(trimmed);
+  const match = trimmed.match(GROUP_URL_PATTERN);
+  return match ? Number(match[3]) : null;
+}
+
+/** Mirrors public.group_payout_details */
+export interface GroupPayoutDeliveryDetails {
+  seller_group_id?: string;
+  roblox_group_id?: number;
+  group_name?: string;
+  joined_at?: string | null;
+  eligible_at?: string | null;
+}
+
+export function eligibilityDate(joinedAt: Date) {
+  return new Date(joinedAt.getTime() + GROUP_PAYOUT_WAIT_DAYS * 24 * 60 * 60 * 1000);
+}
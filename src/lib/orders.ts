@@ -0,0 +1,27 @@
+import { Database } from "@/integrations/supabase/types";
+
+type OrderStatus = Database["public"]["Enums"]["order_status"];
+type DeliveryMethod = Database["public"]["Enums"]["delivery_method"];
+
+// Mirrors public.order_transition_allowed; the database trigger is authoritative
+export const orderTransitions: Record<OrderStatus, OrderStatus[]> = {
+  pending: ["processing", "cancelled", "disputed"],
+  processing: ["delivered", "cancelled", "disputed"],
+  delivered: ["completed", "disputed"],
+  disputed: ["completed", "cancelled"],
+  completed: [],
+  cancelled: [],
+};
+
+export function canTransition(from: OrderStatus, to: OrderStatus) {
+  return from === to || orderTransitions[from].includes(to);
+}
+
+export const deliveryMethodLabels: Record<DeliveryMethod, string> = {
+  gamepass: "Gamepass",
+  donation: "Doação",
+  group_payout: "Group Payout",
+};
+
+// Private storage bucket for delivery proof; orders.proof_url holds the order's folder
+export const PROOF_BUCKET = "order-proofs";
@@ -0,0 +1,26 @@
+import { Database } from "@/integrations/supabase/types";
+
+export type PixKeyType = Database["public"]["Enums"]["pix_key_type"];
+
+export const pixKeyTypeLabels: Record<PixKeyType, string> = {
+  CPF: "CPF",
+  CNPJ: "CNPJ",
+  EMAIL: "E-mail",
+  PHONE: "Telefone",
+  EVP: "Chave Aleatória",
+};
+
+export const pixKeyPlaceholders: Record<PixKeyType, string> = {
+  CPF: "000.000.000-00",
+  CNPJ: "00.000.000/0000-00",
+  EMAIL: "seu@email.com",
+  PHONE: "+5511999999999",
+  EVP: "Chave aleatória",
+};
+
+/** New keys only receive withdrawals after public.add_pix_key's holding period */
+export const isPixKeyAvailable = (key: { available_at: string }) =>
+  new Date(key.available_at).getTime() <= Date.now();
+
+/** add_pix_key checks these against the account's CPF and login e-mail */
+export const isAccountPixKey = (type: PixKeyType) => type === "CPF" || type === "EMAIL";
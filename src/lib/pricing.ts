@@ -0,0 +1,34 @@
+import { Database, Tables } from "@/integrations/supabase/types";
+
+type DeliveryMethod = Database["public"]["Enums"]["delivery_method"];
+type PriceTier = Pick<Tables<"seller_price_tiers">, "min_amount" | "price_per_1k">;
+type DeliverySurcharge = Pick<Tables<"seller_delivery_surcharges">, "delivery_method" | "surcharge_per_1k">;
+
+export interface OrderPriceBreakdown {
+  pricePer1k: number;
+  surchargePer1k: number;
+  /** Tier that set the price, or null when the base price applies */
+  tier: PriceTier | null;
+  total: number;
+}
+
+/** Mirrors public.seller_price_per_1k and public.calculate_order_total */
+export function calculateOrderTotal(
+  basePricePer1k: number,
+  tiers: PriceTier[],
+  surcharges: DeliverySurcharge[],
+  amount: number,
+  deliveryMethod: DeliveryMethod,
+): OrderPriceBreakdown {
+  const tier = [...tiers]
+    .sort((a, b) => b.min_amount - a.min_amount)
+    .find((t) => t.min_amount <= amount) ?? null;
+
+  const pricePer1k = Number(tier?.price_per_1k ?? basePricePer1k);
+  const surchargePer1k = Number(
+    surcharges.find((s) => s.delivery_method === deliveryMethod)?.surcharge_per_1k ?? 0
+  );
+  const total = Math.round((amount / 1000) * (pricePer1k + surchargePer1k) * 100) / 100;
+
+  return { pricePer1k, surchargePer1k, tier, total };
+}
@@ -0,0 +1,2 @@
+export const robloxProfileUrl = (robloxUserId: number) =>
+  `https://www.roblox.com/users/${robloxUserId}/profile`;
@@ -0,0 +1,56 @@
+import { Database } from "@/integrations/supabase/types";
+
+export type WalletEntry = Database["public"]["Functions"]["wallet_history"]["Returns"][number];
+
+export const transactionTypeLabels: Record<string, string> = {
+  deposit: "Depósito",
+  purchase: "Compra",
+  sale: "Venda",
+  withdrawal: "Saque",
+  fee: "Taxa",
+  refund: "Estorno",
+  discount: "Desconto",
+};
+
+// Date inputs give local calendar days; the "to" day is inclusive
+export function dateFilterRange(from: string, to: string) {
+  const end = to ? new Date(`${to}T00:00:00`) : null;
+  end?.setDate(end.getDate() + 1);
+
+  return {
+    _from: from ? new Date(`${from}T00:00:00`).toISOString() : undefined,
+    _to: end ? end.toISOString() : undefined,
+  };
+}
+
+const csvCell = (value: string | number | null) => {
+  const text = value === null ? "" : String(value);
+  return /[";\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+// Semicolon-separated with decimal commas, as spreadsheets in pt-BR expect
+export function walletEntriesToCsv(entries: WalletEntry[]) {
+  const header = ["Data", "Tipo", "Descrição", "Valor", "Saldo", "Pedido", "Saque"];
+  const rows = entries.map((entry) => [
+    new Date(entry.created_at).toLocaleString("pt-BR"),
+    transactionTypeLabels[entry.type] ?? entry.type,
+    entry.description,
+    Number(entry.amount).toFixed(2).replace(".", ","),
+    Number(entry.balance_after).toFixed(2).replace(".", ","),
+    entry.order_id,
+    entry.withdrawal_id,
+  ]);
+
+  return [header, ...rows].map((row) => row.map(csvCell).join(";")).join("\n");
+}
+
+export function downloadCsv(filename: string, content: string) {
+  // The BOM makes Excel read the file as UTF-8
+  const blob = new Blob(["\uFEFF" + content], { type: "text/csv;charset=utf-8" });
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = filename;
+  link.click();
+  URL.revokeObjectURL(url);
+}
@@ -6,6 +6,7 @@ import { useToast } from "@/hooks/use-toast";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
 import { Badge } from "@/components/ui/badge";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import {
@@ -23,6 +24,11 @@ import {
   SelectTrigger,
   SelectValue,
 } from "@/components/ui/select";
+import { RefundOrderModal } from "@/components/RefundOrderModal";
+import { CouponsManager } from "@/components/CouponsManager";
+import { PlatformTreasury } from "@/components/PlatformTreasury";
+import { QueuedWithdrawal, WithdrawalsQueue } from "@/components/WithdrawalsQueue";
+import { canTransition } from "@/lib/orders";
 import { 
   Users, 
   ShoppingBag, 
@@ -32,21 +38,46 @@ import {
   Shield,
   Store,
   UserCheck,
-  Loader2
+  Loader2,
+  Scale,
+  CheckCircle,
+  AlertTriangle,
+  Settings,
+  Save
 } from "lucide-react";
-import { Tables } from "@/integrations/supabase/types";
+import { Database, Tables } from "@/integrations/supabase/types";
 
 type Profile = Tables<"profiles">;
 type Order = Tables<"orders">;
 type Seller = Tables<"sellers"> & { profiles: { username: string } };
+type Dispute = Tables<"disputes"> & {
+  profiles: { username: string };
+  orders: { total_price: number };
+};
+type ReconciliationRow = Database["public"]["Functions"]["ledger_reconciliation_report"]["Returns"][number];
 
 export default function AdminPanel() {
   const [user, setUser] = useState<any>(null);
   const [users, setUsers] = useState<Profile[]>([]);
   const [orders, setOrders] = useState<Order[]>([]);
   const [sellers, setSellers] = useState<Seller[]>([]);
+  const [reconciliation, setReconciliation] = useState<ReconciliationRow[]>([]);
+  const [disputes, setDisputes] = useState<Dispute[]>([]);
+  const [withdrawals, setWithdrawals] = useState<QueuedWithdrawal[]>([]);
+  const [autoConfirmHours, setAutoConfirmHours] = useState("");
+  const [commissionPercent, setCommissionPercent] = useState("");
+  // Empty caps mean no limit
+  const [dailyLimit, setDailyLimit] = useState("");
+  const [monthlyLimit, setMonthlyLimit] = useState("");
+  const [cooldownMinutes, setCooldownMinutes] = useState("");
+  const [pixKeyHoldHours, setPixKeyHoldHours] = useState("");
+  const [fundsHoldDays, setFundsHoldDays] = useState("");
+  // Per-seller overrides as percentages; "" means the seller uses the global rate
+  const [sellerCommissions, setSellerCommissions] = useState<Record<string, string>>({});
+  const [savingSettings, setSavingSettings] = useState(false);
   const [loading, setLoading] = useState(true);
   const [searchTerm, setSearchTerm] = useState("");
+  const [cancellingOrder, setCancellingOrder] = useState<Order | null>(null);
   const navigate = useNavigate();
   const { toast } = useToast();
 
@@ -97,19 +128,53 @@ export default function AdminPanel() {
     }
   };
 
+  const fetchWithdrawals = async () => {
+    const { data } = await supabase
+      .from("withdrawals")
+      .select(`*, sellers (profiles:user_id (username))`)
+      .order("created_at", { ascending: false });
+
+    setWithdrawals((data as QueuedWithdrawal[]) || []);
+  };
+
   const fetchAllData = async () => {
     try {
       setLoading(true);
 
-      const [usersRes, ordersRes, sellersRes] = await Promise.all([
+      const [usersRes, ordersRes, sellersRes, reconciliationRes, disputesRes, settingsRes, commissionsRes] = await Promise.all([
         supabase.from("profiles").select("*").order("created_at", { ascending: false }),
         supabase.from("orders").select("*").order("created_at", { ascending: false }),
         supabase.from("sellers").select(`*, profiles:user_id (username)`).order("created_at", { ascending: false }),
+        supabase.rpc("ledger_reconciliation_report"),
+        supabase
+          .from("disputes")
+          .select(`*, profiles!disputes_opened_by_fkey (username), orders (total_price)`)
+          .order("status", { ascending: true })
+          .order("created_at", { ascending: false }),
+        supabase.from("platform_settings").select("*").single(),
+        supabase.from("seller_commissions").select("*"),
+        fetchWithdrawals(),
       ]);
 
       setUsers(usersRes.data || []);
       setOrders(ordersRes.data || []);
       setSellers((sellersRes.data as Seller[]) || []);
+      setReconciliation(reconciliationRes.data || []);
+      setDisputes((disputesRes.data as Dispute[]) || []);
+      setAutoConfirmHours(settingsRes.data?.auto_confirm_hours.toString() ?? "");
+      setCommissionPercent(
+        settingsRes.data ? (Number(settingsRes.data.sales_commission_rate) * 100).toString() : ""
+      );
+      setDailyLimit(settingsRes.data?.withdrawal_daily_limit?.toString() ?? "");
+      setMonthlyLimit(settingsRes.data?.withdrawal_monthly_limit?.toString() ?? "");
+      setCooldownMinutes(settingsRes.data?.withdrawal_cooldown_minutes.toString() ?? "");
+      setPixKeyHoldHours(settingsRes.data?.pix_key_hold_hours.toString() ?? "");
+      setFundsHoldDays(settingsRes.data?.funds_hold_days.toString() ?? "");
+      setSellerCommissions(
+        Object.fromEntries(
+          (commissionsRes.data || []).map((c) => [c.seller_id, (Number(c.commission_rate) * 100).toString()])
+        )
+      );
     } catch (error: any) {
       console.error("Error fetching data:", error);
     } finally {
@@ -117,6 +182,127 @@ export default function AdminPanel() {
     }
   };
 
+  const parseCommission = (value: string) => {
+    const percent = parseFloat(value);
+    return isNaN(percent) || percent < 0 || percent >= 100 ? null : percent / 100;
+  };
+
+  const handleSaveSettings = async () => {
+    const hours = parseInt(autoConfirmHours);
+    if (isNaN(hours) || hours < 1) {
+      toast({
+        title: "Valor inválido",
+        description: "O prazo deve ser de pelo menos 1 hora",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    const commissionRate = parseCommission(commissionPercent);
+    if (commissionRate === null) {
+      toast({
+        title: "Valor inválido",
+        description: "A comissão deve ficar entre 0% e 100%",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    const daily = dailyLimit.trim() ? parseFloat(dailyLimit) : null;
+    const monthly = monthlyLimit.trim() ? parseFloat(monthlyLimit) : null;
+    if ((daily !== null && !(daily > 0)) || (monthly !== null && !(monthly > 0))) {
+      toast({
+        title: "Valor inválido",
+        description: "Os limites de saque devem ser maiores que zero (deixe em branco para não limitar)",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    const cooldown = parseInt(cooldownMinutes);
+    const holdHours = parseInt(pixKeyHoldHours);
+    const holdDays = parseInt(fundsHoldDays);
+    if ([cooldown, holdHours, holdDays].some((value) => isNaN(value) || value < 0)) {
+      toast({
+        title: "Valor inválido",
+        description: "Intervalos e prazos de carência não podem ser negativos",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    try {
+      setSavingSettings(true);
+
+      const { error } = await supabase
+        .from("platform_settings")
+        .update({
+          auto_confirm_hours: hours,
+          sales_commission_rate: commissionRate,
+          withdrawal_daily_limit: daily,
+          withdrawal_monthly_limit: monthly,
+          withdrawal_cooldown_minutes: cooldown,
+          pix_key_hold_hours: holdHours,
+          funds_hold_days: holdDays,
+        })
+        .eq("id", true);
+
+      if (error) throw error;
+
+      toast({
+        title: "Configurações salvas!",
+      });
+    } catch (error: unknown) {
+      toast({
+        title: "Erro",
+        description: error instanceof Error ? error.message : "Erro ao salvar configurações",
+        variant: "destructive",
+      });
+    } finally {
+      setSavingSettings(false);
+    }
+  };
+
+  const handleSaveSellerCommission = async (sellerId: string) => {
+    const value = sellerCommissions[sellerId]?.trim() ?? "";
+
+    try {
+      if (value === "") {
+        const { error } = await supabase
+          .from("seller_commissions")
+          .delete()
+          .eq("seller_id", sellerId);
+        if (error) throw error;
+      } else {
+        const commissionRate = parseCommission(value);
+        if (commissionRate === null) {
+          toast({
+            title: "Valor inválido",
+            description: "A comissão deve ficar entre 0% e 100%",
+            variant: "destructive",
+          });
+          return;
+        }
+
+        const { error } = await supabase
+          .from("seller_commissions")
+          .upsert({ seller_id: sellerId, commission_rate: commissionRate, updated_by: user?.id });
+        if (error) throw error;
+      }
+
+      toast({
+        title: "Comissão atualizada!",
+        description: value === "" ? "O vendedor voltou a usar a comissão padrão" : `Comissão de ${value}% aplicada`,
+      });
+    } catch (error: unknown) {
+      toast({
+        title: "Erro",
+        description: error instanceof Error ? error.message : "Erro ao salvar comissão",
+        variant: "destructive",
+      });
+    }
+  };
+
   const handleMakeSeller = async (userId: string) => {
     try {
       // Check if already a seller
@@ -193,10 +379,16 @@ export default function AdminPanel() {
   };
 
   const handleUpdateOrderStatus = async (orderId: string, newStatus: string) => {
+    // Cancellation refunds the buyer, so it goes through the refund dialog
+    if (newStatus === "cancelled") {
+      setCancellingOrder(orders.find(o => o.id === orderId) ?? null);
+      return;
+    }
+
     try {
       const { error } = await supabase
         .from("orders")
-        .update({ status: newStatus as "pending" | "processing" | "completed" | "cancelled" | "disputed" })
+        .update({ status: newStatus as Order["status"] })
         .eq("id", orderId);
 
       if (error) throw error;
@@ -223,6 +415,7 @@ export default function AdminPanel() {
       processing: { variant: "default", label: "Processando" },
       completed: { variant: "outline", label: "Concluído" },
       cancelled: { variant: "destructive", label: "Cancelado" },
+      delivered: { variant: "default", label: "Entregue" },
       disputed: { variant: "destructive", label: "Disputado" },
     };
     const config = statusConfig[status] || statusConfig.pending;
@@ -244,6 +437,22 @@ export default function AdminPanel() {
     .filter(o => o.status === "completed")
     .reduce((acc, o) => acc + Number(o.total_price), 0);
 
+  const openDisputes = disputes.filter(d => d.status === "open").length;
+  const pendingWithdrawals = withdrawals.filter(w => w.status === "pending").length;
+
+  const orderStatusOptions: { value: Order["status"]; label: string }[] = [
+    { value: "pending", label: "Pendente" },
+    { value: "processing", label: "Processando" },
+    { value: "delivered", label: "Entregue" },
+    { value: "completed", label: "Concluído" },
+    { value: "cancelled", label: "Cancelado" },
+    { value: "disputed", label: "Disputado" },
+  ];
+
+  // Disputes are opened by the buyer and ruled on from the dispute panel
+  const isSelectableStatus = (from: Order["status"], to: Order["status"]) =>
+    from === to || (from !== "disputed" && to !== "disputed" && canTransition(from, to));
+
   const filteredUsers = users.filter(u => 
     u.username.toLowerCase().includes(searchTerm.toLowerCase()) ||
     u.email.toLowerCase().includes(searchTerm.toLowerCase())
@@ -315,6 +524,27 @@ export default function AdminPanel() {
             <TabsTrigger value="users">Usuários</TabsTrigger>
             <TabsTrigger value="sellers">Vendedores</TabsTrigger>
             <TabsTrigger value="orders">Pedidos</TabsTrigger>
+            <TabsTrigger value="disputes">
+              Disputas
+              {openDisputes > 0 && (
+                <Badge variant="destructive" className="ml-2">{openDisputes}</Badge>
+              )}
+            </TabsTrigger>
+            <TabsTrigger value="withdrawals">
+              Saques
+              {pendingWithdrawals > 0 && (
+                <Badge variant="destructive" className="ml-2">{pendingWithdrawals}</Badge>
+              )}
+            </TabsTrigger>
+            <TabsTrigger value="coupons">Cupons</TabsTrigger>
+            <TabsTrigger value="treasury">Tesouraria</TabsTrigger>
+            <TabsTrigger value="settings">Configurações</TabsTrigger>
+            <TabsTrigger value="reconciliation">
+              Conciliação
+              {reconciliation.length > 0 && (
+                <Badge variant="destructive" className="ml-2">{reconciliation.length}</Badge>
+              )}
+            </TabsTrigger>
           </TabsList>
 
           <TabsContent value="users">
@@ -398,6 +628,7 @@ export default function AdminPanel() {
                       <TableHead>Preço/1K</TableHead>
                       <TableHead>Vendas</TableHead>
                       <TableHead>Avaliação</TableHead>
+                      <TableHead>Comissão (%)</TableHead>
                       <TableHead>Status</TableHead>
                     </TableRow>
                   </TableHeader>
@@ -410,6 +641,29 @@ export default function AdminPanel() {
                         <TableCell>R$ {Number(seller.price_per_1k).toFixed(2)}</TableCell>
                         <TableCell>{seller.total_sales}</TableCell>
                         <TableCell>{Number(seller.average_rating).toFixed(1)} ⭐</TableCell>
+                        <TableCell>
+                          <div className="flex items-center gap-1">
+                            <Input
+                              type="number"
+                              step="0.01"
+                              min="0"
+                              className="w-24 h-8"
+                              placeholder={commissionPercent || "Padrão"}
+                              value={sellerCommissions[seller.id] ?? ""}
+                              onChange={(e) =>
+                                setSellerCommissions({ ...sellerCommissions, [seller.id]: e.target.value })
+                              }
+                            />
+                            <Button
+                              variant="ghost"
+                              size="icon"
+                              className="h-8 w-8"
+                              onClick={() => handleSaveSellerCommission(seller.id)}
+                            >
+                              <Save className="w-4 h-4" />
+                            </Button>
+                          </div>
+                        </TableCell>
                         <TableCell>
                           <Badge variant={seller.is_online ? "default" : "secondary"}>
                             {seller.is_online ? "Online" : "Offline"}
@@ -462,11 +716,15 @@ export default function AdminPanel() {
                               <SelectValue />
                             </SelectTrigger>
                             <SelectContent>
-                              <SelectItem value="pending">Pendente</SelectItem>
-                              <SelectItem value="processing">Processando</SelectItem>
-                              <SelectItem value="completed">Concluído</SelectItem>
-                              <SelectItem value="cancelled">Cancelado</SelectItem>
-                              <SelectItem value="disputed">Disputado</SelectItem>
+                              {orderStatusOptions.map(({ value, label }) => (
+                                <SelectItem
+                                  key={value}
+                                  value={value}
+                                  disabled={!isSelectableStatus(order.status, value)}
+                                >
+                                  {label}
+                                </SelectItem>
+                              ))}
                             </SelectContent>
                           </Select>
                         </TableCell>
@@ -477,8 +735,243 @@ export default function AdminPanel() {
               </CardContent>
             </Card>
           </TabsContent>
+
+          <TabsContent value="disputes">
+            <Card className="bg-card/50">
+              <CardHeader>
+                <CardTitle className="flex items-center gap-2">
+                  <AlertTriangle className="w-5 h-5" />
+                  Disputas
+                </CardTitle>
+                <CardDescription>
+                  Pedidos com valor congelado aguardando decisão
+                </CardDescription>
+              </CardHeader>
+              <CardContent>
+                {disputes.length === 0 ? (
+                  <div className="py-12 text-center">
+                    <CheckCircle className="w-12 h-12 mx-auto mb-4 text-green-500" />
+                    <p className="text-muted-foreground">Nenhuma disputa registrada</p>
+                  </div>
+                ) : (
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>Aberta em</TableHead>
+                        <TableHead>Comprador</TableHead>
+                        <TableHead>Valor</TableHead>
+                        <TableHead>Motivo</TableHead>
+                        <TableHead>Status</TableHead>
+                        <TableHead>Ações</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {disputes.map((dispute) => (
+                        <TableRow key={dispute.id}>
+                          <TableCell>
+                            {new Date(dispute.created_at).toLocaleDateString("pt-BR")}
+                          </TableCell>
+                          <TableCell className="font-medium">{dispute.profiles?.username}</TableCell>
+                          <TableCell>R$ {Number(dispute.orders?.total_price).toFixed(2)}</TableCell>
+                          <TableCell className="max-w-xs truncate">{dispute.reason}</TableCell>
+                          <TableCell>
+                            <Badge variant={dispute.status === "open" ? "destructive" : "outline"}>
+                              {dispute.status === "open" ? "Em análise" : "Resolvida"}
+                            </Badge>
+                          </TableCell>
+                          <TableCell>
+                            <Button
+                              size="sm"
+                              variant="outline"
+                              onClick={() => navigate(`/order/${dispute.order_id}`)}
+                            >
+                              {dispute.status === "open" ? "Analisar" : "Ver"}
+                            </Button>
+                          </TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                )}
+              </CardContent>
+            </Card>
+          </TabsContent>
+
+          <TabsContent value="withdrawals">
+            <WithdrawalsQueue withdrawals={withdrawals} onChanged={fetchWithdrawals} />
+          </TabsContent>
+
+          <TabsContent value="coupons">
+            {user && <CouponsManager sellers={sellers} userId={user.id} />}
+          </TabsContent>
+
+          <TabsContent value="treasury">
+            <PlatformTreasury />
+          </TabsContent>
+
+          <TabsContent value="settings">
+            <Card className="bg-card/50">
+              <CardHeader>
+                <CardTitle className="flex items-center gap-2">
+                  <Settings className="w-5 h-5" />
+                  Configurações da Plataforma
+                </CardTitle>
+                <CardDescription>
+                  Regras aplicadas a todos os pedidos e saques
+                </CardDescription>
+              </CardHeader>
+              <CardContent className="space-y-4 max-w-md">
+                <div className="space-y-2">
+                  <Label htmlFor="auto-confirm-hours">Prazo para confirmação do comprador (horas)</Label>
+                  <Input
+                    id="auto-confirm-hours"
+                    type="number"
+                    min="1"
+                    value={autoConfirmHours}
+                    onChange={(e) => setAutoConfirmHours(e.target.value)}
+                  />
+                  <p className="text-xs text-muted-foreground">
+                    Após esse prazo, pedidos entregues são confirmados automaticamente e o valor é liberado ao vendedor
+                  </p>
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="sales-commission">Comissão padrão sobre vendas (%)</Label>
+                  <Input
+                    id="sales-commission"
+                    type="number"
+                    step="0.01"
+                    min="0"
+                    value={commissionPercent}
+                    onChange={(e) => setCommissionPercent(e.target.value)}
+                  />
+                  <p className="text-xs text-muted-foreground">
+                    Descontada quando a garantia é liberada ao vendedor. Vendedores com comissão própria na aba Vendedores não são afetados
+                  </p>
+                </div>
+                <div className="grid grid-cols-2 gap-4">
+                  <div className="space-y-2">
+                    <Label htmlFor="withdrawal-daily-limit">Limite diário de saque (R$)</Label>
+                    <Input
+                      id="withdrawal-daily-limit"
+                      type="number"
+                      step="0.01"
+                      min="0"
+                      placeholder="Sem limite"
+                      value={dailyLimit}
+                      onChange={(e) => setDailyLimit(e.target.value)}
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="withdrawal-monthly-limit">Limite mensal de saque (R$)</Label>
+                    <Input
+                      id="withdrawal-monthly-limit"
+                      type="number"
+                      step="0.01"
+                      min="0"
+                      placeholder="Sem limite"
+                      value={monthlyLimit}
+                      onChange={(e) => setMonthlyLimit(e.target.value)}
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="withdrawal-cooldown">Intervalo entre saques (minutos)</Label>
+                    <Input
+                      id="withdrawal-cooldown"
+                      type="number"
+                      min="0"
+                      value={cooldownMinutes}
+                      onChange={(e) => setCooldownMinutes(e.target.value)}
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="pix-key-hold">Carência de novas chaves PIX (horas)</Label>
+                    <Input
+                      id="pix-key-hold"
+                      type="number"
+                      min="0"
+                      value={pixKeyHoldHours}
+                      onChange={(e) => setPixKeyHoldHours(e.target.value)}
+                    />
+                  </div>
+                </div>
+                <p className="text-xs text-muted-foreground">
+                  Os limites valem por vendedor, no dia e no mês corrente, e incluem a taxa de saque
+                </p>
+                <div className="space-y-2">
+                  <Label htmlFor="funds-hold-days">Prazo de liberação das vendas (dias)</Label>
+                  <Input
+                    id="funds-hold-days"
+                    type="number"
+                    min="0"
+                    value={fundsHoldDays}
+                    onChange={(e) => setFundsHoldDays(e.target.value)}
+                  />
+                  <p className="text-xs text-muted-foreground">
+                    O valor de cada venda só pode ser sacado após esse prazo. Alterações valem para novas vendas
+                  </p>
+                </div>
+                <Button onClick={handleSaveSettings} disabled={savingSettings}>
+                  {savingSettings && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+                  Salvar
+                </Button>
+              </CardContent>
+            </Card>
+          </TabsContent>
+
+          <TabsContent value="reconciliation">
+            <Card className="bg-card/50">
+              <CardHeader>
+                <CardTitle className="flex items-center gap-2">
+                  <Scale className="w-5 h-5" />
+                  Conciliação de Saldos
+                </CardTitle>
+                <CardDescription>
+                  Perfis cujo saldo diverge dos lançamentos do livro-razão
+                </CardDescription>
+              </CardHeader>
+              <CardContent>
+                {reconciliation.length === 0 ? (
+                  <div className="py-12 text-center">
+                    <CheckCircle className="w-12 h-12 mx-auto mb-4 text-green-500" />
+                    <p className="text-muted-foreground">Todos os saldos conferem com o livro-razão</p>
+                  </div>
+                ) : (
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>Usuário</TableHead>
+                        <TableHead>Saldo no Perfil</TableHead>
+                        <TableHead>Saldo no Livro-razão</TableHead>
+                        <TableHead>Diferença</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {reconciliation.map((row) => (
+                        <TableRow key={row.user_id}>
+                          <TableCell className="font-medium">{row.username}</TableCell>
+                          <TableCell>R$ {Number(row.profile_balance).toFixed(2)}</TableCell>
+                          <TableCell>R$ {Number(row.ledger_balance).toFixed(2)}</TableCell>
+                          <TableCell className="text-destructive font-semibold">
+                            R$ {Number(row.difference).toFixed(2)}
+                          </TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                )}
+              </CardContent>
+            </Card>
+          </TabsContent>
         </Tabs>
       </div>
+
+      <RefundOrderModal
+        open={!!cancellingOrder}
+        onOpenChange={(open) => !open && setCancellingOrder(null)}
+        onSuccess={(updated) => setOrders(orders.map(o => o.id === updated.id ? updated : o))}
+        order={cancellingOrder}
+        allowPartial
+      />
     </div>
   );
 }
@@ -8,6 +8,8 @@ import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { AddBalanceModal } from "@/components/AddBalanceModal";
+import { ConfirmCountdown } from "@/components/ConfirmCountdown";
+import { RobloxAccountCard } from "@/components/RobloxAccountCard";
 import { 
   Wallet, 
   ShoppingBag, 
@@ -17,7 +19,9 @@ import {
   MessageSquare,
   Plus,
   Store,
-  Loader2
+  Loader2,
+  PackageCheck,
+  ReceiptText
 } from "lucide-react";
 import { Tables } from "@/integrations/supabase/types";
 
@@ -132,6 +136,7 @@ export default function Dashboard() {
     const statusConfig: Record<string, { variant: "default" | "secondary" | "destructive" | "outline"; icon: any; label: string }> = {
       pending: { variant: "secondary", icon: Clock, label: "Pendente" },
       processing: { variant: "default", icon: Clock, label: "Processando" },
+      delivered: { variant: "default", icon: PackageCheck, label: "Entregue" },
       completed: { variant: "outline", icon: CheckCircle, label: "Concluído" },
       cancelled: { variant: "destructive", icon: XCircle, label: "Cancelado" },
       disputed: { variant: "destructive", icon: MessageSquare, label: "Disputado" },
@@ -179,11 +184,15 @@ export default function Dashboard() {
                 R$ {profile?.balance?.toFixed(2) || "0.00"}
               </CardTitle>
             </CardHeader>
-            <CardContent>
+            <CardContent className="space-y-2">
               <Button size="sm" className="w-full gap-2" onClick={() => setShowAddBalance(true)}>
                 <Plus className="w-4 h-4" />
                 Adicionar Saldo
               </Button>
+              <Button size="sm" variant="outline" className="w-full gap-2" onClick={() => navigate("/wallet")}>
+                <ReceiptText className="w-4 h-4" />
+                Ver Extrato
+              </Button>
             </CardContent>
           </Card>
 
@@ -222,6 +231,8 @@ export default function Dashboard() {
           )}
         </div>
 
+        {profile && <RobloxAccountCard profile={profile} onChange={refreshProfile} />}
+
         {/* Orders Section */}
         <Tabs defaultValue="all" className="w-full">
           <TabsList className="mb-4">
@@ -259,6 +270,9 @@ export default function Dashboard() {
                       </div>
                       <div className="flex flex-col items-end gap-2">
                         {getStatusBadge(order.status)}
+                        {order.status === "delivered" && order.confirm_deadline && (
+                          <ConfirmCountdown deadline={order.confirm_deadline} />
+                        )}
                         <p className="font-bold text-primary">
                           R$ {order.total_price.toFixed(2)}
                         </p>
@@ -271,7 +285,7 @@ export default function Dashboard() {
           </TabsContent>
 
           <TabsContent value="pending" className="space-y-4">
-            {orders.filter(o => ["pending", "processing"].includes(o.status)).map((order) => (
+            {orders.filter(o => ["pending", "processing", "delivered"].includes(o.status)).map((order) => (
               <Card key={order.id} className="bg-card/50 hover:bg-card/70 transition-colors cursor-pointer" onClick={() => navigate(`/order/${order.id}`)}>
                 <CardContent className="p-6">
                   <div className="flex flex-col md:flex-row justify-between gap-4">
@@ -285,6 +299,9 @@ export default function Dashboard() {
                     </div>
                     <div className="flex flex-col items-end gap-2">
                       {getStatusBadge(order.status)}
+                      {order.status === "delivered" && order.confirm_deadline && (
+                        <ConfirmCountdown deadline={order.confirm_deadline} />
+                      )}
                       <p className="font-bold text-primary">
                         R$ {order.total_price.toFixed(2)}
                       </p>
@@ -310,6 +327,9 @@ export default function Dashboard() {
                     </div>
                     <div className="flex flex-col items-end gap-2">
                       {getStatusBadge(order.status)}
+                      {order.status === "delivered" && order.confirm_deadline && (
+                        <ConfirmCountdown deadline={order.confirm_deadline} />
+                      )}
                       <p className="font-bold text-primary">
                         R$ {order.total_price.toFixed(2)}
                       </p>
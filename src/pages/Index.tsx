@@ -22,6 +22,7 @@ interface Seller {
   price_per_1k: number;
   min_amount: number;
   max_amount: number;
+  stock: number;
   is_online: boolean;
   average_rating: number;
   total_ratings: number;
@@ -173,6 +174,7 @@ const Index = () => {
                     price_per_1k: seller.price_per_1k,
                     min_amount: seller.min_amount,
                     max_amount: seller.max_amount,
+                    stock: seller.stock,
                     is_online: seller.is_online,
                     average_rating: seller.average_rating,
                     total_ratings: seller.total_ratings,
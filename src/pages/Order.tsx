@@ -19,9 +19,23 @@ import {
   ArrowLeft,
   Star,
   Loader2,
-  AlertTriangle
+  AlertTriangle,
+  ShieldCheck,
+  RotateCcw,
+  History,
+  PackageCheck,
+  ExternalLink
 } from "lucide-react";
 import { Tables } from "@/integrations/supabase/types";
+import { OpenDisputeModal } from "@/components/OpenDisputeModal";
+import { DisputePanel } from "@/components/DisputePanel";
+import { ProofGallery } from "@/components/ProofGallery";
+import { ConfirmCountdown } from "@/components/ConfirmCountdown";
+import { GamepassInstructions } from "@/components/GamepassInstructions";
+import { GroupPayoutInstructions } from "@/components/GroupPayoutInstructions";
+import { GamepassDeliveryDetails } from "@/lib/gamepass";
+import { GroupPayoutDeliveryDetails } from "@/lib/groups";
+import { robloxProfileUrl } from "@/lib/roblox";
 
 type Order = Tables<"orders"> & {
   sellers: {
@@ -36,6 +50,14 @@ type Order = Tables<"orders"> & {
   };
 };
 
+type Escrow = Tables<"escrows">;
+type Dispute = Tables<"disputes">;
+type OrderEvent = Tables<"order_events"> & {
+  profiles: {
+    username: string;
+  } | null;
+};
+
 type ChatMessage = Tables<"chat_messages"> & {
   profiles: {
     username: string;
@@ -47,6 +69,12 @@ export default function OrderPage() {
   const { orderId } = useParams();
   const [user, setUser] = useState<any>(null);
   const [order, setOrder] = useState<Order | null>(null);
+  const [escrow, setEscrow] = useState<Escrow | null>(null);
+  const [dispute, setDispute] = useState<Dispute | null>(null);
+  const [events, setEvents] = useState<OrderEvent[]>([]);
+  const [isAdmin, setIsAdmin] = useState(false);
+  const [showOpenDispute, setShowOpenDispute] = useState(false);
+  const [confirming, setConfirming] = useState(false);
   const [messages, setMessages] = useState<ChatMessage[]>([]);
   const [newMessage, setNewMessage] = useState("");
   const [loading, setLoading] = useState(true);
@@ -126,6 +154,18 @@ export default function OrderPage() {
     messagesEndRef.current?.scrollIntoView({ behavior: "smooth" });
   }, [messages]);
 
+  useEffect(() => {
+    if (!user?.id) return;
+
+    supabase
+      .from("user_roles")
+      .select("role")
+      .eq("user_id", user.id)
+      .eq("role", "admin")
+      .maybeSingle()
+      .then(({ data }) => setIsAdmin(!!data));
+  }, [user?.id]);
+
   const fetchOrderData = async () => {
     try {
       setLoading(true);
@@ -160,6 +200,38 @@ export default function OrderPage() {
 
       setOrder(orderData as Order);
 
+      // Fetch escrow
+      const { data: escrowData } = await supabase
+        .from("escrows")
+        .select("*")
+        .eq("order_id", orderId)
+        .maybeSingle();
+
+      setEscrow(escrowData);
+
+      // Fetch dispute
+      const { data: disputeData } = await supabase
+        .from("disputes")
+        .select("*")
+        .eq("order_id", orderId)
+        .maybeSingle();
+
+      setDispute(disputeData);
+
+      // Fetch status timeline
+      const { data: eventsData } = await supabase
+        .from("order_events")
+        .select(`
+          *,
+          profiles:actor_id (
+            username
+          )
+        `)
+        .eq("order_id", orderId)
+        .order("created_at", { ascending: true });
+
+      setEvents((eventsData as OrderEvent[]) || []);
+
       // Fetch messages
       const { data: messagesData } = await supabase
         .from("chat_messages")
@@ -218,6 +290,35 @@ export default function OrderPage() {
     }
   };
 
+  const handleConfirmReceipt = async () => {
+    if (!order) return;
+
+    try {
+      setConfirming(true);
+
+      const { error } = await supabase.rpc("confirm_order_receipt", {
+        _order_id: order.id,
+      });
+
+      if (error) throw error;
+
+      toast({
+        title: "Recebimento confirmado!",
+        description: "O pagamento foi liberado ao vendedor",
+      });
+
+      fetchOrderData();
+    } catch (error: unknown) {
+      toast({
+        title: "Erro ao confirmar",
+        description: error instanceof Error ? error.message : "Erro desconhecido",
+        variant: "destructive",
+      });
+    } finally {
+      setConfirming(false);
+    }
+  };
+
   const handleSubmitRating = async () => {
     if (!order || !user || rating === 0) return;
 
@@ -266,6 +367,12 @@ export default function OrderPage() {
         label: "Processando",
         description: "O vendedor está preparando sua entrega"
       },
+      delivered: { 
+        icon: PackageCheck, 
+        color: "text-primary", 
+        label: "Entregue",
+        description: "Confirme o recebimento ou abra uma disputa"
+      },
       completed: { 
         icon: CheckCircle, 
         color: "text-green-500", 
@@ -302,10 +409,21 @@ export default function OrderPage() {
 
   if (!order) return null;
 
+  const getEscrowLabel = (status: string) => {
+    const escrowConfig: Record<string, { color: string; label: string }> = {
+      held: { color: "text-yellow-500", label: "Retido" },
+      released: { color: "text-green-500", label: "Liberado ao vendedor" },
+      refunded: { color: "text-blue-500", label: "Reembolsado" },
+    };
+    return escrowConfig[status] || escrowConfig.held;
+  };
+
   const statusInfo = getStatusInfo(order.status);
   const StatusIcon = statusInfo.icon;
   const isBuyer = user?.id === order.buyer_id;
   const canRate = isBuyer && order.status === "completed" && !hasRated;
+  const canDispute = isBuyer && !dispute && ["pending", "processing", "delivered"].includes(order.status);
+  const canConfirm = isBuyer && order.status === "delivered";
 
   return (
     <div className="min-h-screen bg-background">
@@ -341,16 +459,103 @@ export default function OrderPage() {
                   <span className="text-muted-foreground">Valor Pago</span>
                   <span className="font-bold text-primary">R$ {Number(order.total_price).toFixed(2)}</span>
                 </div>
+                {Number(order.discount_amount) > 0 && (
+                  <div className="flex justify-between items-center p-3 rounded-lg bg-background/50">
+                    <span className="text-muted-foreground">Desconto (cupom)</span>
+                    <span className="font-medium text-green-500">- R$ {Number(order.discount_amount).toFixed(2)}</span>
+                  </div>
+                )}
                 <div className="flex justify-between items-center p-3 rounded-lg bg-background/50">
                   <span className="text-muted-foreground">Método</span>
                   <Badge variant="outline">{order.delivery_method}</Badge>
                 </div>
+                {order.buyer_roblox_user_id && (
+                  <div className="flex justify-between items-center p-3 rounded-lg bg-background/50">
+                    <span className="text-muted-foreground">Conta Roblox</span>
+                    <a
+                      href={robloxProfileUrl(order.buyer_roblox_user_id)}
+                      target="_blank"
+                      rel="noopener noreferrer"
+                      className="flex items-center gap-1 font-medium text-primary hover:underline"
+                    >
+                      {order.buyer_roblox_username}
+                      <ExternalLink className="w-3 h-3" />
+                    </a>
+                  </div>
+                )}
+                {order.delivery_method === "gamepass" && (
+                  <GamepassInstructions
+                    amount={order.amount}
+                    details={order.delivery_details as GamepassDeliveryDetails}
+                    audience={isBuyer ? "buyer" : "seller"}
+                  />
+                )}
+                {order.delivery_method === "group_payout" && (
+                  <GroupPayoutInstructions
+                    orderId={order.id}
+                    details={order.delivery_details as GroupPayoutDeliveryDetails}
+                    audience={isBuyer ? "buyer" : "seller"}
+                    canMarkJoined={isBuyer && ["pending", "processing"].includes(order.status)}
+                    onJoined={fetchOrderData}
+                  />
+                )}
+                {escrow && (
+                  <div className="flex justify-between items-center p-3 rounded-lg bg-background/50">
+                    <span className="text-muted-foreground flex items-center gap-1">
+                      <ShieldCheck className="w-4 h-4" />
+                      Garantia
+                    </span>
+                    <span className={`font-medium ${getEscrowLabel(escrow.status).color}`}>
+                      {getEscrowLabel(escrow.status).label}
+                    </span>
+                  </div>
+                )}
+                {escrow?.status === "refunded" && (
+                  <div className="flex justify-between items-center p-3 rounded-lg bg-background/50">
+                    <span className="text-muted-foreground flex items-center gap-1">
+                      <RotateCcw className="w-4 h-4" />
+                      {Number(escrow.refunded_amount) < Number(escrow.amount) ? "Reembolso parcial" : "Reembolso"}
+                    </span>
+                    <span className="font-bold text-blue-500">
+                      R$ {Number(escrow.refunded_amount).toFixed(2)}
+                    </span>
+                  </div>
+                )}
                 <div className="flex justify-between items-center p-3 rounded-lg bg-background/50">
                   <span className="text-muted-foreground">Data</span>
                   <span className="font-medium">
                     {new Date(order.created_at).toLocaleDateString("pt-BR")}
                   </span>
                 </div>
+                {order.status === "delivered" && order.confirm_deadline && (
+                  <div className="text-center">
+                    <ConfirmCountdown deadline={order.confirm_deadline} />
+                  </div>
+                )}
+                {canConfirm && (
+                  <Button
+                    className="w-full"
+                    onClick={handleConfirmReceipt}
+                    disabled={confirming}
+                  >
+                    {confirming ? (
+                      <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+                    ) : (
+                      <PackageCheck className="w-4 h-4 mr-2" />
+                    )}
+                    Confirmar Recebimento
+                  </Button>
+                )}
+                {canDispute && (
+                  <Button
+                    variant="outline"
+                    className="w-full text-destructive"
+                    onClick={() => setShowOpenDispute(true)}
+                  >
+                    <AlertTriangle className="w-4 h-4 mr-2" />
+                    Abrir Disputa
+                  </Button>
+                )}
               </CardContent>
             </Card>
 
@@ -372,6 +577,43 @@ export default function OrderPage() {
               </CardContent>
             </Card>
 
+            {/* Delivery Proof */}
+            {order.proof_url && <ProofGallery folder={order.proof_url} />}
+
+            {/* Status Timeline */}
+            {events.length > 0 && (
+              <Card className="bg-card/50">
+                <CardHeader>
+                  <CardTitle className="text-sm text-muted-foreground flex items-center gap-2">
+                    <History className="w-4 h-4" />
+                    Histórico
+                  </CardTitle>
+                </CardHeader>
+                <CardContent>
+                  <ol className="relative border-l border-border ml-2 space-y-4">
+                    {events.map((event) => {
+                      const eventInfo = getStatusInfo(event.to_status);
+                      const EventIcon = eventInfo.icon;
+                      return (
+                        <li key={event.id} className="ml-4">
+                          <span className="absolute -left-2 flex items-center justify-center w-4 h-4 rounded-full bg-background">
+                            <EventIcon className={`w-4 h-4 ${eventInfo.color}`} />
+                          </span>
+                          <p className="text-sm font-medium">
+                            {!event.from_status && event.to_status === "pending" ? "Pedido criado" : eventInfo.label}
+                          </p>
+                          <p className="text-xs text-muted-foreground">
+                            {new Date(event.created_at).toLocaleString("pt-BR")}
+                            {event.profiles?.username && ` · ${event.profiles.username}`}
+                          </p>
+                        </li>
+                      );
+                    })}
+                  </ol>
+                </CardContent>
+              </Card>
+            )}
+
             {/* Rating Card */}
             {canRate && (
               <Card className="bg-gradient-to-br from-primary/10 to-accent/10 border-primary/20">
@@ -512,7 +754,26 @@ export default function OrderPage() {
             </div>
           </Card>
         </div>
+
+        {dispute && user && (
+          <div className="mt-6">
+            <DisputePanel
+              dispute={dispute}
+              orderTotal={Number(order.total_price)}
+              userId={user.id}
+              isAdmin={isAdmin}
+              onResolved={fetchOrderData}
+            />
+          </div>
+        )}
       </div>
+
+      <OpenDisputeModal
+        open={showOpenDispute}
+        onOpenChange={setShowOpenDispute}
+        onSuccess={fetchOrderData}
+        orderId={order.id}
+      />
     </div>
   );
 }
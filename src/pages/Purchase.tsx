@@ -9,6 +9,7 @@ import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Badge } from "@/components/ui/badge";
 import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
+import { Checkbox } from "@/components/ui/checkbox";
 import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
 import { 
   Star, 
@@ -18,9 +19,15 @@ import {
   Users,
   Loader2,
   ArrowLeft,
-  Calculator
+  Calculator,
+  ExternalLink,
+  Ticket
 } from "lucide-react";
 import { Tables } from "@/integrations/supabase/types";
+import { GamepassInstructions } from "@/components/GamepassInstructions";
+import { GAMEPASS_URL_PATTERN, PLACE_URL_PATTERN } from "@/lib/gamepass";
+import { GROUP_PAYOUT_WAIT_DAYS, eligibilityDate, robloxGroupUrl } from "@/lib/groups";
+import { calculateOrderTotal } from "@/lib/pricing";
 
 type Seller = Tables<"sellers"> & {
   profiles: {
@@ -30,6 +37,9 @@ type Seller = Tables<"sellers"> & {
 };
 
 type Profile = Tables<"profiles">;
+type SellerGroup = Tables<"seller_groups">;
+type PriceTier = Tables<"seller_price_tiers">;
+type DeliverySurcharge = Tables<"seller_delivery_surcharges">;
 
 export default function Purchase() {
   const { sellerId } = useParams();
@@ -40,6 +50,17 @@ export default function Purchase() {
   const [submitting, setSubmitting] = useState(false);
   const [amount, setAmount] = useState("");
   const [deliveryMethod, setDeliveryMethod] = useState<"gamepass" | "donation" | "group_payout">("gamepass");
+  const [gamepassUrl, setGamepassUrl] = useState("");
+  const [placeUrl, setPlaceUrl] = useState("");
+  const [groups, setGroups] = useState<SellerGroup[]>([]);
+  const [tiers, setTiers] = useState<PriceTier[]>([]);
+  const [surcharges, setSurcharges] = useState<DeliverySurcharge[]>([]);
+  const [couponCode, setCouponCode] = useState("");
+  const [appliedCoupon, setAppliedCoupon] = useState<{ code: string; discount: number } | null>(null);
+  const [applyingCoupon, setApplyingCoupon] = useState(false);
+  const [groupId, setGroupId] = useState("");
+  const [alreadyMember, setAlreadyMember] = useState(false);
+  const [joinedDate, setJoinedDate] = useState("");
   const navigate = useNavigate();
   const { toast } = useToast();
 
@@ -101,6 +122,33 @@ export default function Purchase() {
       }
 
       setSeller(sellerData as Seller);
+
+      // Fetch groups available for group payouts
+      const { data: groupsData } = await supabase
+        .from("seller_groups")
+        .select("*")
+        .eq("seller_id", sellerData.id)
+        .eq("is_active", true)
+        .order("created_at", { ascending: true });
+
+      setGroups(groupsData || []);
+      if (groupsData?.length) setGroupId(groupsData[0].id);
+
+      // Fetch pricing rules (the same ones place_order applies)
+      const [{ data: tiersData }, { data: surchargesData }] = await Promise.all([
+        supabase
+          .from("seller_price_tiers")
+          .select("*")
+          .eq("seller_id", sellerData.id)
+          .order("min_amount", { ascending: true }),
+        supabase
+          .from("seller_delivery_surcharges")
+          .select("*")
+          .eq("seller_id", sellerData.id),
+      ]);
+
+      setTiers(tiersData || []);
+      setSurcharges(surchargesData || []);
     } catch (error: any) {
       console.error("Error fetching data:", error);
     } finally {
@@ -108,26 +156,125 @@ export default function Purchase() {
     }
   };
 
+  // Date inputs are interpreted as local midnight
+  const joinedAt = (date: string) => new Date(`${date}T00:00:00`);
+
+  const calculateBreakdown = () => {
+    if (!seller || !amount) return null;
+    return calculateOrderTotal(seller.price_per_1k, tiers, surcharges, parseInt(amount), deliveryMethod);
+  };
+
   const calculateTotal = () => {
-    if (!seller || !amount) return 0;
+    const subtotal = calculateBreakdown()?.total ?? 0;
+    return appliedCoupon ? Math.max(subtotal - appliedCoupon.discount, 0) : subtotal;
+  };
+
+  // The discount depends on the order value, so it has to be checked again
+  useEffect(() => {
+    setAppliedCoupon(null);
+  }, [amount, deliveryMethod]);
+
+  const handleApplyCoupon = async () => {
+    if (!seller || !couponCode.trim()) return;
+
     const robuxAmount = parseInt(amount);
-    return (robuxAmount / 1000) * Number(seller.price_per_1k);
+    if (isNaN(robuxAmount)) {
+      toast({
+        title: "Informe a quantidade",
+        description: "Escolha a quantidade de Robux antes de aplicar o cupom",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    try {
+      setApplyingCoupon(true);
+      const { data: discount, error } = await supabase.rpc("preview_coupon", {
+        _code: couponCode.trim(),
+        _seller_id: seller.id,
+        _amount: robuxAmount,
+        _delivery_method: deliveryMethod,
+      });
+
+      if (error) throw error;
+
+      setAppliedCoupon({ code: couponCode.trim().toUpperCase(), discount: Number(discount) });
+    } catch (error: unknown) {
+      setAppliedCoupon(null);
+      toast({
+        title: "Cupom não aplicado",
+        description: error instanceof Error ? error.message : "Cupom inválido",
+        variant: "destructive",
+      });
+    } finally {
+      setApplyingCoupon(false);
+    }
   };
 
   const handlePurchase = async () => {
     if (!seller || !user || !profile) return;
 
+    if (!profile.roblox_verified_at) {
+      toast({
+        title: "Conta Roblox não verificada",
+        description: "Vincule e verifique sua conta Roblox no painel antes de comprar",
+        variant: "destructive",
+      });
+      return;
+    }
+
     const robuxAmount = parseInt(amount);
+    const maxAmount = Math.min(seller.max_amount, seller.stock);
     
-    if (isNaN(robuxAmount) || robuxAmount < seller.min_amount || robuxAmount > seller.max_amount) {
+    if (isNaN(robuxAmount) || robuxAmount < seller.min_amount || robuxAmount > maxAmount) {
       toast({
         title: "Quantidade inválida",
-        description: `A quantidade deve estar entre ${seller.min_amount.toLocaleString()} e ${seller.max_amount.toLocaleString()} Robux`,
+        description: `A quantidade deve estar entre ${seller.min_amount.toLocaleString()} e ${maxAmount.toLocaleString()} Robux`,
         variant: "destructive",
       });
       return;
     }
 
+    if (deliveryMethod === "gamepass") {
+      if (!GAMEPASS_URL_PATTERN.test(gamepassUrl.trim())) {
+        toast({
+          title: "Link do gamepass inválido",
+          description: "Use o link da página do gamepass (https://www.roblox.com/game-pass/...)",
+          variant: "destructive",
+        });
+        return;
+      }
+
+      if (placeUrl.trim() && !PLACE_URL_PATTERN.test(placeUrl.trim())) {
+        toast({
+          title: "Link do jogo inválido",
+          description: "Use o link da página do jogo (https://www.roblox.com/games/...)",
+          variant: "destructive",
+        });
+        return;
+      }
+    }
+
+    if (deliveryMethod === "group_payout") {
+      if (!groupId) {
+        toast({
+          title: "Grupo obrigatório",
+          description: "Escolha o grupo pelo qual deseja receber",
+          variant: "destructive",
+        });
+        return;
+      }
+
+      if (alreadyMember && (!joinedDate || joinedAt(joinedDate) > new Date())) {
+        toast({
+          title: "Data inválida",
+          description: "Informe quando você entrou no grupo",
+          variant: "destructive",
+        });
+        return;
+      }
+    }
+
     const totalPrice = calculateTotal();
 
     if (Number(profile.balance) < totalPrice) {
@@ -142,41 +289,28 @@ export default function Purchase() {
     try {
       setSubmitting(true);
 
-      // Create order
+      // Place order (price, limits and the escrow debit are handled server-side)
       const { data: order, error: orderError } = await supabase
-        .from("orders")
-        .insert({
-          buyer_id: user.id,
-          seller_id: seller.id,
-          amount: robuxAmount,
-          total_price: totalPrice,
-          delivery_method: deliveryMethod,
-        })
-        .select()
-        .single();
+        .rpc("place_order", {
+          _seller_id: seller.id,
+          _amount: robuxAmount,
+          _delivery_method: deliveryMethod,
+          _delivery_details: deliveryMethod === "gamepass"
+            ? { gamepass_url: gamepassUrl.trim(), place_url: placeUrl.trim() }
+            : deliveryMethod === "group_payout"
+              ? {
+                  seller_group_id: groupId,
+                  joined_at: alreadyMember ? joinedAt(joinedDate).toISOString() : null,
+                }
+              : {},
+          _coupon_code: appliedCoupon?.code ?? null,
+        });
 
       if (orderError) throw orderError;
 
-      // Deduct balance
-      const { error: balanceError } = await supabase
-        .from("profiles")
-        .update({ balance: Number(profile.balance) - totalPrice })
-        .eq("id", user.id);
-
-      if (balanceError) throw balanceError;
-
-      // Create transaction record
-      await supabase.from("transactions").insert({
-        user_id: user.id,
-        order_id: order.id,
-        type: "purchase",
-        amount: -totalPrice,
-        description: `Compra de ${robuxAmount.toLocaleString()} Robux`,
-      });
-
       toast({
         title: "Pedido criado!",
-        description: "Aguarde o vendedor processar seu pedido",
+        description: "O valor fica retido em garantia até a entrega",
       });
 
       navigate(`/order/${order.id}`);
@@ -204,9 +338,13 @@ export default function Purchase() {
 
   if (!seller) return null;
 
+  const breakdown = calculateBreakdown();
   const totalPrice = calculateTotal();
-  const isValidAmount = amount && parseInt(amount) >= seller.min_amount && parseInt(amount) <= seller.max_amount;
+  // Orders can never exceed what the seller has in stock
+  const maxAmount = Math.min(seller.max_amount, seller.stock);
+  const isValidAmount = amount && parseInt(amount) >= seller.min_amount && parseInt(amount) <= maxAmount;
   const hasEnoughBalance = profile && Number(profile.balance) >= totalPrice;
+  const robloxVerified = !!profile?.roblox_verified_at;
 
   return (
     <div className="min-h-screen bg-background">
@@ -254,6 +392,12 @@ export default function Purchase() {
                 <span className="text-muted-foreground">Preço por 1K</span>
                 <span className="font-bold text-primary">R$ {Number(seller.price_per_1k).toFixed(2)}</span>
               </div>
+              {tiers.map((tier) => (
+                <div key={tier.id} className="flex justify-between items-center p-3 rounded-lg bg-background/50">
+                  <span className="text-muted-foreground">{tier.min_amount.toLocaleString()}+ Robux</span>
+                  <span className="font-bold text-primary">R$ {Number(tier.price_per_1k).toFixed(2)}</span>
+                </div>
+              ))}
               <div className="flex justify-between items-center p-3 rounded-lg bg-background/50">
                 <span className="text-muted-foreground">Mínimo</span>
                 <span className="font-semibold">{seller.min_amount.toLocaleString()} R$</span>
@@ -262,6 +406,10 @@ export default function Purchase() {
                 <span className="text-muted-foreground">Máximo</span>
                 <span className="font-semibold">{seller.max_amount.toLocaleString()} R$</span>
               </div>
+              <div className="flex justify-between items-center p-3 rounded-lg bg-background/50">
+                <span className="text-muted-foreground">Estoque</span>
+                <span className="font-semibold">{seller.stock.toLocaleString()} R$</span>
+              </div>
               <div className="flex justify-between items-center p-3 rounded-lg bg-background/50">
                 <span className="text-muted-foreground">Vendas</span>
                 <span className="font-semibold flex items-center gap-1">
@@ -289,14 +437,14 @@ export default function Purchase() {
                   <Input
                     id="amount"
                     type="number"
-                    placeholder={`${seller.min_amount.toLocaleString()} - ${seller.max_amount.toLocaleString()}`}
+                    placeholder={`${seller.min_amount.toLocaleString()} - ${maxAmount.toLocaleString()}`}
                     value={amount}
                     onChange={(e) => setAmount(e.target.value)}
                     className="pl-10 bg-background/50"
                   />
                 </div>
                 <p className="text-xs text-muted-foreground">
-                  Mínimo: {seller.min_amount.toLocaleString()} | Máximo: {seller.max_amount.toLocaleString()}
+                  Mínimo: {seller.min_amount.toLocaleString()} | Máximo: {maxAmount.toLocaleString()}
                 </p>
               </div>
 
@@ -333,19 +481,132 @@ export default function Purchase() {
                   </div>
 
                   <div className="relative">
-                    <RadioGroupItem value="group_payout" id="group_payout" className="peer sr-only" />
+                    <RadioGroupItem value="group_payout" id="group_payout" className="peer sr-only" disabled={groups.length === 0} />
                     <Label
                       htmlFor="group_payout"
                       className="flex flex-col items-center justify-center p-4 rounded-lg border-2 border-border bg-background/50 cursor-pointer hover:border-primary/50 peer-data-[state=checked]:border-primary peer-data-[state=checked]:bg-primary/10 transition-colors"
                     >
                       <Users className="w-8 h-8 mb-2 text-green-500" />
                       <span className="font-medium">Group Payout</span>
-                      <span className="text-xs text-muted-foreground">Via grupo</span>
+                      <span className="text-xs text-muted-foreground">
+                        {groups.length === 0 ? "Indisponível" : "Via grupo"}
+                      </span>
                     </Label>
                   </div>
                 </RadioGroup>
               </div>
 
+              {/* Gamepass Details */}
+              {deliveryMethod === "gamepass" && (
+                <div className="space-y-4">
+                  {isValidAmount && (
+                    <GamepassInstructions amount={parseInt(amount)} audience="buyer" />
+                  )}
+                  <div className="space-y-2">
+                    <Label htmlFor="gamepass-url">Link do gamepass</Label>
+                    <Input
+                      id="gamepass-url"
+                      placeholder="https://www.roblox.com/game-pass/..."
+                      value={gamepassUrl}
+                      onChange={(e) => setGamepassUrl(e.target.value)}
+                      className="bg-background/50"
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="place-url">Link do jogo (opcional)</Label>
+                    <Input
+                      id="place-url"
+                      placeholder="https://www.roblox.com/games/..."
+                      value={placeUrl}
+                      onChange={(e) => setPlaceUrl(e.target.value)}
+                      className="bg-background/50"
+                    />
+                  </div>
+                </div>
+              )}
+
+              {/* Group Payout Details */}
+              {deliveryMethod === "group_payout" && groups.length > 0 && (
+                <div className="space-y-4">
+                  <div className="p-3 rounded-lg bg-green-500/10 border border-green-500/20 text-xs text-muted-foreground">
+                    Entre no grupo escolhido. O Roblox só permite pagamentos de grupo para membros com
+                    pelo menos {GROUP_PAYOUT_WAIT_DAYS} dias no grupo, então a entrega acontece após esse prazo.
+                  </div>
+                  <div className="space-y-2">
+                    <Label>Grupo</Label>
+                    <RadioGroup value={groupId} onValueChange={setGroupId} className="space-y-2">
+                      {groups.map((group) => (
+                        <div key={group.id} className="flex items-center gap-3 p-3 rounded-lg bg-background/50">
+                          <RadioGroupItem value={group.id} id={`group-${group.id}`} />
+                          <Label htmlFor={`group-${group.id}`} className="flex-1 cursor-pointer">
+                            {group.name}
+                          </Label>
+                          <a
+                            href={robloxGroupUrl(group.roblox_group_id)}
+                            target="_blank"
+                            rel="noopener noreferrer"
+                            className="flex items-center gap-1 text-xs text-primary hover:underline"
+                          >
+                            Abrir grupo
+                            <ExternalLink className="w-3 h-3" />
+                          </a>
+                        </div>
+                      ))}
+                    </RadioGroup>
+                  </div>
+                  <div className="flex items-center gap-2">
+                    <Checkbox
+                      id="already-member"
+                      checked={alreadyMember}
+                      onCheckedChange={(checked) => setAlreadyMember(checked === true)}
+                    />
+                    <Label htmlFor="already-member">Já sou membro deste grupo</Label>
+                  </div>
+                  {alreadyMember && (
+                    <div className="space-y-2">
+                      <Label htmlFor="joined-date">Entrei no grupo em</Label>
+                      <Input
+                        id="joined-date"
+                        type="date"
+                        value={joinedDate}
+                        onChange={(e) => setJoinedDate(e.target.value)}
+                        className="bg-background/50"
+                      />
+                      {joinedDate && (
+                        <p className="text-xs text-muted-foreground">
+                          Pagamento liberado a partir de{" "}
+                          {eligibilityDate(joinedAt(joinedDate)).toLocaleDateString("pt-BR")}
+                        </p>
+                      )}
+                    </div>
+                  )}
+                </div>
+              )}
+
+              {/* Coupon */}
+              <div className="space-y-2">
+                <Label htmlFor="coupon-code">Cupom de desconto</Label>
+                <div className="flex gap-2">
+                  <div className="relative flex-1">
+                    <Ticket className="absolute left-3 top-1/2 transform -translate-y-1/2 text-muted-foreground w-4 h-4" />
+                    <Input
+                      id="coupon-code"
+                      placeholder="CÓDIGO"
+                      value={couponCode}
+                      onChange={(e) => {
+                        setCouponCode(e.target.value.toUpperCase());
+                        setAppliedCoupon(null);
+                      }}
+                      className="pl-10 bg-background/50 uppercase"
+                    />
+                  </div>
+                  <Button variant="outline" onClick={handleApplyCoupon} disabled={applyingCoupon || !couponCode.trim()}>
+                    {applyingCoupon && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+                    Aplicar
+                  </Button>
+                </div>
+              </div>
+
               {/* Summary */}
               <Card className="bg-gradient-to-br from-primary/10 to-accent/10 border-primary/20">
                 <CardContent className="p-6">
@@ -355,12 +616,43 @@ export default function Purchase() {
                       R$ {Number(profile?.balance || 0).toFixed(2)}
                     </span>
                   </div>
+                  <div className="flex justify-between items-center mb-4">
+                    <span className="text-muted-foreground">Conta Roblox</span>
+                    <span className={`font-semibold ${!robloxVerified ? 'text-destructive' : ''}`}>
+                      {robloxVerified ? profile?.roblox_username : "Não verificada"}
+                    </span>
+                  </div>
                   <div className="flex justify-between items-center mb-4">
                     <span className="text-muted-foreground">Quantidade</span>
                     <span className="font-semibold">
                       {amount ? parseInt(amount).toLocaleString() : 0} Robux
                     </span>
                   </div>
+                  {breakdown && isValidAmount && (
+                    <>
+                      <div className="flex justify-between items-center mb-4">
+                        <span className="text-muted-foreground">
+                          Preço por 1K
+                          {breakdown.tier && (
+                            <span className="text-xs"> (faixa {breakdown.tier.min_amount.toLocaleString()}+)</span>
+                          )}
+                        </span>
+                        <span className="font-semibold">R$ {breakdown.pricePer1k.toFixed(2)}</span>
+                      </div>
+                      {breakdown.surchargePer1k > 0 && (
+                        <div className="flex justify-between items-center mb-4">
+                          <span className="text-muted-foreground">Taxa de entrega por 1K</span>
+                          <span className="font-semibold">+ R$ {breakdown.surchargePer1k.toFixed(2)}</span>
+                        </div>
+                      )}
+                    </>
+                  )}
+                  {appliedCoupon && (
+                    <div className="flex justify-between items-center mb-4">
+                      <span className="text-muted-foreground">Cupom {appliedCoupon.code}</span>
+                      <span className="font-semibold text-green-500">- R$ {appliedCoupon.discount.toFixed(2)}</span>
+                    </div>
+                  )}
                   <div className="border-t border-border pt-4">
                     <div className="flex justify-between items-center">
                       <span className="text-lg font-semibold">Total</span>
@@ -376,13 +668,29 @@ export default function Purchase() {
               <Button
                 className="w-full bg-gradient-to-r from-primary to-accent hover:opacity-90 transition-opacity"
                 size="lg"
-                disabled={!isValidAmount || !hasEnoughBalance || submitting}
+                disabled={!seller.is_online || !isValidAmount || !hasEnoughBalance || !robloxVerified || submitting}
                 onClick={handlePurchase}
               >
                 {submitting && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
                 {!hasEnoughBalance && amount ? "Saldo Insuficiente" : "Confirmar Compra"}
               </Button>
 
+              {!seller.is_online && (
+                <p className="text-center text-sm text-destructive">
+                  Este vendedor está offline no momento
+                </p>
+              )}
+
+              {!robloxVerified && (
+                <p className="text-center text-sm text-destructive">
+                  Vincule sua conta Roblox no{" "}
+                  <button className="underline" onClick={() => navigate("/dashboard")}>
+                    painel
+                  </button>{" "}
+                  para continuar com a compra
+                </p>
+              )}
+
               {!hasEnoughBalance && amount && (
                 <p className="text-center text-sm text-destructive">
                   Adicione saldo para continuar com a compra
@@ -11,6 +11,16 @@ import { Badge } from "@/components/ui/badge";
 import { Switch } from "@/components/ui/switch";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { WithdrawModal } from "@/components/WithdrawModal";
+import { RefundOrderModal } from "@/components/RefundOrderModal";
+import { DeliveryProofModal } from "@/components/DeliveryProofModal";
+import { GamepassInstructions } from "@/components/GamepassInstructions";
+import { GroupPayoutInstructions } from "@/components/GroupPayoutInstructions";
+import { SellerGroupsCard } from "@/components/SellerGroupsCard";
+import { PixKeysCard } from "@/components/PixKeysCard";
+import { SellerPricingCard } from "@/components/SellerPricingCard";
+import { GamepassDeliveryDetails } from "@/lib/gamepass";
+import { GroupPayoutDeliveryDetails } from "@/lib/groups";
+import { robloxProfileUrl } from "@/lib/roblox";
 import { 
   DollarSign, 
   Package, 
@@ -21,11 +31,15 @@ import {
   CheckCircle,
   Loader2,
   RefreshCw,
-  Banknote
+  Banknote,
+  XCircle,
+  ExternalLink
 } from "lucide-react";
 import { Tables } from "@/integrations/supabase/types";
 
 type Seller = Tables<"sellers">;
+type Escrow = Tables<"escrows">;
+type PendingFund = Tables<"pending_funds">;
 type Order = Tables<"orders"> & {
   profiles: {
     username: string;
@@ -41,20 +55,41 @@ export default function SellerPanel() {
   const [pricePerK, setPricePerK] = useState("");
   const [minAmount, setMinAmount] = useState("");
   const [maxAmount, setMaxAmount] = useState("");
+  const [stock, setStock] = useState("");
   const [isOnline, setIsOnline] = useState(false);
   const [showWithdraw, setShowWithdraw] = useState(false);
+  const [cancellingOrder, setCancellingOrder] = useState<Order | null>(null);
+  const [deliveringOrderId, setDeliveringOrderId] = useState<string | null>(null);
   const [balance, setBalance] = useState(0);
+  const [pendingFunds, setPendingFunds] = useState<PendingFund[]>([]);
+  const [escrows, setEscrows] = useState<Escrow[]>([]);
+  const [commissionRate, setCommissionRate] = useState<number | null>(null);
   const navigate = useNavigate();
   const { toast } = useToast();
 
+  // Balance plus the sale proceeds that have not matured yet
+  const fetchFunds = async (userId: string) => {
+    const [{ data: profileData }, { data: pendingData }] = await Promise.all([
+      supabase
+        .from("profiles")
+        .select("balance")
+        .eq("id", userId)
+        .single(),
+      supabase
+        .from("pending_funds")
+        .select("*")
+        .eq("user_id", userId)
+        .gt("available_at", new Date().toISOString())
+        .order("available_at", { ascending: true }),
+    ]);
+
+    if (profileData) setBalance(Number(profileData.balance));
+    setPendingFunds(pendingData || []);
+  };
+
   const refreshBalance = async () => {
     if (!user?.id) return;
-    const { data } = await supabase
-      .from("profiles")
-      .select("balance")
-      .eq("id", user.id)
-      .single();
-    if (data) setBalance(Number(data.balance));
+    await fetchFunds(user.id);
   };
 
   useEffect(() => {
@@ -103,15 +138,10 @@ export default function SellerPanel() {
       setPricePerK(sellerData.price_per_1k.toString());
       setMinAmount(sellerData.min_amount.toString());
       setMaxAmount(sellerData.max_amount.toString());
+      setStock(sellerData.stock.toString());
       setIsOnline(sellerData.is_online);
 
-      // Fetch user balance
-      const { data: profileData } = await supabase
-        .from("profiles")
-        .select("balance")
-        .eq("id", userId)
-        .single();
-      if (profileData) setBalance(Number(profileData.balance));
+      await fetchFunds(userId);
 
       // Fetch orders for this seller
       const { data: ordersData } = await supabase
@@ -126,6 +156,24 @@ export default function SellerPanel() {
         .order("created_at", { ascending: false });
 
       setOrders((ordersData as Order[]) || []);
+
+      // Settled escrows and the commission currently applied to this seller
+      const [{ data: escrowsData }, { data: overrideData }, { data: settingsData }] = await Promise.all([
+        supabase
+          .from("escrows")
+          .select("*")
+          .eq("seller_id", sellerData.id)
+          .in("status", ["released", "refunded"]),
+        supabase
+          .from("seller_commissions")
+          .select("commission_rate")
+          .eq("seller_id", sellerData.id)
+          .maybeSingle(),
+        supabase.from("platform_settings").select("sales_commission_rate").single(),
+      ]);
+
+      setEscrows(escrowsData || []);
+      setCommissionRate(Number(overrideData?.commission_rate ?? settingsData?.sales_commission_rate ?? 0));
     } catch (error: any) {
       console.error("Error fetching seller data:", error);
     } finally {
@@ -139,18 +187,34 @@ export default function SellerPanel() {
     try {
       setSaving(true);
 
-      const { error } = await supabase
+      const { data: updated, error } = await supabase
         .from("sellers")
         .update({
           price_per_1k: parseFloat(pricePerK),
           min_amount: parseInt(minAmount),
           max_amount: parseInt(maxAmount),
+          stock: parseInt(stock),
           is_online: isOnline,
         })
-        .eq("id", seller.id);
+        .eq("id", seller.id)
+        .select()
+        .single();
 
       if (error) throw error;
 
+      setSeller(updated);
+      setIsOnline(updated.is_online);
+
+      // The database forces sellers offline when stock can't cover a minimum order
+      if (isOnline && !updated.is_online) {
+        toast({
+          title: "Você está offline",
+          description: "Seu estoque está abaixo da quantidade mínima por pedido",
+          variant: "destructive",
+        });
+        return;
+      }
+
       toast({
         title: "Configurações salvas!",
         description: "Suas alterações foram aplicadas",
@@ -203,6 +267,7 @@ export default function SellerPanel() {
       processing: { variant: "default", label: "Processando" },
       completed: { variant: "outline", label: "Concluído" },
       cancelled: { variant: "destructive", label: "Cancelado" },
+      delivered: { variant: "default", label: "Entregue" },
       disputed: { variant: "destructive", label: "Disputado" },
     };
     const config = statusConfig[status] || statusConfig.pending;
@@ -222,8 +287,17 @@ export default function SellerPanel() {
 
   const pendingOrders = orders.filter(o => o.status === "pending");
   const processingOrders = orders.filter(o => o.status === "processing");
-  const completedOrders = orders.filter(o => o.status === "completed");
-  const totalEarnings = completedOrders.reduce((acc, o) => acc + Number(o.total_price), 0);
+  // Gross is what the seller's sales brought into escrow; net is after commission
+  const grossEarnings = escrows.reduce((acc, e) => {
+    const buyerPaid = Number(e.amount) - Number(e.platform_funded);
+    if (e.status === "refunded" && Number(e.refunded_amount) >= buyerPaid) return acc;
+    return acc + Number(e.amount) - Number(e.refunded_amount);
+  }, 0);
+  const totalCommission = escrows.reduce((acc, e) => acc + Number(e.commission_amount ?? 0), 0);
+  const netEarnings = grossEarnings - totalCommission;
+  const pendingTotal = pendingFunds.reduce((acc, f) => acc + Number(f.amount), 0);
+  // Mirrors public.available_balance
+  const availableBalance = Math.max(balance - pendingTotal, 0);
 
   return (
     <div className="min-h-screen bg-background">
@@ -241,15 +315,37 @@ export default function SellerPanel() {
         </div>
 
         {/* Stats Grid */}
-        <div className="grid grid-cols-1 md:grid-cols-4 gap-4 mb-8">
+        <div className="grid grid-cols-1 md:grid-cols-3 lg:grid-cols-5 gap-4 mb-8">
+          <Card className="bg-card/50">
+            <CardHeader className="pb-2">
+              <CardDescription>Vendas Brutas</CardDescription>
+              <CardTitle className="text-2xl flex items-center gap-2">
+                <DollarSign className="w-5 h-5 text-muted-foreground" />
+                R$ {grossEarnings.toFixed(2)}
+              </CardTitle>
+            </CardHeader>
+            <CardContent>
+              <p className="text-xs text-muted-foreground">
+                Comissão paga: R$ {totalCommission.toFixed(2)}
+              </p>
+            </CardContent>
+          </Card>
+
           <Card className="bg-gradient-to-br from-primary/20 to-primary/5 border-primary/20">
             <CardHeader className="pb-2">
-              <CardDescription>Total Ganho</CardDescription>
+              <CardDescription>Ganho Líquido</CardDescription>
               <CardTitle className="text-2xl flex items-center gap-2">
                 <DollarSign className="w-5 h-5 text-primary" />
-                R$ {totalEarnings.toFixed(2)}
+                R$ {netEarnings.toFixed(2)}
               </CardTitle>
             </CardHeader>
+            {commissionRate !== null && (
+              <CardContent>
+                <p className="text-xs text-muted-foreground">
+                  Comissão atual: {(commissionRate * 100).toLocaleString("pt-BR")}%
+                </p>
+              </CardContent>
+            )}
           </Card>
 
           <Card className="bg-card/50">
@@ -313,9 +409,38 @@ export default function SellerPanel() {
                         <p className="text-sm text-muted-foreground">
                           Comprador: {order.profiles?.username || "N/A"}
                         </p>
+                        {order.buyer_roblox_user_id && (
+                          <a
+                            href={robloxProfileUrl(order.buyer_roblox_user_id)}
+                            target="_blank"
+                            rel="noopener noreferrer"
+                            className="flex items-center gap-1 text-sm text-primary hover:underline"
+                          >
+                            Roblox: {order.buyer_roblox_username}
+                            <ExternalLink className="w-3 h-3" />
+                          </a>
+                        )}
                         <p className="text-sm text-muted-foreground">
                           Método: {order.delivery_method}
                         </p>
+                        {order.delivery_method === "gamepass" && !["completed", "cancelled"].includes(order.status) && (
+                          <div className="my-2 max-w-md">
+                            <GamepassInstructions
+                              amount={order.amount}
+                              details={order.delivery_details as GamepassDeliveryDetails}
+                              audience="seller"
+                            />
+                          </div>
+                        )}
+                        {order.delivery_method === "group_payout" && !["completed", "cancelled"].includes(order.status) && (
+                          <div className="my-2 max-w-md">
+                            <GroupPayoutInstructions
+                              orderId={order.id}
+                              details={order.delivery_details as GroupPayoutDeliveryDetails}
+                              audience="seller"
+                            />
+                          </div>
+                        )}
                         <p className="text-sm text-muted-foreground">
                           {new Date(order.created_at).toLocaleDateString("pt-BR")}
                         </p>
@@ -337,10 +462,20 @@ export default function SellerPanel() {
                           {order.status === "processing" && (
                             <Button 
                               size="sm" 
-                              onClick={() => handleUpdateOrderStatus(order.id, "completed")}
+                              onClick={() => setDeliveringOrderId(order.id)}
                             >
                               <CheckCircle className="w-4 h-4 mr-1" />
-                              Concluir
+                              Marcar Entregue
+                            </Button>
+                          )}
+                          {(order.status === "pending" || order.status === "processing") && (
+                            <Button 
+                              size="sm" 
+                              variant="destructive"
+                              onClick={() => setCancellingOrder(order)}
+                            >
+                              <XCircle className="w-4 h-4 mr-1" />
+                              Cancelar
                             </Button>
                           )}
                           <Button 
@@ -384,7 +519,7 @@ export default function SellerPanel() {
                   />
                 </div>
 
-                <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
                   <div className="space-y-2">
                     <Label htmlFor="price">Preço por 1K Robux (R$)</Label>
                     <Input
@@ -416,6 +551,22 @@ export default function SellerPanel() {
                       className="bg-background/50"
                     />
                   </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="stock">Estoque Disponível</Label>
+                    <Input
+                      id="stock"
+                      type="number"
+                      min="0"
+                      value={stock}
+                      onChange={(e) => setStock(e.target.value)}
+                      className="bg-background/50"
+                    />
+                    {!!seller?.reserved_stock && (
+                      <p className="text-xs text-muted-foreground">
+                        {seller.reserved_stock.toLocaleString()} Robux reservados em pedidos abertos
+                      </p>
+                    )}
+                  </div>
                 </div>
 
                 <Button 
@@ -428,6 +579,10 @@ export default function SellerPanel() {
                 </Button>
               </CardContent>
             </Card>
+
+            {seller && <SellerPricingCard sellerId={seller.id} basePricePer1k={seller.price_per_1k} />}
+
+            {seller && <SellerGroupsCard sellerId={seller.id} />}
           </TabsContent>
 
           <TabsContent value="withdrawals">
@@ -441,37 +596,89 @@ export default function SellerPanel() {
                   Retire seus ganhos para sua conta bancária via PIX
                 </CardDescription>
               </CardHeader>
-              <CardContent className="text-center py-8">
-                <Banknote className="w-12 h-12 mx-auto mb-4 text-primary" />
-                <p className="text-2xl font-bold text-primary mb-2">
-                  R$ {balance.toFixed(2)}
-                </p>
-                <p className="text-sm text-muted-foreground mb-6">
-                  Saldo disponível para saque
-                </p>
-                <Button 
-                  onClick={() => setShowWithdraw(true)}
-                  disabled={balance < 10}
-                >
-                  <Banknote className="w-4 h-4 mr-2" />
-                  Solicitar Saque
-                </Button>
-                {balance < 10 && (
-                  <p className="text-xs text-muted-foreground mt-2">
-                    Saldo mínimo para saque: R$ 10,00
-                  </p>
-                )}
+              <CardContent className="py-8">
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+                  <div className="text-center">
+                    <Banknote className="w-12 h-12 mx-auto mb-4 text-primary" />
+                    <p className="text-2xl font-bold text-primary mb-2">
+                      R$ {availableBalance.toFixed(2)}
+                    </p>
+                    <p className="text-sm text-muted-foreground mb-6">
+                      Saldo disponível para saque
+                    </p>
+                    <Button 
+                      onClick={() => setShowWithdraw(true)}
+                      disabled={availableBalance < 10}
+                    >
+                      <Banknote className="w-4 h-4 mr-2" />
+                      Solicitar Saque
+                    </Button>
+                    {availableBalance < 10 && (
+                      <p className="text-xs text-muted-foreground mt-2">
+                        Saldo mínimo para saque: R$ 10,00
+                      </p>
+                    )}
+                  </div>
+
+                  <div className="text-center">
+                    <Clock className="w-12 h-12 mx-auto mb-4 text-muted-foreground" />
+                    <p className="text-2xl font-bold mb-2">
+                      R$ {pendingTotal.toFixed(2)}
+                    </p>
+                    <p className="text-sm text-muted-foreground mb-4">
+                      A liberar (vendas recentes)
+                    </p>
+                    {pendingFunds.length > 0 && (
+                      <div className="space-y-1 text-sm max-w-xs mx-auto">
+                        {pendingFunds.map((fund) => (
+                          <div key={fund.id} className="flex justify-between gap-4">
+                            <span>R$ {Number(fund.amount).toFixed(2)}</span>
+                            <span className="text-muted-foreground">
+                              libera em {new Date(fund.available_at).toLocaleString("pt-BR")}
+                            </span>
+                          </div>
+                        ))}
+                      </div>
+                    )}
+                  </div>
+                </div>
               </CardContent>
             </Card>
+
+            {seller && <PixKeysCard sellerId={seller.id} />}
           </TabsContent>
         </Tabs>
       </div>
 
-      <WithdrawModal
-        open={showWithdraw}
-        onOpenChange={setShowWithdraw}
-        onSuccess={refreshBalance}
-        maxAmount={balance}
+      {seller && (
+        <WithdrawModal
+          open={showWithdraw}
+          onOpenChange={setShowWithdraw}
+          onSuccess={refreshBalance}
+          maxAmount={availableBalance}
+          sellerId={seller.id}
+        />
+      )}
+
+      <DeliveryProofModal
+        open={!!deliveringOrderId}
+        onOpenChange={(open) => !open && setDeliveringOrderId(null)}
+        onSuccess={(orderId) => setOrders(orders.map(o =>
+          o.id === orderId ? { ...o, status: "delivered", proof_url: orderId } : o
+        ))}
+        orderId={deliveringOrderId}
+      />
+
+      <RefundOrderModal
+        open={!!cancellingOrder}
+        onOpenChange={(open) => !open && setCancellingOrder(null)}
+        onSuccess={(updated) => {
+          setOrders(orders.map(o =>
+            o.id === updated.id ? { ...o, status: updated.status } : o
+          ));
+          refreshBalance();
+        }}
+        order={cancellingOrder}
       />
     </div>
   );
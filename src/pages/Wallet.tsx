@@ -0,0 +1,406 @@
+import { useCallback, useEffect, useState } from "react";
+import { User } from "@supabase/supabase-js";
+import { Link, useNavigate } from "react-router-dom";
+import { Navbar } from "@/components/Navbar";
+import { supabase } from "@/integrations/supabase/client";
+import { useToast } from "@/hooks/use-toast";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Database, Tables } from "@/integrations/supabase/types";
+import {
+  dateFilterRange,
+  downloadCsv,
+  transactionTypeLabels,
+  WalletEntry,
+  walletEntriesToCsv,
+} from "@/lib/wallet";
+import { ChevronLeft, ChevronRight, Download, Loader2, Wallet as WalletIcon } from "lucide-react";
+
+type Withdrawal = Tables<"withdrawals">;
+type WithdrawalStatus = Database["public"]["Enums"]["withdrawal_status"];
+
+interface PixDetails {
+  pixKey?: string;
+  pixKeyType?: string;
+  originalAmount?: number;
+  adminFee?: number;
+}
+
+const withdrawalStatusLabels: Record<WithdrawalStatus, string> = {
+  pending: "Aguardando aprovação",
+  approved: "Transferência em andamento",
+  completed: "Concluído",
+  rejected: "Recusado",
+};
+
+const PAGE_SIZE = 20;
+const ALL_TYPES = "all";
+
+export default function Wallet() {
+  const [user, setUser] = useState<User | null>(null);
+  const [balance, setBalance] = useState<number | null>(null);
+  const [entries, setEntries] = useState<WalletEntry[]>([]);
+  const [totalCount, setTotalCount] = useState(0);
+  const [page, setPage] = useState(0);
+  const [typeFilter, setTypeFilter] = useState<string>(ALL_TYPES);
+  const [fromDate, setFromDate] = useState("");
+  const [toDate, setToDate] = useState("");
+  const [loading, setLoading] = useState(true);
+  const [exporting, setExporting] = useState(false);
+  const [withdrawal, setWithdrawal] = useState<Withdrawal | null>(null);
+  const navigate = useNavigate();
+  const { toast } = useToast();
+
+  useEffect(() => {
+    const { data: { subscription } } = supabase.auth.onAuthStateChange(
+      (event, session) => {
+        setUser(session?.user ?? null);
+        if (!session?.user) {
+          navigate("/auth");
+        }
+      }
+    );
+
+    supabase.auth.getSession().then(({ data: { session } }) => {
+      if (!session?.user) {
+        navigate("/auth");
+      } else {
+        setUser(session.user);
+      }
+    });
+
+    return () => subscription.unsubscribe();
+  }, [navigate]);
+
+  const getFilters = useCallback(
+    () => ({
+      _type: typeFilter === ALL_TYPES ? undefined : typeFilter,
+      ...dateFilterRange(fromDate, toDate),
+    }),
+    [typeFilter, fromDate, toDate]
+  );
+
+  const fetchHistory = useCallback(async () => {
+    if (!user?.id) return;
+
+    try {
+      setLoading(true);
+
+      const [historyRes, profileRes] = await Promise.all([
+        supabase.rpc("wallet_history", {
+          ...getFilters(),
+          _limit: PAGE_SIZE,
+          _offset: page * PAGE_SIZE,
+        }),
+        supabase.from("profiles").select("balance").eq("id", user.id).single(),
+      ]);
+
+      if (historyRes.error) throw historyRes.error;
+
+      setEntries(historyRes.data || []);
+      setTotalCount(Number(historyRes.data?.[0]?.total_count ?? 0));
+      setBalance(profileRes.data?.balance ?? null);
+    } catch (error: unknown) {
+      toast({
+        title: "Erro",
+        description: error instanceof Error ? error.message : "Erro ao carregar extrato",
+        variant: "destructive",
+      });
+    } finally {
+      setLoading(false);
+    }
+  }, [user?.id, getFilters, page, toast]);
+
+  useEffect(() => {
+    fetchHistory();
+  }, [fetchHistory]);
+
+  // Any filter change starts again from the first page
+  useEffect(() => {
+    setPage(0);
+  }, [typeFilter, fromDate, toDate]);
+
+  const handleExport = async () => {
+    try {
+      setExporting(true);
+
+      const { data, error } = await supabase.rpc("wallet_history", {
+        ...getFilters(),
+        _limit: totalCount,
+      });
+
+      if (error) throw error;
+
+      downloadCsv(
+        `extrato-${new Date().toISOString().slice(0, 10)}.csv`,
+        walletEntriesToCsv(data || [])
+      );
+    } catch (error: unknown) {
+      toast({
+        title: "Erro",
+        description: error instanceof Error ? error.message : "Erro ao exportar extrato",
+        variant: "destructive",
+      });
+    } finally {
+      setExporting(false);
+    }
+  };
+
+  const openWithdrawal = async (withdrawalId: string) => {
+    const { data, error } = await supabase
+      .from("withdrawals")
+      .select("*")
+      .eq("id", withdrawalId)
+      .single();
+
+    if (error) {
+      toast({
+        title: "Erro",
+        description: error.message,
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setWithdrawal(data);
+  };
+
+  const pageCount = Math.max(1, Math.ceil(totalCount / PAGE_SIZE));
+  const withdrawalDetails = (withdrawal?.payment_details ?? {}) as PixDetails;
+
+  return (
+    <div className="min-h-screen bg-background">
+      <Navbar user={user} />
+
+      <div className="container mx-auto px-4 pt-24 pb-12">
+        <div className="mb-8 flex flex-col md:flex-row md:items-end md:justify-between gap-4">
+          <div>
+            <h1 className="text-3xl font-bold mb-2">Carteira</h1>
+            <p className="text-muted-foreground">Todas as movimentações do seu saldo</p>
+          </div>
+          <Card className="bg-gradient-to-br from-primary/20 to-primary/5 border-primary/20 md:min-w-64">
+            <CardHeader className="pb-4">
+              <CardDescription>Saldo Atual</CardDescription>
+              <CardTitle className="text-2xl flex items-center gap-2">
+                <WalletIcon className="w-5 h-5 text-primary" />
+                R$ {balance !== null ? Number(balance).toFixed(2) : "0.00"}
+              </CardTitle>
+            </CardHeader>
+          </Card>
+        </div>
+
+        <Card className="bg-card/50">
+          <CardHeader>
+            <CardTitle>Extrato</CardTitle>
+            <CardDescription>O saldo de cada linha é o saldo logo após a movimentação</CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <div className="grid grid-cols-1 md:grid-cols-[200px_180px_180px_1fr] gap-4 items-end">
+              <div className="space-y-2">
+                <Label>Tipo</Label>
+                <Select value={typeFilter} onValueChange={setTypeFilter}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={ALL_TYPES}>Todos</SelectItem>
+                    {Object.entries(transactionTypeLabels).map(([value, label]) => (
+                      <SelectItem key={value} value={value}>
+                        {label}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="wallet-from">De</Label>
+                <Input
+                  id="wallet-from"
+                  type="date"
+                  value={fromDate}
+                  max={toDate || undefined}
+                  onChange={(e) => setFromDate(e.target.value)}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="wallet-to">Até</Label>
+                <Input
+                  id="wallet-to"
+                  type="date"
+                  value={toDate}
+                  min={fromDate || undefined}
+                  onChange={(e) => setToDate(e.target.value)}
+                />
+              </div>
+              <div className="flex md:justify-end">
+                <Button
+                  variant="outline"
+                  onClick={handleExport}
+                  disabled={exporting || totalCount === 0}
+                  className="gap-2"
+                >
+                  {exporting ? <Loader2 className="w-4 h-4 animate-spin" /> : <Download className="w-4 h-4" />}
+                  Exportar CSV
+                </Button>
+              </div>
+            </div>
+
+            {loading ? (
+              <div className="py-12 flex justify-center">
+                <Loader2 className="w-8 h-8 animate-spin text-primary" />
+              </div>
+            ) : entries.length === 0 ? (
+              <p className="py-12 text-center text-muted-foreground">Nenhuma movimentação encontrada</p>
+            ) : (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Data</TableHead>
+                    <TableHead>Tipo</TableHead>
+                    <TableHead>Descrição</TableHead>
+                    <TableHead className="text-right">Valor</TableHead>
+                    <TableHead className="text-right">Saldo</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {entries.map((entry) => (
+                    <TableRow key={entry.id}>
+                      <TableCell className="whitespace-nowrap">
+                        {new Date(entry.created_at).toLocaleString("pt-BR")}
+                      </TableCell>
+                      <TableCell>
+                        <Badge variant="secondary">{transactionTypeLabels[entry.type] ?? entry.type}</Badge>
+                      </TableCell>
+                      <TableCell>
+                        <p>{entry.description || "-"}</p>
+                        {entry.order_id && (
+                          <Link to={`/order/${entry.order_id}`} className="text-xs text-primary hover:underline">
+                            Ver pedido
+                          </Link>
+                        )}
+                        {entry.withdrawal_id && (
+                          <button
+                            type="button"
+                            onClick={() => openWithdrawal(entry.withdrawal_id)}
+                            className="text-xs text-primary hover:underline"
+                          >
+                            Ver saque
+                          </button>
+                        )}
+                      </TableCell>
+                      <TableCell
+                        className={`text-right font-semibold whitespace-nowrap ${
+                          Number(entry.amount) < 0 ? "text-destructive" : "text-primary"
+                        }`}
+                      >
+                        {Number(entry.amount) < 0 ? "-" : "+"} R$ {Math.abs(Number(entry.amount)).toFixed(2)}
+                      </TableCell>
+                      <TableCell className="text-right whitespace-nowrap">
+                        R$ {Number(entry.balance_after).toFixed(2)}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            )}
+
+            {totalCount > PAGE_SIZE && (
+              <div className="flex items-center justify-between">
+                <p className="text-sm text-muted-foreground">
+                  Página {page + 1} de {pageCount}
+                </p>
+                <div className="flex gap-2">
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => setPage(page - 1)}
+                    disabled={loading || page === 0}
+                    className="gap-1"
+                  >
+                    <ChevronLeft className="w-4 h-4" />
+                    Anterior
+                  </Button>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => setPage(page + 1)}
+                    disabled={loading || page + 1 >= pageCount}
+                    className="gap-1"
+                  >
+                    Próxima
+                    <ChevronRight className="w-4 h-4" />
+                  </Button>
+                </div>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+
+      <Dialog open={!!withdrawal} onOpenChange={(open) => !open && setWithdrawal(null)}>
+        <DialogContent className="sm:max-w-md">
+          <DialogHeader>
+            <DialogTitle>Detalhes do Saque</DialogTitle>
+            <DialogDescription>
+              {withdrawal && `Solicitado em ${new Date(withdrawal.created_at).toLocaleString("pt-BR")}`}
+            </DialogDescription>
+          </DialogHeader>
+          {withdrawal && (
+            <div className="space-y-3 text-sm">
+              <div className="flex justify-between">
+                <span className="text-muted-foreground">Status</span>
+                <Badge variant={withdrawal.status === "rejected" ? "destructive" : "secondary"}>
+                  {withdrawalStatusLabels[withdrawal.status]}
+                </Badge>
+              </div>
+              <div className="flex justify-between">
+                <span className="text-muted-foreground">Valor transferido</span>
+                <span className="font-semibold">R$ {Number(withdrawal.amount).toFixed(2)}</span>
+              </div>
+              {withdrawalDetails.adminFee !== undefined && (
+                <div className="flex justify-between">
+                  <span className="text-muted-foreground">Taxa</span>
+                  <span>R$ {Number(withdrawalDetails.adminFee).toFixed(2)}</span>
+                </div>
+              )}
+              {withdrawalDetails.pixKey && (
+                <div className="flex justify-between gap-4">
+                  <span className="text-muted-foreground">Chave PIX</span>
+                  <span className="font-mono text-xs break-all text-right">{withdrawalDetails.pixKey}</span>
+                </div>
+              )}
+              {withdrawal.processed_at && (
+                <div className="flex justify-between">
+                  <span className="text-muted-foreground">Finalizado em</span>
+                  <span>{new Date(withdrawal.processed_at).toLocaleString("pt-BR")}</span>
+                </div>
+              )}
+              {withdrawal.status === "rejected" && withdrawal.rejection_reason && (
+                <p className="text-muted-foreground">Motivo da recusa: {withdrawal.rejection_reason}</p>
+              )}
+            </div>
+          )}
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
@@ -0,0 +1,360 @@
+// Local stand-in for the Asaas API. Implements the endpoints the edge
+// functions call and a /__control API to drive charges and transfers through
+// their lifecycle and fire webhooks back at asaas-webhook.
+//
+//   deno run --allow-net --allow-env supabase/functions/_fake-asaas/server.ts
+//
+// Point the functions at it with ASAAS_BASE_URL=http://host.docker.internal:8787
+// (or http://localhost:8787 when serving functions outside Docker). The tests
+// in supabase/functions/tests start it in-process through createFakeAsaas.
+
+import { serve } from "https://deno.land/std@0.190.0/http/server.ts";
+
+export interface FakeAsaasConfig {
+  /** Base URL used in the invoice and boleto links it hands out */
+  publicUrl: string;
+  webhookUrl: string;
+  webhookToken: string;
+  /** When set, API calls must send it in the access_token header */
+  apiKey?: string;
+}
+
+interface Customer {
+  object: "customer";
+  id: string;
+  name: string;
+  email: string;
+  cpfCnpj: string | null;
+  externalReference: string | null;
+}
+
+interface Payment {
+  object: "payment";
+  id: string;
+  customer: string;
+  billingType: string;
+  value: number;
+  netValue: number;
+  status: string;
+  dueDate: string;
+  confirmedDate: string | null;
+  description: string | null;
+  externalReference: string | null;
+  invoiceUrl: string;
+  bankSlipUrl: string | null;
+}
+
+interface Transfer {
+  object: "transfer";
+  id: string;
+  value: number;
+  netValue: number;
+  status: string;
+  failReason: string | null;
+  pixAddressKey: string;
+  pixAddressKeyType: string;
+  description: string | null;
+  externalReference: string | null;
+  dateCreated: string;
+}
+
+const today = () => new Date().toISOString().split("T")[0];
+
+const json = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { "Content-Type": "application/json" },
+  });
+
+// Same error envelope Asaas uses
+const asaasError = (status: number, code: string, description: string) =>
+  json({ errors: [{ code, description }] }, status);
+
+/** Returns the request handler for a fresh fake Asaas with empty state */
+export function createFakeAsaas(config: FakeAsaasConfig) {
+  const state = {
+    customers: new Map<string, Customer>(),
+    payments: new Map<string, Payment>(),
+    transfers: new Map<string, Transfer>(),
+    // Next POST /transfers creates the transfer but answers 502, like a lost response
+    loseTransferResponse: false,
+  };
+
+  const fireWebhook = async (event: string, resource: Payment | Transfer) => {
+    const body = resource.object === "payment" ? { event, payment: resource } : { event, transfer: resource };
+
+    try {
+      const response = await fetch(config.webhookUrl, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          "asaas-access-token": config.webhookToken,
+        },
+        body: JSON.stringify(body),
+      });
+      const text = await response.text();
+      console.log(`Webhook ${event} -> ${response.status}`);
+      return { status: response.status, body: text };
+    } catch (error: unknown) {
+      const message = error instanceof Error ? error.message : "Unknown error";
+      console.error(`Webhook ${event} failed:`, message);
+      return { status: 0, body: message };
+    }
+  };
+
+  const handleApi = async (req: Request, url: URL): Promise<Response> => {
+    if (config.apiKey && req.headers.get("access_token") !== config.apiKey) {
+      return asaasError(401, "invalid_access_token", "A chave de API informada não pertence a este ambiente");
+    }
+
+    const parts = url.pathname.split("/").filter(Boolean);
+    const body = req.method === "POST" ? await req.json().catch(() => ({})) : {};
+
+    // POST /customers, GET /customers?email=
+    if (parts[0] === "customers" && parts.length === 1) {
+      if (req.method === "GET") {
+        const email = url.searchParams.get("email");
+        const data = [...state.customers.values()].filter((c) => !email || c.email === email);
+        return json({ object: "list", totalCount: data.length, data });
+      }
+
+      if (!body.name || !body.email) {
+        return asaasError(400, "invalid_customer", "Nome e email são obrigatórios");
+      }
+      if ([...state.customers.values()].some((c) => c.email === body.email)) {
+        return asaasError(409, "customer_already_exists", "Cliente já cadastrado");
+      }
+
+      const customer: Customer = {
+        object: "customer",
+        id: `cus_${crypto.randomUUID().slice(0, 12)}`,
+        name: body.name,
+        email: body.email,
+        cpfCnpj: body.cpfCnpj ?? null,
+        externalReference: body.externalReference ?? null,
+      };
+      state.customers.set(customer.id, customer);
+      return json(customer);
+    }
+
+    // POST /payments
+    if (parts[0] === "payments" && parts.length === 1 && req.method === "POST") {
+      if (!state.customers.has(body.customer)) {
+        return asaasError(400, "invalid_customer", "Cliente inexistente");
+      }
+      if (!(Number(body.value) > 0)) {
+        return asaasError(400, "invalid_value", "Valor inválido");
+      }
+
+      const id = `pay_${crypto.randomUUID().slice(0, 12)}`;
+      const payment: Payment = {
+        object: "payment",
+        id,
+        customer: body.customer,
+        billingType: body.billingType,
+        value: Number(body.value),
+        netValue: Number(body.value),
+        status: "PENDING",
+        dueDate: body.dueDate ?? today(),
+        confirmedDate: null,
+        description: body.description ?? null,
+        externalReference: body.externalReference ?? null,
+        invoiceUrl: `${config.publicUrl}/i/${id}`,
+        bankSlipUrl: body.billingType === "BOLETO" ? `${config.publicUrl}/b/${id}` : null,
+      };
+      state.payments.set(id, payment);
+      return json(payment);
+    }
+
+    // GET /payments/:id, GET /payments/:id/pixQrCode
+    if (parts[0] === "payments" && parts.length >= 2 && req.method === "GET") {
+      const payment = state.payments.get(parts[1]);
+      if (!payment) {
+        return asaasError(404, "not_found", "Cobrança não encontrada");
+      }
+
+      if (parts[2] === "pixQrCode") {
+        if (payment.billingType !== "PIX") {
+          return asaasError(400, "invalid_billing_type", "Cobrança não é PIX");
+        }
+        return json({
+          encodedImage: btoa(`fake-pix-qrcode:${payment.id}`),
+          payload: `00020126580014br.gov.bcb.pix0136${payment.id}5204000053039865802BR6304FAKE`,
+          expirationDate: `${payment.dueDate} 23:59:59`,
+        });
+      }
+
+      return json(payment);
+    }
+
+    // POST /transfers, GET /transfers?dateCreated[ge]=&limit=&offset=, GET /transfers/:id
+    if (parts[0] === "transfers") {
+      if (req.method === "GET" && parts[1]) {
+        const transfer = state.transfers.get(parts[1]);
+        return transfer ? json(transfer) : asaasError(404, "not_found", "Transferência não encontrada");
+      }
+
+      if (req.method === "GET") {
+        const since = url.searchParams.get("dateCreated[ge]");
+        const limit = Number(url.searchParams.get("limit") ?? 10);
+        const offset = Number(url.searchParams.get("offset") ?? 0);
+        const matching = [...state.transfers.values()].filter((t) => !since || t.dateCreated >= since);
+        const data = matching.slice(offset, offset + limit);
+        return json({
+          object: "list",
+          hasMore: offset + data.length < matching.length,
+          totalCount: matching.length,
+          limit,
+          offset,
+          data,
+        });
+      }
+
+      if (req.method === "POST" && parts.length === 1) {
+        if (!(Number(body.value) > 0)) {
+          return asaasError(400, "invalid_value", "Valor inválido");
+        }
+        if (!body.pixAddressKey) {
+          return asaasError(400, "invalid_pix_key", "Chave PIX não informada");
+        }
+
+        const transfer: Transfer = {
+          object: "transfer",
+          id: `tra_${crypto.randomUUID().slice(0, 12)}`,
+          value: Number(body.value),
+          netValue: Number(body.value),
+          status: "PENDING",
+          failReason: null,
+          pixAddressKey: body.pixAddressKey,
+          pixAddressKeyType: body.pixAddressKeyType,
+          description: body.description ?? null,
+          externalReference: body.externalReference ?? null,
+          dateCreated: today(),
+        };
+        state.transfers.set(transfer.id, transfer);
+
+        if (state.loseTransferResponse) {
+          state.loseTransferResponse = false;
+          return new Response("Bad Gateway", { status: 502 });
+        }
+        return json(transfer);
+      }
+    }
+
+    return asaasError(404, "not_found", `No fake route for ${req.method} ${url.pathname}`);
+  };
+
+  // Control API:
+  //   POST /__control/payments/:id/confirm   -> RECEIVED + PAYMENT_RECEIVED webhook
+  //   POST /__control/payments/:id/fail      -> OVERDUE + PAYMENT_OVERDUE webhook
+  //   POST /__control/transfers/:id/confirm  -> DONE + TRANSFER_DONE webhook
+  //   POST /__control/transfers/:id/fail     -> FAILED + TRANSFER_FAILED webhook
+  //   POST /__control/transfers/:id/cancel   -> CANCELLED + TRANSFER_CANCELLED webhook
+  //   POST /__control/faults/lose-transfer-response -> next transfer is created but answered with 502
+  //   GET  /__control/state, POST /__control/reset
+  // Pass ?webhook=false to change the state without notifying.
+  const handleControl = async (req: Request, url: URL): Promise<Response> => {
+    const [, kind, id, action] = url.pathname.split("/").filter(Boolean);
+    const notify = url.searchParams.get("webhook") !== "false";
+
+    if (kind === "state" && req.method === "GET") {
+      return json({
+        customers: [...state.customers.values()],
+        payments: [...state.payments.values()],
+        transfers: [...state.transfers.values()],
+      });
+    }
+
+    if (kind === "reset" && req.method === "POST") {
+      state.customers.clear();
+      state.payments.clear();
+      state.transfers.clear();
+      state.loseTransferResponse = false;
+      return json({ reset: true });
+    }
+
+    if (kind === "faults" && id === "lose-transfer-response" && req.method === "POST") {
+      state.loseTransferResponse = true;
+      return json({ fault: id });
+    }
+
+    if (req.method !== "POST") {
+      return json({ error: "Method not allowed" }, 405);
+    }
+
+    if (kind === "payments") {
+      const payment = state.payments.get(id);
+      if (!payment) return json({ error: "Payment not found" }, 404);
+
+      let event: string;
+      if (action === "confirm") {
+        payment.status = payment.billingType === "CREDIT_CARD" ? "CONFIRMED" : "RECEIVED";
+        payment.confirmedDate = today();
+        event = payment.billingType === "CREDIT_CARD" ? "PAYMENT_CONFIRMED" : "PAYMENT_RECEIVED";
+      } else if (action === "fail") {
+        payment.status = "OVERDUE";
+        event = "PAYMENT_OVERDUE";
+      } else {
+        return json({ error: `Unknown action ${action}` }, 400);
+      }
+
+      const webhook = notify ? await fireWebhook(event, payment) : null;
+      return json({ payment, webhook });
+    }
+
+    if (kind === "transfers") {
+      const transfer = state.transfers.get(id);
+      if (!transfer) return json({ error: "Transfer not found" }, 404);
+
+      let event: string;
+      if (action === "confirm") {
+        transfer.status = "DONE";
+        event = "TRANSFER_DONE";
+      } else if (action === "fail") {
+        const { reason } = await req.json().catch(() => ({}));
+        transfer.status = "FAILED";
+        transfer.failReason = reason ?? "Chave PIX inválida";
+        event = "TRANSFER_FAILED";
+      } else if (action === "cancel") {
+        transfer.status = "CANCELLED";
+        event = "TRANSFER_CANCELLED";
+      } else {
+        return json({ error: `Unknown action ${action}` }, 400);
+      }
+
+      const webhook = notify ? await fireWebhook(event, transfer) : null;
+      return json({ transfer, webhook });
+    }
+
+    return json({ error: "Not found" }, 404);
+  };
+
+  return (req: Request): Promise<Response> => {
+    const url = new URL(req.url);
+    // Accept both /v3/... and bare paths so ASAAS_BASE_URL may include the version
+    url.pathname = url.pathname.replace(/^\/v3(?=\/)/, "");
+
+    if (url.pathname.startsWith("/__control/")) {
+      return handleControl(req, url);
+    }
+    return handleApi(req, url);
+  };
+}
+
+if (import.meta.main) {
+  const port = Number(Deno.env.get("FAKE_ASAAS_PORT") ?? 8787);
+  const webhookUrl = Deno.env.get("FAKE_ASAAS_WEBHOOK_URL") ??
+    "http://localhost:54321/functions/v1/asaas-webhook";
+
+  console.log(`Fake Asaas listening on http://localhost:${port}, webhooks -> ${webhookUrl}`);
+
+  serve(
+    createFakeAsaas({
+      publicUrl: `http://localhost:${port}`,
+      webhookUrl,
+      webhookToken: Deno.env.get("FAKE_ASAAS_WEBHOOK_TOKEN") ?? "fake-asaas-webhook-token",
+      apiKey: Deno.env.get("FAKE_ASAAS_API_KEY"),
+    }),
+    { port },
+  );
+}
@@ -0,0 +1,36 @@
+import { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2.85.0";
+import { PaymentProvider, ProviderCharge } from "./payments/index.ts";
+
+/**
+ * Credits a confirmed deposit to the user's wallet exactly once.
+ * Both the webhook and the manual payment check go through here; the
+ * payments table row is locked server-side so concurrent calls are safe.
+ * Returns true when this call performed the credit.
+ */
+export async function creditDeposit(
+  supabaseClient: SupabaseClient,
+  provider: PaymentProvider,
+  userId: string,
+  charge: ProviderCharge,
+): Promise<boolean> {
+  const { data: credited, error } = await supabaseClient.rpc("process_payment_credit", {
+    _provider: provider.name,
+    _provider_payment_id: charge.id,
+    _user_id: userId,
+    _amount: charge.value,
+    _billing_type: charge.billingType,
+    _status: charge.status,
+  });
+
+  if (error) {
+    throw new Error(`Failed to credit payment ${charge.id}: ${error.message}`);
+  }
+
+  if (credited) {
+    console.log(`Deposit credited for user ${userId}: R$ ${charge.value} (#${charge.id})`);
+  } else {
+    console.log(`Payment ${charge.id} already credited, skipping`);
+  }
+
+  return Boolean(credited);
+}
@@ -0,0 +1,96 @@
+import { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2.85.0";
+import { creditDeposit } from "./credit-deposit.ts";
+import { PaymentProvider, WebhookAuthError } from "./payments/index.ts";
+import { settleWithdrawal } from "./settle-withdrawal.ts";
+
+const logRejectedWebhook = async (
+  supabaseClient: SupabaseClient,
+  req: Request,
+  provider: string,
+  reason: string,
+  event: string | null,
+  payload: unknown,
+) => {
+  console.warn(`Webhook rejected: ${reason}`);
+  const { error } = await supabaseClient.from("webhook_audit_log").insert({
+    provider,
+    event,
+    reason,
+    source_ip: req.headers.get("x-forwarded-for"),
+    payload,
+  });
+  if (error) {
+    console.error("Failed to write webhook audit log:", error);
+  }
+};
+
+/**
+ * Authenticates a provider webhook and applies it: confirmed charges credit the
+ * deposit, finished transfers settle the withdrawal. Returns false when the
+ * caller could not be authenticated (the attempt is written to the audit log).
+ */
+export async function handlePaymentWebhook(
+  supabaseClient: SupabaseClient,
+  provider: PaymentProvider,
+  req: Request,
+): Promise<boolean> {
+  const body = await req.json().catch(() => null);
+
+  // Authenticate the caller before trusting anything in the body
+  let event;
+  try {
+    event = await provider.parseWebhook(req, body);
+  } catch (error: unknown) {
+    if (!(error instanceof WebhookAuthError)) throw error;
+    await logRejectedWebhook(supabaseClient, req, provider.name, error.message, body?.event ?? null, body);
+    return false;
+  }
+
+  console.log(`${provider.name} webhook received:`, JSON.stringify(body));
+
+  const { type, rawEvent, resourceId, reference } = event;
+
+  if (!reference || !resourceId) {
+    console.log("No external reference, skipping");
+    return true;
+  }
+
+  // Handle deposit confirmation
+  if (type === "charge.confirmed" && reference.type === "deposit") {
+    // Never credit from the webhook body: re-fetch the charge from the provider
+    const charge = await provider.getCharge(resourceId);
+
+    if (!charge) {
+      await logRejectedWebhook(supabaseClient, req, provider.name, "Payment not found at provider", rawEvent, body);
+    } else if (charge.reference?.type !== "deposit" || charge.reference.userId !== reference.userId) {
+      await logRejectedWebhook(supabaseClient, req, provider.name, "External reference mismatch", rawEvent, body);
+    } else if (charge.status !== "CONFIRMED") {
+      await logRejectedWebhook(
+        supabaseClient,
+        req,
+        provider.name,
+        `Payment status at provider is ${charge.status}`,
+        rawEvent,
+        body,
+      );
+    } else {
+      await creditDeposit(supabaseClient, provider, charge.reference.userId, charge);
+    }
+  }
+
+  // Handle transfer (withdrawal) completion, failure or cancellation
+  if ((type === "payout.completed" || type === "payout.failed") && reference.type === "withdrawal") {
+    // As with deposits, trust the provider's current state rather than the body
+    const payout = await provider.getPayout(resourceId);
+
+    if (!payout) {
+      await logRejectedWebhook(supabaseClient, req, provider.name, "Transfer not found at provider", rawEvent, body);
+    } else if (payout.reference?.type !== "withdrawal" || payout.reference.withdrawalId !== reference.withdrawalId) {
+      await logRejectedWebhook(supabaseClient, req, provider.name, "External reference mismatch", rawEvent, body);
+    } else {
+      await settleWithdrawal(supabaseClient, payout.reference.withdrawalId, payout);
+    }
+  }
+
+  return true;
+}
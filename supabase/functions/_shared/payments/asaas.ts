@@ -0,0 +1,302 @@
+import {
+  BillingType,
+  ChargeInput,
+  ChargeStatus,
+  CustomerInput,
+  PaymentProvider,
+  PayoutInput,
+  PayoutStatus,
+  ProviderCharge,
+  ProviderCustomer,
+  ProviderPayout,
+  PayoutUncertainError,
+  WebhookAuthError,
+  WebhookEvent,
+  parseExternalReference,
+} from "./types.ts";
+
+// Constant-time comparison so the token cannot be guessed byte by byte
+const tokensMatch = (received: string, expected: string) => {
+  const a = new TextEncoder().encode(received);
+  const b = new TextEncoder().encode(expected);
+  let diff = a.length ^ b.length;
+  for (let i = 0; i < Math.max(a.length, b.length); i++) {
+    diff |= (a[i] ?? 0) ^ (b[i] ?? 0);
+  }
+  return diff === 0;
+};
+
+const toChargeStatus = (status: string): ChargeStatus => {
+  switch (status) {
+    case "CONFIRMED":
+    case "RECEIVED":
+    case "RECEIVED_IN_CASH":
+      return "CONFIRMED";
+    case "REFUNDED":
+    case "REFUND_REQUESTED":
+    case "CHARGEBACK_REQUESTED":
+      return "REFUNDED";
+    case "OVERDUE":
+    case "DELETED":
+      return "FAILED";
+    default:
+      return "PENDING";
+  }
+};
+
+const toPayoutStatus = (status: string): PayoutStatus => {
+  switch (status) {
+    case "DONE":
+      return "DONE";
+    case "FAILED":
+      return "FAILED";
+    case "CANCELLED":
+      return "CANCELLED";
+    default:
+      return "PENDING";
+  }
+};
+
+type AsaasPayload = Record<string, unknown>;
+
+const PAYOUT_TIMEOUT_MS = 30_000;
+const TRANSFERS_PAGE_SIZE = 100;
+
+// Error envelope Asaas returns instead of the resource on failure
+interface AsaasErrors {
+  errors?: { code?: string; description?: string }[];
+}
+
+interface AsaasCustomer {
+  id: string;
+}
+
+interface AsaasPayment {
+  id: string;
+  status: string;
+  value: number;
+  billingType: BillingType;
+  dueDate?: string;
+  confirmedDate?: string | null;
+  invoiceUrl?: string | null;
+  bankSlipUrl?: string | null;
+  externalReference?: string | null;
+}
+
+interface AsaasPixQrCode {
+  encodedImage?: string;
+  payload?: string;
+}
+
+interface AsaasTransfer {
+  id: string;
+  status: string;
+  value: number;
+  failReason?: string | null;
+  externalReference?: string | null;
+}
+
+interface AsaasList<T> {
+  data?: T[];
+  hasMore?: boolean;
+}
+
+type AsaasResponse<T> = Partial<T> & AsaasErrors;
+
+// A response without errors that carries an id is the documented resource
+const isResource = <T extends { id: string }>(data: AsaasResponse<T>): data is AsaasResponse<T> & T =>
+  !data.errors && typeof data.id === "string";
+
+export class AsaasProvider implements PaymentProvider {
+  readonly name = "asaas";
+
+  constructor(
+    private readonly apiKey: string,
+    private readonly baseUrl: string,
+    private readonly webhookToken: string | undefined,
+  ) {}
+
+  private async request<T>(path: string, init: RequestInit = {}): Promise<{ status: number; data: AsaasResponse<T> }> {
+    const response = await fetch(`${this.baseUrl}${path}`, {
+      ...init,
+      headers: {
+        "Content-Type": "application/json",
+        "access_token": this.apiKey,
+        ...init.headers,
+      },
+    });
+    const data: AsaasResponse<T> = await response.json().catch(() => ({}));
+    return { status: response.status, data };
+  }
+
+  private toCharge(payment: AsaasPayment, pix?: AsaasPixQrCode | null): ProviderCharge {
+    return {
+      id: payment.id,
+      status: toChargeStatus(payment.status),
+      value: payment.value,
+      billingType: payment.billingType,
+      dueDate: payment.dueDate,
+      confirmedDate: payment.confirmedDate ?? null,
+      invoiceUrl: payment.invoiceUrl ?? null,
+      bankSlipUrl: payment.bankSlipUrl ?? null,
+      pixQrCode: pix?.encodedImage ?? null,
+      pixCopyPaste: pix?.payload ?? null,
+      reference: parseExternalReference(payment.externalReference),
+    };
+  }
+
+  private toPayout(transfer: AsaasTransfer): ProviderPayout {
+    return {
+      id: transfer.id,
+      status: toPayoutStatus(transfer.status),
+      value: transfer.value,
+      failReason: transfer.failReason ?? null,
+      reference: parseExternalReference(transfer.externalReference),
+    };
+  }
+
+  async createCustomer(input: CustomerInput): Promise<ProviderCustomer> {
+    const { status, data } = await this.request<AsaasCustomer>("/customers", {
+      method: "POST",
+      body: JSON.stringify(input),
+    });
+
+    let customer: Partial<AsaasCustomer> | undefined = data;
+    if (status === 409) {
+      // Customer already exists, find by email
+      const existing = await this.request<AsaasList<AsaasCustomer>>(`/customers?email=${encodeURIComponent(input.email)}`);
+      customer = existing.data.data?.[0];
+    }
+
+    if (!customer?.id) {
+      console.error("Customer creation failed:", customer);
+      throw new Error("Falha ao criar cliente no Asaas");
+    }
+
+    return { id: customer.id };
+  }
+
+  async createCharge(input: ChargeInput): Promise<ProviderCharge> {
+    const { data: payment } = await this.request<AsaasPayment>("/payments", {
+      method: "POST",
+      body: JSON.stringify({
+        customer: input.customerId,
+        billingType: input.billingType,
+        value: input.value,
+        dueDate: input.dueDate,
+        description: input.description,
+        externalReference: JSON.stringify(input.reference),
+      }),
+    });
+
+    if (!isResource(payment)) {
+      console.error("Payment creation failed:", payment);
+      throw new Error(payment.errors?.[0]?.description || "Falha ao criar pagamento");
+    }
+
+    // If PIX, get PIX QR Code
+    let pix: AsaasPixQrCode | null = null;
+    if (input.billingType === "PIX") {
+      pix = (await this.request<AsaasPixQrCode>(`/payments/${payment.id}/pixQrCode`)).data;
+    }
+
+    return this.toCharge(payment, pix);
+  }
+
+  async getCharge(id: string): Promise<ProviderCharge | null> {
+    const { data: payment } = await this.request<AsaasPayment>(`/payments/${encodeURIComponent(id)}`);
+    if (!isResource(payment)) return null;
+    return this.toCharge(payment);
+  }
+
+  async createPayout(input: PayoutInput): Promise<ProviderPayout> {
+    let response: { status: number; data: AsaasResponse<AsaasTransfer> };
+    try {
+      response = await this.request<AsaasTransfer>("/transfers", {
+        method: "POST",
+        body: JSON.stringify({
+          value: input.value,
+          pixAddressKey: input.pixKey,
+          pixAddressKeyType: input.pixKeyType,
+          description: input.description,
+          externalReference: JSON.stringify(input.reference),
+        }),
+        signal: AbortSignal.timeout(PAYOUT_TIMEOUT_MS),
+      });
+    } catch (error: unknown) {
+      // The request may have reached Asaas before the connection dropped
+      const message = error instanceof Error ? error.message : "sem resposta";
+      throw new PayoutUncertainError(`Sem resposta do Asaas ao criar transferência: ${message}`);
+    }
+
+    const { status, data: transfer } = response;
+    if (isResource(transfer)) return this.toPayout(transfer);
+
+    // Only an explicit refusal guarantees that no transfer was created
+    if (status >= 400 && status < 500 && transfer.errors) {
+      throw new Error(transfer.errors[0]?.description || "Falha ao criar transferência");
+    }
+
+    throw new PayoutUncertainError(`Resposta inesperada do Asaas ao criar transferência (HTTP ${status})`);
+  }
+
+  async getPayout(id: string): Promise<ProviderPayout | null> {
+    const { data: transfer } = await this.request<AsaasTransfer>(`/transfers/${encodeURIComponent(id)}`);
+    if (!isResource(transfer)) return null;
+    return this.toPayout(transfer);
+  }
+
+  async findPayout(withdrawalId: string, createdSince: Date): Promise<ProviderPayout | null> {
+    // Asaas dates are in Brasília time, so start a day early
+    const since = new Date(createdSince.getTime() - 24 * 60 * 60 * 1000).toISOString().split("T")[0];
+
+    for (let offset = 0; ; offset += TRANSFERS_PAGE_SIZE) {
+      const { data: page } = await this.request<AsaasList<AsaasTransfer>>(
+        `/transfers?dateCreated%5Bge%5D=${since}&limit=${TRANSFERS_PAGE_SIZE}&offset=${offset}`,
+      );
+
+      if (page.errors || !page.data) {
+        throw new Error("Falha ao consultar transferências no Asaas");
+      }
+
+      const match = page.data.find((transfer) => {
+        const reference = parseExternalReference(transfer.externalReference);
+        return reference?.type === "withdrawal" && reference.withdrawalId === withdrawalId;
+      });
+
+      if (match) return this.toPayout(match);
+      if (!page.hasMore) return null;
+    }
+  }
+
+  async parseWebhook(req: Request, body: unknown): Promise<WebhookEvent> {
+    const accessToken = req.headers.get("asaas-access-token");
+    if (!this.webhookToken) {
+      throw new WebhookAuthError("Webhook token not configured");
+    }
+    if (!accessToken || !tokensMatch(accessToken, this.webhookToken)) {
+      throw new WebhookAuthError("Invalid access token");
+    }
+
+    // Webhook bodies are untrusted, so narrow every field that is read
+    const { event, payment, transfer } = (body ?? {}) as AsaasPayload;
+    const resource = (payment ?? transfer ?? {}) as AsaasPayload;
+
+    let type: WebhookEvent["type"] = "ignored";
+    if (event === "PAYMENT_CONFIRMED" || event === "PAYMENT_RECEIVED") {
+      type = "charge.confirmed";
+    } else if (event === "TRANSFER_CONFIRMED" || event === "TRANSFER_DONE") {
+      type = "payout.completed";
+    } else if (event === "TRANSFER_FAILED" || event === "TRANSFER_CANCELLED") {
+      type = "payout.failed";
+    }
+
+    return {
+      type,
+      rawEvent: typeof event === "string" ? event : null,
+      resourceId: typeof resource.id === "string" ? resource.id : null,
+      reference: parseExternalReference(resource.externalReference),
+      payload: body,
+    };
+  }
+}
@@ -0,0 +1,31 @@
+import { AsaasProvider } from "./asaas.ts";
+import { PaymentProvider } from "./types.ts";
+
+export * from "./types.ts";
+
+let provider: PaymentProvider | null = null;
+
+/**
+ * Returns the gateway selected by the PAYMENT_PROVIDER env var ("asaas" by
+ * default). For local development and tests, point ASAAS_BASE_URL at the fake
+ * Asaas server in supabase/functions/_fake-asaas instead.
+ */
+export function getPaymentProvider(): PaymentProvider {
+  if (provider) return provider;
+
+  const name = Deno.env.get("PAYMENT_PROVIDER") ?? "asaas";
+
+  switch (name) {
+    case "asaas":
+      provider = new AsaasProvider(
+        Deno.env.get("ASAAS_API_KEY")!,
+        Deno.env.get("ASAAS_BASE_URL") ?? "https://api.asaas.com/v3",
+        Deno.env.get("ASAAS_WEBHOOK_TOKEN"),
+      );
+      break;
+    default:
+      throw new Error(`Unknown payment provider: ${name}`);
+  }
+
+  return provider;
+}
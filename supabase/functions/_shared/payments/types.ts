@@ -0,0 +1,120 @@
+// Provider-agnostic shapes used by the edge functions. Each gateway maps its
+// own API payloads to and from these types.
+
+export type BillingType = "PIX" | "BOLETO" | "CREDIT_CARD";
+
+export type PixKeyType = "CPF" | "CNPJ" | "EMAIL" | "PHONE" | "EVP";
+
+export type ChargeStatus = "PENDING" | "CONFIRMED" | "FAILED" | "REFUNDED";
+
+export type PayoutStatus = "PENDING" | "DONE" | "FAILED" | "CANCELLED";
+
+export type ExternalReference =
+  | { type: "deposit"; userId: string }
+  | { type: "withdrawal"; withdrawalId: string; sellerId: string };
+
+export interface CustomerInput {
+  name: string;
+  email: string;
+  cpfCnpj?: string;
+  externalReference: string;
+}
+
+export interface ProviderCustomer {
+  id: string;
+}
+
+export interface ChargeInput {
+  customerId: string;
+  billingType: BillingType;
+  value: number;
+  dueDate: string;
+  description: string;
+  reference: ExternalReference;
+}
+
+export interface ProviderCharge {
+  id: string;
+  status: ChargeStatus;
+  value: number;
+  billingType: BillingType;
+  dueDate?: string;
+  confirmedDate?: string | null;
+  invoiceUrl?: string | null;
+  bankSlipUrl?: string | null;
+  pixQrCode?: string | null;
+  pixCopyPaste?: string | null;
+  reference: ExternalReference | null;
+}
+
+export interface PayoutInput {
+  value: number;
+  pixKey: string;
+  pixKeyType: PixKeyType;
+  description: string;
+  reference: ExternalReference;
+}
+
+export interface ProviderPayout {
+  id: string;
+  status: PayoutStatus;
+  value: number;
+  failReason?: string | null;
+  reference: ExternalReference | null;
+}
+
+export type WebhookEventType =
+  | "charge.confirmed"
+  | "payout.completed"
+  | "payout.failed"
+  | "ignored";
+
+export interface WebhookEvent {
+  type: WebhookEventType;
+  rawEvent: string | null;
+  resourceId: string | null;
+  reference: ExternalReference | null;
+  payload: unknown;
+}
+
+export interface PaymentProvider {
+  /** Stored in payments.provider and used in transaction descriptions */
+  readonly name: string;
+  createCustomer(input: CustomerInput): Promise<ProviderCustomer>;
+  createCharge(input: ChargeInput): Promise<ProviderCharge>;
+  getCharge(id: string): Promise<ProviderCharge | null>;
+  /** Throws PayoutUncertainError when the transfer may have been created anyway */
+  createPayout(input: PayoutInput): Promise<ProviderPayout>;
+  getPayout(id: string): Promise<ProviderPayout | null>;
+  /** Finds a transfer created since the given time for the withdrawal, if any */
+  findPayout(withdrawalId: string, createdSince: Date): Promise<ProviderPayout | null>;
+  /** Authenticates and normalizes an incoming webhook; throws WebhookAuthError */
+  parseWebhook(req: Request, body: unknown): Promise<WebhookEvent>;
+}
+
+export class WebhookAuthError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "WebhookAuthError";
+  }
+}
+
+/** The provider did not answer clearly, so the transfer may or may not exist */
+export class PayoutUncertainError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "PayoutUncertainError";
+  }
+}
+
+export const parseExternalReference = (value: unknown): ExternalReference | null => {
+  if (typeof value !== "string" || !value) return null;
+  try {
+    const parsed = JSON.parse(value);
+    if (parsed?.type === "deposit" && parsed.userId) return parsed;
+    if (parsed?.type === "withdrawal" && parsed.withdrawalId) return parsed;
+    return null;
+  } catch {
+    return null;
+  }
+};
@@ -0,0 +1,105 @@
+import { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2.85.0";
+import { RobloxApi } from "./roblox/index.ts";
+
+const CODE_TTL_MINUTES = 30;
+const CODE_ALPHABET = "ABCDEFGHJKLMNPQRSTUVWXYZ23456789";
+
+const generateCode = () => {
+  const bytes = crypto.getRandomValues(new Uint8Array(8));
+  return "RH-" + Array.from(bytes, (b) => CODE_ALPHABET[b % CODE_ALPHABET.length]).join("");
+};
+
+/**
+ * Looks up the Roblox username and stores a fresh code the buyer must paste
+ * into their profile description. Replaces any verification in progress.
+ */
+export async function startRobloxVerification(
+  supabaseClient: SupabaseClient,
+  roblox: RobloxApi,
+  userId: string,
+  username: unknown,
+) {
+  if (!username || typeof username !== "string") {
+    throw new Error("Informe o nome de usuário Roblox");
+  }
+
+  const robloxUser = await roblox.getUserByUsername(username.trim());
+  if (!robloxUser) {
+    throw new Error("Usuário Roblox não encontrado");
+  }
+
+  const code = generateCode();
+  const expiresAt = new Date(Date.now() + CODE_TTL_MINUTES * 60 * 1000).toISOString();
+
+  const { error: upsertError } = await supabaseClient
+    .from("roblox_verifications")
+    .upsert({
+      user_id: userId,
+      roblox_user_id: robloxUser.id,
+      roblox_username: robloxUser.name,
+      code,
+      expires_at: expiresAt,
+      created_at: new Date().toISOString(),
+    });
+
+  if (upsertError) throw upsertError;
+
+  console.log("Roblox verification started:", userId, robloxUser.id);
+
+  return {
+    code,
+    expiresAt,
+    robloxUserId: robloxUser.id,
+    robloxUsername: robloxUser.name,
+  };
+}
+
+/**
+ * Links the pending Roblox account once its current profile description
+ * contains the code. Throws when there is nothing to confirm, the code has
+ * expired or it is not in the description yet.
+ */
+export async function confirmRobloxVerification(
+  supabaseClient: SupabaseClient,
+  roblox: RobloxApi,
+  userId: string,
+) {
+  const { data: pending, error: pendingError } = await supabaseClient
+    .from("roblox_verifications")
+    .select("*")
+    .eq("user_id", userId)
+    .maybeSingle();
+
+  if (pendingError) throw pendingError;
+  if (!pending) {
+    throw new Error("Nenhuma verificação em andamento");
+  }
+  if (new Date(pending.expires_at) < new Date()) {
+    throw new Error("Código expirado, gere um novo");
+  }
+
+  const robloxUser = await roblox.getUser(pending.roblox_user_id);
+  if (!robloxUser) {
+    throw new Error("Usuário Roblox não encontrado");
+  }
+
+  if (!robloxUser.description.includes(pending.code)) {
+    throw new Error("Código não encontrado na descrição do seu perfil Roblox");
+  }
+
+  const { error: linkError } = await supabaseClient.rpc("link_roblox_account", {
+    _user_id: userId,
+    _roblox_user_id: robloxUser.id,
+    _roblox_username: robloxUser.name,
+  });
+
+  if (linkError) throw linkError;
+
+  console.log("Roblox account verified:", userId, robloxUser.id);
+
+  return {
+    verified: true,
+    robloxUserId: robloxUser.id,
+    robloxUsername: robloxUser.name,
+  };
+}
@@ -0,0 +1,50 @@
+import { RobloxApi, RobloxUser } from "./types.ts";
+
+interface RobloxUsernameLookup {
+  data?: { id: number; name: string; displayName: string }[];
+}
+
+interface RobloxUserResponse {
+  id: number;
+  name: string;
+  displayName: string;
+  description?: string;
+}
+
+/** Talks to the public users.roblox.com API (no credentials required). */
+export class HttpRobloxApi implements RobloxApi {
+  constructor(private readonly baseUrl = "https://users.roblox.com") {}
+
+  async getUserByUsername(username: string): Promise<RobloxUser | null> {
+    const response = await fetch(`${this.baseUrl}/v1/usernames/users`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ usernames: [username], excludeBannedUsers: true }),
+    });
+
+    if (!response.ok) {
+      throw new Error(`Roblox API error: ${response.status}`);
+    }
+
+    const result: RobloxUsernameLookup = await response.json();
+    const match = result.data?.[0];
+    return match ? this.getUser(match.id) : null;
+  }
+
+  async getUser(id: number): Promise<RobloxUser | null> {
+    const response = await fetch(`${this.baseUrl}/v1/users/${id}`);
+
+    if (response.status === 404) return null;
+    if (!response.ok) {
+      throw new Error(`Roblox API error: ${response.status}`);
+    }
+
+    const user: RobloxUserResponse = await response.json();
+    return {
+      id: user.id,
+      name: user.name,
+      displayName: user.displayName,
+      description: user.description ?? "",
+    };
+  }
+}
@@ -0,0 +1,30 @@
+import { HttpRobloxApi } from "./http.ts";
+import { MockRobloxApi } from "./mock.ts";
+import { RobloxApi } from "./types.ts";
+
+export * from "./types.ts";
+
+let api: RobloxApi | null = null;
+
+/**
+ * Returns the client selected by the ROBLOX_API env var
+ * ("http" by default, "mock" for offline development).
+ */
+export function getRobloxApi(): RobloxApi {
+  if (api) return api;
+
+  const name = Deno.env.get("ROBLOX_API") ?? "http";
+
+  switch (name) {
+    case "http":
+      api = new HttpRobloxApi(Deno.env.get("ROBLOX_USERS_API_URL") ?? "https://users.roblox.com");
+      break;
+    case "mock":
+      api = new MockRobloxApi(JSON.parse(Deno.env.get("ROBLOX_MOCK_USERS") ?? "[]"));
+      break;
+    default:
+      throw new Error(`Unknown Roblox API: ${name}`);
+  }
+
+  return api;
+}
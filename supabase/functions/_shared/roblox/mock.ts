@@ -0,0 +1,34 @@
+import { RobloxApi, RobloxUser } from "./types.ts";
+
+/**
+ * In-memory Roblox API for local development and tests. Users are seeded from
+ * the ROBLOX_MOCK_USERS env var (JSON array of RobloxUser); any description
+ * can be changed with setDescription to simulate the buyer pasting the code.
+ */
+export class MockRobloxApi implements RobloxApi {
+  private users = new Map<number, RobloxUser>();
+
+  constructor(seed: RobloxUser[] = []) {
+    for (const user of seed) {
+      this.users.set(user.id, { ...user });
+    }
+  }
+
+  async getUserByUsername(username: string): Promise<RobloxUser | null> {
+    const user = [...this.users.values()].find(
+      (u) => u.name.toLowerCase() === username.toLowerCase()
+    );
+    return user ? { ...user } : null;
+  }
+
+  async getUser(id: number): Promise<RobloxUser | null> {
+    const user = this.users.get(id);
+    return user ? { ...user } : null;
+  }
+
+  setDescription(id: number, description: string) {
+    const user = this.users.get(id);
+    if (!user) throw new Error("Usuário Roblox não encontrado");
+    user.description = description;
+  }
+}
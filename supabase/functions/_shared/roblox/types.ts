@@ -0,0 +1,15 @@
+// Minimal view of a Roblox user used for account verification.
+
+export interface RobloxUser {
+  id: number;
+  name: string;
+  displayName: string;
+  description: string;
+}
+
+export interface RobloxApi {
+  /** Resolves an exact username; returns null when it does not exist */
+  getUserByUsername(username: string): Promise<RobloxUser | null>;
+  /** Fetches the current profile (including the description) by user ID */
+  getUser(id: number): Promise<RobloxUser | null>;
+}
@@ -0,0 +1,108 @@
+import { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2.85.0";
+import { PaymentProvider, PayoutUncertainError, PixKeyType } from "./payments/index.ts";
+
+export interface PayoutWithdrawal {
+  id: string;
+  seller_id: string;
+  amount: number;
+  payment_details: { pixKey?: string; pixKeyType?: PixKeyType } | null;
+  payout_requested_at: string | null;
+}
+
+/**
+ * Looks for a transfer an earlier, unresolved attempt may have created and
+ * records it on the withdrawal. Returns its id, or null when the provider has
+ * none for this withdrawal.
+ */
+export async function findSentPayout(
+  supabaseClient: SupabaseClient,
+  provider: PaymentProvider,
+  withdrawal: PayoutWithdrawal,
+) {
+  if (!withdrawal.payout_requested_at) return null;
+
+  const payout = await provider.findPayout(withdrawal.id, new Date(withdrawal.payout_requested_at));
+  if (!payout) return null;
+
+  console.log("Transfer found for earlier attempt:", withdrawal.id, payout.id);
+
+  await supabaseClient
+    .from("withdrawals")
+    .update({ transfer_id: payout.id, transfer_error: null })
+    .eq("id", withdrawal.id);
+
+  return payout.id;
+}
+
+/**
+ * Creates the PIX transfer for an approved withdrawal and records its id, or
+ * the error so an admin can retry it. The attempt is recorded first and only
+ * cleared when the provider refuses the transfer, so a retry after a timeout
+ * picks up the transfer that went through instead of paying twice. Never
+ * throws.
+ */
+export async function sendPayout(
+  supabaseClient: SupabaseClient,
+  provider: PaymentProvider,
+  withdrawal: PayoutWithdrawal,
+) {
+  const { pixKey, pixKeyType } = withdrawal.payment_details ?? {};
+
+  try {
+    if (!pixKey || !pixKeyType) {
+      throw new Error("Saque sem chave PIX");
+    }
+
+    const sentTransferId = await findSentPayout(supabaseClient, provider, withdrawal);
+    if (sentTransferId) {
+      return { transferId: sentTransferId, transferError: null };
+    }
+
+    await supabaseClient
+      .from("withdrawals")
+      .update({ payout_requested_at: new Date().toISOString() })
+      .eq("id", withdrawal.id);
+
+    let payout;
+    try {
+      payout = await provider.createPayout({
+        value: Number(withdrawal.amount),
+        pixKey,
+        pixKeyType,
+        description: `Saque - Seller ${withdrawal.seller_id}`,
+        reference: {
+          type: "withdrawal",
+          withdrawalId: withdrawal.id,
+          sellerId: withdrawal.seller_id,
+        },
+      });
+    } catch (error: unknown) {
+      if (!(error instanceof PayoutUncertainError)) {
+        await supabaseClient
+          .from("withdrawals")
+          .update({ payout_requested_at: null })
+          .eq("id", withdrawal.id);
+      }
+      throw error;
+    }
+
+    console.log("Transfer created:", payout);
+
+    await supabaseClient
+      .from("withdrawals")
+      .update({ transfer_id: payout.id, transfer_error: null })
+      .eq("id", withdrawal.id);
+
+    return { transferId: payout.id, transferError: null };
+  } catch (error: unknown) {
+    const transferError = error instanceof Error ? error.message : "Falha ao criar transferência";
+    console.error("Transfer creation failed:", withdrawal.id, transferError);
+
+    await supabaseClient
+      .from("withdrawals")
+      .update({ transfer_error: transferError })
+      .eq("id", withdrawal.id);
+
+    return { transferId: null, transferError };
+  }
+}
@@ -0,0 +1,39 @@
+import { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2.85.0";
+import { ProviderPayout } from "./payments/index.ts";
+
+/**
+ * Settles a withdrawal from its PIX transfer's final status. A completed
+ * (DONE) transfer marks the withdrawal as paid; a FAILED or CANCELLED one
+ * rejects it with the provider's reason and refunds the amount plus the fee
+ * to the seller's wallet. Transfers still PENDING are left alone.
+ *
+ * Used by asaas-webhook and poll-withdrawal-transfers. The RPC only acts on
+ * withdrawals that are still approved, so a late webhook after a poll is a
+ * no-op; the result says whether this call changed anything.
+ */
+export async function settleWithdrawal(
+  supabaseClient: SupabaseClient,
+  withdrawalId: string,
+  payout: ProviderPayout,
+): Promise<boolean> {
+  if (payout.status === "PENDING") return false;
+
+  const { data: settled, error } = await supabaseClient.rpc("settle_withdrawal_transfer", {
+    _withdrawal_id: withdrawalId,
+    _transfer_id: payout.id,
+    _status: payout.status,
+    _fail_reason: payout.failReason ?? null,
+  });
+
+  if (error) {
+    throw new Error(`Failed to settle withdrawal ${withdrawalId}: ${error.message}`);
+  }
+
+  if (settled) {
+    console.log(`Withdrawal ${withdrawalId} settled as ${payout.status} (#${payout.id})`);
+  } else {
+    console.log(`Withdrawal ${withdrawalId} already settled, skipping`);
+  }
+
+  return Boolean(settled);
+}
@@ -0,0 +1,165 @@
+import { serve } from "https://deno.land/std@0.190.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2.85.0";
+import { getPaymentProvider } from "../_shared/payments/index.ts";
+import { findSentPayout, sendPayout } from "../_shared/send-payout.ts";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+};
+
+type ReviewAction = "approve" | "reject" | "retry";
+
+interface ReviewRequest {
+  action: ReviewAction;
+  withdrawalId: string;
+  reason?: string;
+}
+
+serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const supabaseClient = createClient(
+      Deno.env.get("SUPABASE_URL")!,
+      Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!
+    );
+
+    const authHeader = req.headers.get("Authorization");
+    if (!authHeader) {
+      throw new Error("Authorization header required");
+    }
+
+    const { data: { user }, error: authError } = await supabaseClient.auth.getUser(
+      authHeader.replace("Bearer ", "")
+    );
+
+    if (authError || !user) {
+      throw new Error("Unauthorized");
+    }
+
+    const { data: isAdmin } = await supabaseClient.rpc("has_role", {
+      _user_id: user.id,
+      _role: "admin",
+    });
+
+    if (!isAdmin) {
+      throw new Error("Acesso negado");
+    }
+
+    const { action, withdrawalId, reason }: ReviewRequest = await req.json();
+
+    if (!withdrawalId) {
+      throw new Error("Saque não informado");
+    }
+
+    if (action === "approve") {
+      // Claiming the row with a conditional update keeps two admins from paying twice
+      const { data: withdrawal, error: approveError } = await supabaseClient
+        .from("withdrawals")
+        .update({ status: "approved", reviewed_by: user.id, reviewed_at: new Date().toISOString() })
+        .eq("id", withdrawalId)
+        .eq("status", "pending")
+        .select()
+        .maybeSingle();
+
+      // Withdrawals that never debited the wallet are refused by the database
+      if (approveError) throw approveError;
+      if (!withdrawal) {
+        throw new Error("Este saque não está mais pendente");
+      }
+
+      const result = await sendPayout(supabaseClient, getPaymentProvider(), withdrawal);
+
+      return new Response(JSON.stringify({ success: true, ...result }), {
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+        status: 200,
+      });
+    }
+
+    if (action === "retry") {
+      // Only approved withdrawals whose transfer was never created can be retried
+      const { data: withdrawal } = await supabaseClient
+        .from("withdrawals")
+        .update({ transfer_error: null })
+        .eq("id", withdrawalId)
+        .eq("status", "approved")
+        .is("transfer_id", null)
+        .not("transfer_error", "is", null)
+        .select()
+        .single();
+
+      if (!withdrawal) {
+        throw new Error("Não há transferência com falha para este saque");
+      }
+
+      const result = await sendPayout(supabaseClient, getPaymentProvider(), withdrawal);
+
+      return new Response(JSON.stringify({ success: true, ...result }), {
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+        status: 200,
+      });
+    }
+
+    if (action === "reject") {
+      if (!reason?.trim()) {
+        throw new Error("Informe o motivo da recusa");
+      }
+
+      const { data: withdrawal } = await supabaseClient
+        .from("withdrawals")
+        .select("id, seller_id, amount, payment_details, status, transfer_id, payout_requested_at")
+        .eq("id", withdrawalId)
+        .single();
+
+      if (!withdrawal) {
+        throw new Error("Saque não encontrado");
+      }
+
+      // Once the provider has the transfer, its outcome decides the withdrawal
+      if (withdrawal.transfer_id || await findSentPayout(supabaseClient, getPaymentProvider(), withdrawal)) {
+        throw new Error("A transferência já foi enviada ao provedor");
+      }
+
+      // The provider has no transfer for the unresolved attempt, so it can be dropped
+      if (withdrawal.payout_requested_at) {
+        const { error: clearError } = await supabaseClient
+          .from("withdrawals")
+          .update({ payout_requested_at: null })
+          .eq("id", withdrawalId)
+          .is("transfer_id", null);
+
+        if (clearError) throw clearError;
+      }
+
+      const { error: refundError } = await supabaseClient.rpc("refund_withdrawal", {
+        _withdrawal_id: withdrawalId,
+        _reason: reason.trim(),
+        _reviewed_by: user.id,
+      });
+
+      if (refundError) throw refundError;
+
+      console.log("Withdrawal rejected:", withdrawalId);
+
+      return new Response(JSON.stringify({ success: true }), {
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+        status: 200,
+      });
+    }
+
+    throw new Error("Ação inválida");
+  } catch (error: unknown) {
+    const errorMessage = error instanceof Error ? error.message : "Unknown error";
+    console.error("Error reviewing withdrawal:", errorMessage);
+    return new Response(
+      JSON.stringify({ error: errorMessage }),
+      {
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+        status: 400,
+      }
+    );
+  }
+});
@@ -1,18 +1,16 @@
 import { serve } from "https://deno.land/std@0.190.0/http/server.ts";
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2.85.0";
+import { BillingType, CustomerInput, getPaymentProvider } from "../_shared/payments/index.ts";
 
 const corsHeaders = {
   "Access-Control-Allow-Origin": "*",
   "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
 };
 
-const ASAAS_API_KEY = Deno.env.get("ASAAS_API_KEY")!;
-const ASAAS_BASE_URL = "https://api.asaas.com/v3";
-
 interface PaymentRequest {
   amount: number;
   userId: string;
-  billingType: "PIX" | "BOLETO" | "CREDIT_CARD";
+  billingType: BillingType;
   cpf?: string;
   description?: string;
 }
@@ -59,7 +57,7 @@ serve(async (req) => {
     }
 
     // Prepare customer data with CPF if provided
-    const customerData: Record<string, unknown> = {
+    const customerData: CustomerInput = {
       name: profile.username,
       email: profile.email,
       externalReference: user.id,
@@ -80,81 +78,48 @@ serve(async (req) => {
       }
     }
 
-    // First, create or get customer in Asaas
-    const customerResponse = await fetch(`${ASAAS_BASE_URL}/customers`, {
-      method: "POST",
-      headers: {
-        "Content-Type": "application/json",
-        "access_token": ASAAS_API_KEY,
-      },
-      body: JSON.stringify(customerData),
-    });
+    const provider = getPaymentProvider();
 
-    let customer;
-    if (customerResponse.status === 409) {
-      // Customer already exists, find by email
-      const listResponse = await fetch(`${ASAAS_BASE_URL}/customers?email=${encodeURIComponent(profile.email)}`, {
-        headers: { "access_token": ASAAS_API_KEY },
-      });
-      const listData = await listResponse.json();
-      customer = listData.data?.[0];
-    } else {
-      customer = await customerResponse.json();
-    }
-
-    if (!customer?.id) {
-      console.error("Customer creation failed:", customer);
-      throw new Error("Falha ao criar cliente no Asaas");
-    }
+    // First, create or get customer at the provider
+    const customer = await provider.createCustomer(customerData);
 
     // Create payment
-    const paymentBody: Record<string, unknown> = {
-      customer: customer.id,
+    const charge = await provider.createCharge({
+      customerId: customer.id,
       billingType,
       value: amount,
       dueDate: new Date(Date.now() + 24 * 60 * 60 * 1000).toISOString().split("T")[0],
       description: description || `Depósito de saldo - ${profile.username}`,
-      externalReference: JSON.stringify({ userId: user.id, type: "deposit" }),
-    };
-
-    const paymentResponse = await fetch(`${ASAAS_BASE_URL}/payments`, {
-      method: "POST",
-      headers: {
-        "Content-Type": "application/json",
-        "access_token": ASAAS_API_KEY,
-      },
-      body: JSON.stringify(paymentBody),
+      reference: { type: "deposit", userId: user.id },
     });
 
-    const payment = await paymentResponse.json();
+    console.log("Payment created:", charge.id);
 
-    if (payment.errors) {
-      console.error("Payment creation failed:", payment);
-      throw new Error(payment.errors[0]?.description || "Falha ao criar pagamento");
-    }
-
-    console.log("Payment created:", payment.id);
+    // Register the payment so its confirmation is credited exactly once
+    const { error: paymentRecordError } = await supabaseClient.from("payments").insert({
+      provider: provider.name,
+      provider_payment_id: charge.id,
+      user_id: user.id,
+      amount: charge.value,
+      billing_type: charge.billingType,
+      status: charge.status,
+    });
 
-    // If PIX, get PIX QR Code
-    let pixData = null;
-    if (billingType === "PIX") {
-      const pixResponse = await fetch(`${ASAAS_BASE_URL}/payments/${payment.id}/pixQrCode`, {
-        headers: { "access_token": ASAAS_API_KEY },
-      });
-      pixData = await pixResponse.json();
+    if (paymentRecordError) {
+      console.error("Failed to record payment:", paymentRecordError);
     }
 
     return new Response(
       JSON.stringify({
-        paymentId: payment.id,
-        status: payment.status,
-        billingType: payment.billingType,
-        value: payment.value,
-        dueDate: payment.dueDate,
-        invoiceUrl: payment.invoiceUrl,
-        bankSlipUrl: payment.bankSlipUrl,
-        pixQrCode: pixData?.encodedImage,
-        pixCopyPaste: pixData?.payload,
+        paymentId: charge.id,
+        status: charge.status,
+        billingType: charge.billingType,
+        value: charge.value,
+        dueDate: charge.dueDate,
+        invoiceUrl: charge.invoiceUrl,
+        bankSlipUrl: charge.bankSlipUrl,
+        pixQrCode: charge.pixQrCode,
+        pixCopyPaste: charge.pixCopyPaste,
       }),
       {
         headers: { ...corsHeaders, "Content-Type": "application/json" },
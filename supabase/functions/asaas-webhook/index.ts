@@ -1,9 +1,11 @@
 import { serve } from "https://deno.land/std@0.190.0/http/server.ts";
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2.85.0";
+import { handlePaymentWebhook } from "../_shared/payment-webhook.ts";
+import { getPaymentProvider } from "../_shared/payments/index.ts";
 
 const corsHeaders = {
   "Access-Control-Allow-Origin": "*",
-  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type, asaas-access-token",
 };
 
 serve(async (req) => {
@@ -17,77 +19,15 @@ serve(async (req) => {
       Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!
     );
 
-    const body = await req.json();
-    console.log("Asaas webhook received:", JSON.stringify(body));
+    const authorized = await handlePaymentWebhook(supabaseClient, getPaymentProvider(), req);
 
-    const { event, payment } = body;
-
-    if (!payment?.externalReference) {
-      console.log("No external reference, skipping");
-      return new Response(JSON.stringify({ received: true }), {
-        headers: { ...corsHeaders, "Content-Type": "application/json" },
-      });
-    }
-
-    let referenceData;
-    try {
-      referenceData = JSON.parse(payment.externalReference);
-    } catch {
-      console.log("Invalid external reference format");
-      return new Response(JSON.stringify({ received: true }), {
+    if (!authorized) {
+      return new Response(JSON.stringify({ error: "Unauthorized" }), {
         headers: { ...corsHeaders, "Content-Type": "application/json" },
+        status: 401,
       });
     }
 
-    const { userId, type, sellerId, withdrawalId } = referenceData;
-
-    // Handle deposit confirmation
-    if (event === "PAYMENT_CONFIRMED" || event === "PAYMENT_RECEIVED") {
-      if (type === "deposit" && userId) {
-        // Get current balance
-        const { data: profile } = await supabaseClient
-          .from("profiles")
-          .select("balance")
-          .eq("id", userId)
-          .single();
-
-        if (profile) {
-          const newBalance = Number(profile.balance) + payment.value;
-
-          // Update balance
-          await supabaseClient
-            .from("profiles")
-            .update({ balance: newBalance })
-            .eq("id", userId);
-
-          // Create transaction record
-          await supabaseClient.from("transactions").insert({
-            user_id: userId,
-            type: "deposit",
-            amount: payment.value,
-            description: `Depósito via ${payment.billingType} - Asaas #${payment.id}`,
-          });
-
-          console.log(`Deposit confirmed for user ${userId}: R$ ${payment.value}`);
-        }
-      }
-    }
-
-    // Handle transfer (withdrawal) completion
-    if (event === "TRANSFER_CONFIRMED" || event === "TRANSFER_DONE") {
-      if (type === "withdrawal" && withdrawalId) {
-        await supabaseClient
-          .from("withdrawals")
-          .update({
-            status: "completed",
-            processed_at: new Date().toISOString(),
-          })
-          .eq("id", withdrawalId);
-
-        console.log(`Withdrawal ${withdrawalId} completed`);
-      }
-    }
-
     return new Response(JSON.stringify({ received: true }), {
       headers: { ...corsHeaders, "Content-Type": "application/json" },
     });
@@ -0,0 +1,84 @@
+import { serve } from "https://deno.land/std@0.190.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2.85.0";
+import { getPaymentProvider } from "../_shared/payments/index.ts";
+import { settleWithdrawal } from "../_shared/settle-withdrawal.ts";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+};
+
+const BATCH_SIZE = 50;
+
+// Run by the poll-withdrawal-transfers cron job for transfers whose webhook never arrived
+serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const serviceRoleKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
+
+    if (req.headers.get("Authorization") !== `Bearer ${serviceRoleKey}`) {
+      throw new Error("Unauthorized");
+    }
+
+    const supabaseClient = createClient(Deno.env.get("SUPABASE_URL")!, serviceRoleKey);
+
+    const stuckMinutes = Number(Deno.env.get("WITHDRAWAL_POLL_AFTER_MINUTES") ?? "30");
+    const cutoff = new Date(Date.now() - stuckMinutes * 60 * 1000).toISOString();
+
+    const { data: withdrawals, error: fetchError } = await supabaseClient
+      .from("withdrawals")
+      .select("id, transfer_id")
+      .eq("status", "approved")
+      .not("transfer_id", "is", null)
+      .lt("reviewed_at", cutoff)
+      .order("reviewed_at", { ascending: true })
+      .limit(BATCH_SIZE);
+
+    if (fetchError) throw fetchError;
+
+    const provider = getPaymentProvider();
+    let settled = 0;
+    let failed = 0;
+
+    for (const withdrawal of withdrawals ?? []) {
+      try {
+        const payout = await provider.getPayout(withdrawal.transfer_id!);
+
+        if (!payout) {
+          console.warn(`Transfer ${withdrawal.transfer_id} not found at provider`);
+          continue;
+        }
+
+        if (await settleWithdrawal(supabaseClient, withdrawal.id, payout)) {
+          settled++;
+        }
+      } catch (error: unknown) {
+        failed++;
+        console.error(`Error polling withdrawal ${withdrawal.id}:`, error instanceof Error ? error.message : error);
+      }
+    }
+
+    console.log(`Polled ${withdrawals?.length ?? 0} transfers: ${settled} settled, ${failed} errors`);
+
+    return new Response(
+      JSON.stringify({ checked: withdrawals?.length ?? 0, settled, failed }),
+      {
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+        status: 200,
+      }
+    );
+  } catch (error: unknown) {
+    const errorMessage = error instanceof Error ? error.message : "Unknown error";
+    console.error("Error polling withdrawal transfers:", errorMessage);
+    return new Response(
+      JSON.stringify({ error: errorMessage }),
+      {
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+        status: 400,
+      }
+    );
+  }
+});
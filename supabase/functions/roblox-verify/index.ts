@@ -0,0 +1,92 @@
+import { serve } from "https://deno.land/std@0.190.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2.85.0";
+import { confirmRobloxVerification, startRobloxVerification } from "../_shared/roblox-verification.ts";
+import { getRobloxApi } from "../_shared/roblox/index.ts";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+};
+
+serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const supabaseClient = createClient(
+      Deno.env.get("SUPABASE_URL")!,
+      Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!
+    );
+
+    const authHeader = req.headers.get("Authorization");
+    if (!authHeader) {
+      throw new Error("Authorization header required");
+    }
+
+    const { data: { user }, error: authError } = await supabaseClient.auth.getUser(
+      authHeader.replace("Bearer ", "")
+    );
+
+    if (authError || !user) {
+      throw new Error("Unauthorized");
+    }
+
+    const { action, username } = await req.json();
+    const roblox = getRobloxApi();
+
+    if (action === "start") {
+      const started = await startRobloxVerification(supabaseClient, roblox, user.id, username);
+
+      return new Response(
+        JSON.stringify(started),
+        {
+          headers: { ...corsHeaders, "Content-Type": "application/json" },
+          status: 200,
+        }
+      );
+    }
+
+    if (action === "confirm") {
+      const confirmed = await confirmRobloxVerification(supabaseClient, roblox, user.id);
+
+      return new Response(
+        JSON.stringify(confirmed),
+        {
+          headers: { ...corsHeaders, "Content-Type": "application/json" },
+          status: 200,
+        }
+      );
+    }
+
+    if (action === "unlink") {
+      const { error: unlinkError } = await supabaseClient.rpc("link_roblox_account", {
+        _user_id: user.id,
+        _roblox_user_id: null,
+        _roblox_username: null,
+      });
+
+      if (unlinkError) throw unlinkError;
+
+      return new Response(
+        JSON.stringify({ verified: false }),
+        {
+          headers: { ...corsHeaders, "Content-Type": "application/json" },
+          status: 200,
+        }
+      );
+    }
+
+    throw new Error("Ação inválida");
+  } catch (error: unknown) {
+    const errorMessage = error instanceof Error ? error.message : "Unknown error";
+    console.error("Error verifying Roblox account:", errorMessage);
+    return new Response(
+      JSON.stringify({ error: errorMessage }),
+      {
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+        status: 400,
+      }
+    );
+  }
+});
@@ -0,0 +1,110 @@
+import { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2.85.0";
+
+export interface FakeWithdrawal {
+  id: string;
+  userId: string;
+  amount: number;
+  fee: number;
+  status: "pending" | "approved" | "completed" | "rejected";
+  transfer_id: string | null;
+  transfer_error: string | null;
+  rejection_reason: string | null;
+  payout_requested_at: string | null;
+}
+
+type Row = Record<string, unknown>;
+
+/**
+ * In-memory stand-in for the tables and RPCs the payment helpers call. It
+ * follows the contracts of process_payment_credit and settle_withdrawal_transfer
+ * (credit once, settle once, refund the amount plus the fee on failure), so the
+ * flow tests can run without a database.
+ */
+export class FakeDatabase {
+  readonly balances = new Map<string, number>();
+  readonly creditedPayments = new Set<string>();
+  readonly withdrawals = new Map<string, FakeWithdrawal>();
+  readonly auditLog: Row[] = [];
+
+  get client(): SupabaseClient {
+    return this as unknown as SupabaseClient;
+  }
+
+  balance(userId: string) {
+    return this.balances.get(userId) ?? 0;
+  }
+
+  /** A withdrawal already debited from the wallet and approved by an admin */
+  addApprovedWithdrawal(withdrawal: Pick<FakeWithdrawal, "id" | "userId" | "amount" | "fee">) {
+    const row: FakeWithdrawal = {
+      ...withdrawal,
+      status: "approved",
+      transfer_id: null,
+      transfer_error: null,
+      rejection_reason: null,
+      payout_requested_at: null,
+    };
+    this.withdrawals.set(row.id, row);
+    return row;
+  }
+
+  rpc(name: string, args: Row) {
+    switch (name) {
+      case "process_payment_credit":
+        return Promise.resolve({ data: this.processPaymentCredit(args), error: null });
+      case "settle_withdrawal_transfer":
+        return Promise.resolve({ data: this.settleWithdrawalTransfer(args), error: null });
+      default:
+        return Promise.resolve({ data: null, error: { message: `Unknown RPC ${name}` } });
+    }
+  }
+
+  from(table: string) {
+    return {
+      insert: (row: Row) => {
+        if (table === "webhook_audit_log") this.auditLog.push(row);
+        return Promise.resolve({ error: null });
+      },
+      update: (values: Row) => ({
+        eq: (column: string, value: unknown) => {
+          if (table === "withdrawals" && column === "id") {
+            const withdrawal = this.withdrawals.get(value as string);
+            if (withdrawal) Object.assign(withdrawal, values);
+          }
+          return Promise.resolve({ error: null });
+        },
+      }),
+    };
+  }
+
+  private processPaymentCredit(args: Row) {
+    const key = `${args._provider}:${args._provider_payment_id}`;
+    if (args._status !== "CONFIRMED" || this.creditedPayments.has(key)) return false;
+
+    this.creditedPayments.add(key);
+    const userId = args._user_id as string;
+    this.balances.set(userId, this.balance(userId) + Number(args._amount));
+    return true;
+  }
+
+  private settleWithdrawalTransfer(args: Row) {
+    const withdrawal = this.withdrawals.get(args._withdrawal_id as string);
+    if (!withdrawal || withdrawal.status !== "approved" || withdrawal.transfer_id !== args._transfer_id) {
+      return false;
+    }
+
+    if (args._status === "DONE") {
+      withdrawal.status = "completed";
+      return true;
+    }
+
+    if (args._status === "FAILED" || args._status === "CANCELLED") {
+      withdrawal.status = "rejected";
+      withdrawal.rejection_reason = (args._fail_reason as string | null) ?? `Transferência ${args._status}`;
+      this.balances.set(withdrawal.userId, this.balance(withdrawal.userId) + withdrawal.amount + withdrawal.fee);
+      return true;
+    }
+
+    return false;
+  }
+}
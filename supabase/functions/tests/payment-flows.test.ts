@@ -0,0 +1,307 @@
+// Deposit and withdrawal flows against the fake Asaas server. Each test starts
+// the fake server and a stand-in for asaas-webhook on free ports, so nothing
+// external is needed:
+//
+//   deno test --allow-net --allow-env supabase/functions/tests/
+
+import { assert, assertEquals } from "https://deno.land/std@0.190.0/testing/asserts.ts";
+import { createFakeAsaas } from "../_fake-asaas/server.ts";
+import { handlePaymentWebhook } from "../_shared/payment-webhook.ts";
+import { AsaasProvider } from "../_shared/payments/asaas.ts";
+import { sendPayout } from "../_shared/send-payout.ts";
+import { settleWithdrawal } from "../_shared/settle-withdrawal.ts";
+import { FakeDatabase } from "./fake-database.ts";
+
+const WEBHOOK_TOKEN = "test-webhook-token";
+const API_KEY = "test-api-key";
+
+const port = (server: Deno.HttpServer) => (server.addr as Deno.NetAddr).port;
+
+async function startFlow() {
+  const db = new FakeDatabase();
+
+  const webhook = Deno.serve({ port: 0, onListen() {} }, async (req) => {
+    const authorized = await handlePaymentWebhook(db.client, provider, req);
+    return new Response(null, { status: authorized ? 200 : 401 });
+  });
+  const webhookUrl = `http://localhost:${port(webhook)}`;
+
+  const asaas = Deno.serve(
+    { port: 0, onListen() {} },
+    createFakeAsaas({ publicUrl: "http://fake-asaas.local", webhookUrl, webhookToken: WEBHOOK_TOKEN, apiKey: API_KEY }),
+  );
+  const asaasUrl = `http://localhost:${port(asaas)}`;
+
+  const provider = new AsaasProvider(API_KEY, `${asaasUrl}/v3`, WEBHOOK_TOKEN);
+
+  const control = async (path: string) => {
+    const response = await fetch(`${asaasUrl}/__control/${path}`, { method: "POST" });
+    return response.json();
+  };
+
+  const transfers = async () => {
+    const response = await fetch(`${asaasUrl}/__control/state`);
+    return (await response.json()).transfers as { id: string }[];
+  };
+
+  const postWebhook = async (body: unknown, token = WEBHOOK_TOKEN) => {
+    const response = await fetch(webhookUrl, {
+      method: "POST",
+      headers: { "Content-Type": "application/json", "asaas-access-token": token },
+      body: JSON.stringify(body),
+    });
+    await response.body?.cancel();
+    return response.status;
+  };
+
+  const stop = () => Promise.all([webhook.shutdown(), asaas.shutdown()]);
+
+  return { db, provider, control, transfers, postWebhook, stop };
+}
+
+async function createDeposit(provider: AsaasProvider, userId: string, value: number) {
+  const customer = await provider.createCustomer({
+    name: "Comprador Teste",
+    email: `${userId}@example.com`,
+    externalReference: userId,
+  });
+
+  return provider.createCharge({
+    customerId: customer.id,
+    billingType: "PIX",
+    value,
+    dueDate: new Date().toISOString().split("T")[0],
+    description: "Depósito de saldo",
+    reference: { type: "deposit", userId },
+  });
+}
+
+async function createTransfer(flow: Awaited<ReturnType<typeof startFlow>>, userId: string) {
+  const withdrawal = flow.db.addApprovedWithdrawal({
+    id: crypto.randomUUID(),
+    userId,
+    amount: 95,
+    fee: 5,
+  });
+
+  const { transferId, transferError } = await sendPayout(flow.db.client, flow.provider, {
+    id: withdrawal.id,
+    seller_id: crypto.randomUUID(),
+    amount: withdrawal.amount,
+    payment_details: { pixKey: "vendedor@example.com", pixKeyType: "EMAIL" },
+    payout_requested_at: null,
+  });
+
+  assertEquals(transferError, null);
+  assertEquals(withdrawal.transfer_id, transferId);
+  return { withdrawal, transferId: transferId! };
+}
+
+Deno.test("deposit is credited once when the charge is confirmed", async () => {
+  const flow = await startFlow();
+  try {
+    const userId = crypto.randomUUID();
+    const charge = await createDeposit(flow.provider, userId, 50);
+
+    assertEquals(charge.status, "PENDING");
+    assert(charge.pixCopyPaste, "PIX charges come with a copy-and-paste code");
+    assertEquals(flow.db.balance(userId), 0);
+
+    const { payment, webhook } = await flow.control(`payments/${charge.id}/confirm`);
+    assertEquals(webhook.status, 200);
+    assertEquals(flow.db.balance(userId), 50);
+
+    // Asaas retries webhooks; a replay must not credit again
+    assertEquals(await flow.postWebhook({ event: "PAYMENT_RECEIVED", payment }), 200);
+    assertEquals(flow.db.balance(userId), 50);
+    assertEquals((await flow.provider.getCharge(charge.id))?.status, "CONFIRMED");
+  } finally {
+    await flow.stop();
+  }
+});
+
+Deno.test("deposit webhook with a wrong token is rejected and audited", async () => {
+  const flow = await startFlow();
+  try {
+    const userId = crypto.randomUUID();
+    const charge = await createDeposit(flow.provider, userId, 50);
+    const { payment } = await flow.control(`payments/${charge.id}/confirm?webhook=false`);
+
+    assertEquals(await flow.postWebhook({ event: "PAYMENT_RECEIVED", payment }, "forged"), 401);
+    assertEquals(flow.db.balance(userId), 0);
+    assertEquals(flow.db.auditLog.length, 1);
+    assertEquals(flow.db.auditLog[0].reason, "Invalid access token");
+  } finally {
+    await flow.stop();
+  }
+});
+
+Deno.test("deposit is not credited from a forged body for a pending charge", async () => {
+  const flow = await startFlow();
+  try {
+    const userId = crypto.randomUUID();
+    const charge = await createDeposit(flow.provider, userId, 50);
+
+    // Correct token, but the charge was never paid at the provider
+    const forged = { event: "PAYMENT_RECEIVED", payment: { id: charge.id, externalReference: JSON.stringify({ type: "deposit", userId }) } };
+    assertEquals(await flow.postWebhook(forged), 200);
+    assertEquals(flow.db.balance(userId), 0);
+    assertEquals(flow.db.auditLog[0].reason, "Payment status at provider is PENDING");
+  } finally {
+    await flow.stop();
+  }
+});
+
+Deno.test("overdue deposit is never credited", async () => {
+  const flow = await startFlow();
+  try {
+    const userId = crypto.randomUUID();
+    const charge = await createDeposit(flow.provider, userId, 50);
+
+    const { webhook } = await flow.control(`payments/${charge.id}/fail`);
+    assertEquals(webhook.status, 200);
+    assertEquals(flow.db.balance(userId), 0);
+  } finally {
+    await flow.stop();
+  }
+});
+
+Deno.test("withdrawal completes when the transfer is done", async () => {
+  const flow = await startFlow();
+  try {
+    const userId = crypto.randomUUID();
+    const { withdrawal, transferId } = await createTransfer(flow, userId);
+
+    const { webhook } = await flow.control(`transfers/${transferId}/confirm`);
+    assertEquals(webhook.status, 200);
+    assertEquals(withdrawal.status, "completed");
+    assertEquals(flow.db.balance(userId), 0);
+  } finally {
+    await flow.stop();
+  }
+});
+
+Deno.test("failed transfer rejects the withdrawal and refunds the fee too", async () => {
+  const flow = await startFlow();
+  try {
+    const userId = crypto.randomUUID();
+    const { withdrawal, transferId } = await createTransfer(flow, userId);
+
+    const { webhook } = await flow.control(`transfers/${transferId}/fail`);
+    assertEquals(webhook.status, 200);
+    assertEquals(withdrawal.status, "rejected");
+    assertEquals(withdrawal.rejection_reason, "Chave PIX inválida");
+    assertEquals(flow.db.balance(userId), 100);
+  } finally {
+    await flow.stop();
+  }
+});
+
+Deno.test("cancelled transfer without a webhook is settled by polling, once", async () => {
+  const flow = await startFlow();
+  try {
+    const userId = crypto.randomUUID();
+    const { withdrawal, transferId } = await createTransfer(flow, userId);
+
+    await flow.control(`transfers/${transferId}/cancel?webhook=false`);
+    assertEquals(withdrawal.status, "approved");
+
+    // What poll-withdrawal-transfers does for transfers stuck in flight
+    const payout = await flow.provider.getPayout(transferId);
+    assertEquals(payout?.status, "CANCELLED");
+    assertEquals(await settleWithdrawal(flow.db.client, withdrawal.id, payout!), true);
+    assertEquals(await settleWithdrawal(flow.db.client, withdrawal.id, payout!), false);
+
+    assertEquals(withdrawal.status, "rejected");
+    assertEquals(flow.db.balance(userId), 100);
+  } finally {
+    await flow.stop();
+  }
+});
+
+Deno.test("payout without a PIX key records the error for a retry", async () => {
+  const flow = await startFlow();
+  try {
+    const withdrawal = flow.db.addApprovedWithdrawal({
+      id: crypto.randomUUID(),
+      userId: crypto.randomUUID(),
+      amount: 95,
+      fee: 5,
+    });
+
+    const result = await sendPayout(flow.db.client, flow.provider, {
+      id: withdrawal.id,
+      seller_id: crypto.randomUUID(),
+      amount: withdrawal.amount,
+      payment_details: null,
+      payout_requested_at: null,
+    });
+
+    assertEquals(result, { transferId: null, transferError: "Saque sem chave PIX" });
+    assertEquals(withdrawal.transfer_id, null);
+    assertEquals(withdrawal.transfer_error, "Saque sem chave PIX");
+  } finally {
+    await flow.stop();
+  }
+});
+
+Deno.test("transfer whose response was lost is picked up on retry instead of sent twice", async () => {
+  const flow = await startFlow();
+  try {
+    const withdrawal = flow.db.addApprovedWithdrawal({
+      id: crypto.randomUUID(),
+      userId: crypto.randomUUID(),
+      amount: 95,
+      fee: 5,
+    });
+    const payout = () =>
+      sendPayout(flow.db.client, flow.provider, {
+        id: withdrawal.id,
+        seller_id: crypto.randomUUID(),
+        amount: withdrawal.amount,
+        payment_details: { pixKey: "vendedor@example.com", pixKeyType: "EMAIL" },
+        payout_requested_at: withdrawal.payout_requested_at,
+      });
+
+    await flow.control("faults/lose-transfer-response");
+    const first = await payout();
+    assertEquals(first.transferId, null);
+    assert(withdrawal.transfer_error);
+    assert(withdrawal.payout_requested_at, "the attempt stays recorded while its outcome is unknown");
+
+    const retry = await payout();
+    const transfers = await flow.transfers();
+    assertEquals(transfers.length, 1);
+    assertEquals(retry, { transferId: transfers[0].id, transferError: null });
+    assertEquals(withdrawal.transfer_id, transfers[0].id);
+    assertEquals(withdrawal.transfer_error, null);
+  } finally {
+    await flow.stop();
+  }
+});
+
+Deno.test("transfer refused by the provider clears the attempt for a retry", async () => {
+  const flow = await startFlow();
+  try {
+    const withdrawal = flow.db.addApprovedWithdrawal({
+      id: crypto.randomUUID(),
+      userId: crypto.randomUUID(),
+      amount: 0,
+      fee: 0,
+    });
+
+    const result = await sendPayout(flow.db.client, flow.provider, {
+      id: withdrawal.id,
+      seller_id: crypto.randomUUID(),
+      amount: withdrawal.amount,
+      payment_details: { pixKey: "vendedor@example.com", pixKeyType: "EMAIL" },
+      payout_requested_at: null,
+    });
+
+    assertEquals(result, { transferId: null, transferError: "Valor inválido" });
+    assertEquals(withdrawal.payout_requested_at, null);
+    assertEquals((await flow.transfers()).length, 0);
+  } finally {
+    await flow.stop();
+  }
+});
@@ -0,0 +1,141 @@
+// Roblox account verification against the mock Roblox API, offline:
+//
+//   deno test --allow-net --allow-env supabase/functions/tests/
+
+import { assert, assertEquals, assertRejects, assertThrows } from "https://deno.land/std@0.190.0/testing/asserts.ts";
+import { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2.85.0";
+import { confirmRobloxVerification, startRobloxVerification } from "../_shared/roblox-verification.ts";
+import { MockRobloxApi } from "../_shared/roblox/mock.ts";
+
+type Row = Record<string, unknown>;
+
+/**
+ * In-memory roblox_verifications table plus link_roblox_account, which links
+ * the account on the profile and clears the pending verification.
+ */
+class FakeVerificationDatabase {
+  readonly verifications = new Map<string, Row>();
+  readonly linked = new Map<string, { robloxUserId: number; robloxUsername: string }>();
+
+  get client(): SupabaseClient {
+    return this as unknown as SupabaseClient;
+  }
+
+  from(_table: string) {
+    return {
+      upsert: (row: Row) => {
+        this.verifications.set(row.user_id as string, { ...row });
+        return Promise.resolve({ error: null });
+      },
+      select: () => ({
+        eq: (_column: string, userId: string) => ({
+          maybeSingle: () => Promise.resolve({ data: this.verifications.get(userId) ?? null, error: null }),
+        }),
+      }),
+    };
+  }
+
+  rpc(_name: string, args: Row) {
+    this.linked.set(args._user_id as string, {
+      robloxUserId: args._roblox_user_id as number,
+      robloxUsername: args._roblox_username as string,
+    });
+    this.verifications.delete(args._user_id as string);
+    return Promise.resolve({ data: null, error: null });
+  }
+}
+
+const BUYER = "buyer-1";
+const ROBLOX_USER = { id: 42, name: "Builderman", displayName: "Builder", description: "Olá!" };
+
+function setup() {
+  return { db: new FakeVerificationDatabase(), roblox: new MockRobloxApi([ROBLOX_USER]) };
+}
+
+Deno.test("mock looks users up by name regardless of case and returns copies", async () => {
+  const { roblox } = setup();
+
+  const user = await roblox.getUserByUsername("builderMAN");
+  assertEquals(user, ROBLOX_USER);
+
+  user!.description = "alterado";
+  assertEquals((await roblox.getUser(42))?.description, "Olá!");
+  assertEquals(ROBLOX_USER.description, "Olá!");
+
+  assertEquals(await roblox.getUserByUsername("ninguem"), null);
+  assertEquals(await roblox.getUser(7), null);
+  assertThrows(() => roblox.setDescription(7, "x"), Error, "Usuário Roblox não encontrado");
+});
+
+Deno.test("start rejects a missing or unknown username", async () => {
+  const { db, roblox } = setup();
+
+  await assertRejects(() => startRobloxVerification(db.client, roblox, BUYER, ""), Error, "Informe o nome");
+  await assertRejects(
+    () => startRobloxVerification(db.client, roblox, BUYER, "ninguem"),
+    Error,
+    "Usuário Roblox não encontrado",
+  );
+  assertEquals(db.verifications.size, 0);
+});
+
+Deno.test("account is linked once the code is in the profile description", async () => {
+  const { db, roblox } = setup();
+
+  const started = await startRobloxVerification(db.client, roblox, BUYER, "  builderman ");
+  assertEquals(started.robloxUserId, 42);
+  assertEquals(started.robloxUsername, "Builderman");
+  assert(/^RH-[A-Z2-9]{8}$/.test(started.code));
+
+  roblox.setDescription(42, `Meu código: ${started.code}`);
+  const confirmed = await confirmRobloxVerification(db.client, roblox, BUYER);
+
+  assertEquals(confirmed, { verified: true, robloxUserId: 42, robloxUsername: "Builderman" });
+  assertEquals(db.linked.get(BUYER), { robloxUserId: 42, robloxUsername: "Builderman" });
+  assertEquals(db.verifications.has(BUYER), false);
+});
+
+Deno.test("account is not linked while the code is missing from the description", async () => {
+  const { db, roblox } = setup();
+
+  await startRobloxVerification(db.client, roblox, BUYER, "Builderman");
+
+  await assertRejects(
+    () => confirmRobloxVerification(db.client, roblox, BUYER),
+    Error,
+    "Código não encontrado na descrição",
+  );
+  assertEquals(db.linked.size, 0);
+  assert(db.verifications.has(BUYER));
+});
+
+Deno.test("starting again replaces the code", async () => {
+  const { db, roblox } = setup();
+
+  const first = await startRobloxVerification(db.client, roblox, BUYER, "Builderman");
+  const second = await startRobloxVerification(db.client, roblox, BUYER, "Builderman");
+  assert(first.code !== second.code);
+
+  roblox.setDescription(42, first.code);
+  await assertRejects(() => confirmRobloxVerification(db.client, roblox, BUYER), Error, "Código não encontrado");
+
+  roblox.setDescription(42, second.code);
+  assertEquals((await confirmRobloxVerification(db.client, roblox, BUYER)).verified, true);
+});
+
+Deno.test("expired or missing verifications cannot be confirmed", async () => {
+  const { db, roblox } = setup();
+
+  await assertRejects(
+    () => confirmRobloxVerification(db.client, roblox, BUYER),
+    Error,
+    "Nenhuma verificação em andamento",
+  );
+
+  const { code } = await startRobloxVerification(db.client, roblox, BUYER, "Builderman");
+  roblox.setDescription(42, code);
+  db.verifications.get(BUYER)!.expires_at = new Date(Date.now() - 1000).toISOString();
+
+  await assertRejects(() => confirmRobloxVerification(db.client, roblox, BUYER), Error, "Código expirado");
+  assertEquals(db.linked.size, 0);
+});
@@ -0,0 +1,191 @@
+-- Escrow: buyer funds are held when an order is created and only move to the
+-- seller when the order is completed (or back to the buyer when cancelled).
+
+-- Create escrow_status enum
+CREATE TYPE public.escrow_status AS ENUM ('held', 'released', 'refunded');
+
+-- Allow the transaction types used by the escrow flow
+ALTER TABLE public.transactions
+DROP CONSTRAINT IF EXISTS transactions_type_check;
+
+ALTER TABLE public.transactions
+ADD CONSTRAINT transactions_type_check
+CHECK (type IN ('deposit', 'purchase', 'sale', 'withdrawal', 'fee', 'refund'));
+
+-- Create escrows table (one per order)
+CREATE TABLE public.escrows (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  order_id UUID UNIQUE REFERENCES public.orders(id) ON DELETE CASCADE NOT NULL,
+  buyer_id UUID REFERENCES public.profiles(id) ON DELETE CASCADE NOT NULL,
+  seller_id UUID REFERENCES public.sellers(id) ON DELETE CASCADE NOT NULL,
+  amount DECIMAL(10, 2) NOT NULL CHECK (amount > 0),
+  commission_rate DECIMAL(5, 4) DEFAULT 0.05 NOT NULL CHECK (commission_rate >= 0 AND commission_rate < 1),
+  commission_amount DECIMAL(10, 2),
+  status public.escrow_status DEFAULT 'held' NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW() NOT NULL,
+  settled_at TIMESTAMP WITH TIME ZONE
+);
+
+ALTER TABLE public.escrows ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Participants can view own escrows" ON public.escrows
+  FOR SELECT USING (
+    auth.uid() = buyer_id OR
+    auth.uid() IN (SELECT user_id FROM public.sellers WHERE id = seller_id) OR
+    public.has_role(auth.uid(), 'admin')
+  );
+
+CREATE INDEX idx_escrows_seller_id ON public.escrows(seller_id);
+CREATE INDEX idx_escrows_status ON public.escrows(status);
+CREATE INDEX idx_transactions_order_id ON public.transactions(order_id);
+
+-- Hold buyer funds when an order is created
+CREATE OR REPLACE FUNCTION public.hold_order_funds()
+RETURNS TRIGGER
+LANGUAGE PLPGSQL
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  -- Debit the buyer (the balance >= 0 check rejects insufficient funds)
+  UPDATE public.profiles
+  SET balance = balance - NEW.total_price
+  WHERE id = NEW.buyer_id;
+
+  INSERT INTO public.escrows (order_id, buyer_id, seller_id, amount)
+  VALUES (NEW.id, NEW.buyer_id, NEW.seller_id, NEW.total_price);
+
+  INSERT INTO public.transactions (user_id, order_id, type, amount, description)
+  VALUES (
+    NEW.buyer_id,
+    NEW.id,
+    'purchase',
+    -NEW.total_price,
+    'Compra de ' || NEW.amount || ' Robux (valor retido em garantia)'
+  );
+
+  RETURN NEW;
+END;
+$$;
+
+-- Release held funds to the seller, minus the platform commission
+CREATE OR REPLACE FUNCTION public.release_escrow(_order_id UUID)
+RETURNS VOID
+LANGUAGE PLPGSQL
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  escrow_row public.escrows%ROWTYPE;
+  seller_user_id UUID;
+  commission DECIMAL(10, 2);
+BEGIN
+  SELECT * INTO escrow_row
+  FROM public.escrows
+  WHERE order_id = _order_id
+  FOR UPDATE;
+
+  IF NOT FOUND OR escrow_row.status <> 'held' THEN
+    RETURN;
+  END IF;
+
+  SELECT user_id INTO seller_user_id
+  FROM public.sellers
+  WHERE id = escrow_row.seller_id;
+
+  commission := ROUND(escrow_row.amount * escrow_row.commission_rate, 2);
+
+  UPDATE public.profiles
+  SET balance = balance + (escrow_row.amount - commission)
+  WHERE id = seller_user_id;
+
+  UPDATE public.escrows
+  SET status = 'released', commission_amount = commission, settled_at = NOW()
+  WHERE id = escrow_row.id;
+
+  UPDATE public.sellers
+  SET total_sales = total_sales + 1
+  WHERE id = escrow_row.seller_id;
+
+  INSERT INTO public.transactions (user_id, order_id, type, amount, description)
+  VALUES (
+    seller_user_id,
+    _order_id,
+    'sale',
+    escrow_row.amount - commission,
+    'Venda concluída (comissão: R$ ' || commission || ')'
+  );
+END;
+$$;
+
+-- Return held funds to the buyer
+CREATE OR REPLACE FUNCTION public.refund_escrow(_order_id UUID)
+RETURNS VOID
+LANGUAGE PLPGSQL
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  escrow_row public.escrows%ROWTYPE;
+BEGIN
+  SELECT * INTO escrow_row
+  FROM public.escrows
+  WHERE order_id = _order_id
+  FOR UPDATE;
+
+  IF NOT FOUND OR escrow_row.status <> 'held' THEN
+    RETURN;
+  END IF;
+
+  UPDATE public.profiles
+  SET balance = balance + escrow_row.amount
+  WHERE id = escrow_row.buyer_id;
+
+  UPDATE public.escrows
+  SET status = 'refunded', settled_at = NOW()
+  WHERE id = escrow_row.id;
+
+  INSERT INTO public.transactions (user_id, order_id, type, amount, description)
+  VALUES (
+    escrow_row.buyer_id,
+    _order_id,
+    'refund',
+    escrow_row.amount,
+    'Reembolso de pedido cancelado'
+  );
+END;
+$$;
+
+-- Settle the escrow when an order reaches a final status
+CREATE OR REPLACE FUNCTION public.settle_order_escrow()
+RETURNS TRIGGER
+LANGUAGE PLPGSQL
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.status = 'completed' THEN
+    PERFORM public.release_escrow(NEW.id);
+  ELSIF NEW.status = 'cancelled' THEN
+    PERFORM public.refund_escrow(NEW.id);
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+-- Only the trigger functions may move escrow funds
+REVOKE EXECUTE ON FUNCTION public.release_escrow(UUID) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.refund_escrow(UUID) FROM PUBLIC, anon, authenticated;
+
+-- Create triggers for escrow
+CREATE TRIGGER on_order_created_hold_funds
+  AFTER INSERT ON public.orders
+  FOR EACH ROW
+  EXECUTE FUNCTION public.hold_order_funds();
+
+CREATE TRIGGER on_order_status_settle_escrow
+  AFTER UPDATE OF status ON public.orders
+  FOR EACH ROW
+  WHEN (OLD.status IS DISTINCT FROM NEW.status)
+  EXECUTE FUNCTION public.settle_order_escrow();
@@ -0,0 +1,86 @@
+-- Place orders through a single server-side function so validation, pricing
+-- and the buyer debit happen in one transaction with row locking.
+
+-- Orders can no longer be inserted directly by clients
+DROP POLICY IF EXISTS "Buyers can create orders" ON public.orders;
+
+-- The escrow hold now happens inside place_order
+DROP TRIGGER IF EXISTS on_order_created_hold_funds ON public.orders;
+DROP FUNCTION IF EXISTS public.hold_order_funds();
+
+CREATE OR REPLACE FUNCTION public.place_order(
+  _seller_id UUID,
+  _amount INTEGER,
+  _delivery_method public.delivery_method
+)
+RETURNS public.orders
+LANGUAGE PLPGSQL
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  buyer_id UUID := auth.uid();
+  seller_row public.sellers%ROWTYPE;
+  buyer_balance DECIMAL(10, 2);
+  order_total DECIMAL(10, 2);
+  new_order public.orders%ROWTYPE;
+BEGIN
+  IF buyer_id IS NULL THEN
+    RAISE EXCEPTION 'Não autenticado';
+  END IF;
+
+  SELECT * INTO seller_row
+  FROM public.sellers
+  WHERE id = _seller_id
+  FOR SHARE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Vendedor não encontrado';
+  END IF;
+
+  IF seller_row.user_id = buyer_id THEN
+    RAISE EXCEPTION 'Você não pode comprar de si mesmo';
+  END IF;
+
+  IF _amount IS NULL OR _amount < seller_row.min_amount OR _amount > seller_row.max_amount THEN
+    RAISE EXCEPTION 'A quantidade deve estar entre % e % Robux', seller_row.min_amount, seller_row.max_amount;
+  END IF;
+
+  order_total := ROUND((_amount / 1000.0) * seller_row.price_per_1k, 2);
+
+  -- Lock the buyer row so concurrent purchases cannot double-spend
+  SELECT balance INTO buyer_balance
+  FROM public.profiles
+  WHERE id = buyer_id
+  FOR UPDATE;
+
+  IF buyer_balance < order_total THEN
+    RAISE EXCEPTION 'Saldo insuficiente';
+  END IF;
+
+  INSERT INTO public.orders (buyer_id, seller_id, amount, total_price, delivery_method)
+  VALUES (buyer_id, _seller_id, _amount, order_total, _delivery_method)
+  RETURNING * INTO new_order;
+
+  UPDATE public.profiles
+  SET balance = balance - order_total
+  WHERE id = buyer_id;
+
+  INSERT INTO public.escrows (order_id, buyer_id, seller_id, amount)
+  VALUES (new_order.id, buyer_id, _seller_id, order_total);
+
+  INSERT INTO public.transactions (user_id, order_id, type, amount, description)
+  VALUES (
+    buyer_id,
+    new_order.id,
+    'purchase',
+    -order_total,
+    'Compra de ' || _amount || ' Robux (valor retido em garantia)'
+  );
+
+  RETURN new_order;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.place_order(UUID, INTEGER, public.delivery_method) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.place_order(UUID, INTEGER, public.delivery_method) TO authenticated;
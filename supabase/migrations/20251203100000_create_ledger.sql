@@ -0,0 +1,518 @@
+-- Double-entry ledger behind profiles.balance.
+-- Every movement of money is a journal whose entries sum to zero. User wallet
+-- entries keep profiles.balance in sync; any other change to balance is rejected.
+
+-- Create ledger_account_kind enum
+CREATE TYPE public.ledger_account_kind AS ENUM ('user_wallet', 'escrow', 'platform_fees', 'provider_clearing');
+
+-- Create ledger_accounts table
+CREATE TABLE public.ledger_accounts (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  kind public.ledger_account_kind NOT NULL,
+  user_id UUID REFERENCES public.profiles(id) ON DELETE CASCADE,
+  name TEXT NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW() NOT NULL,
+  CHECK ((kind = 'user_wallet') = (user_id IS NOT NULL))
+);
+
+CREATE UNIQUE INDEX idx_ledger_accounts_wallet ON public.ledger_accounts(user_id) WHERE kind = 'user_wallet';
+CREATE UNIQUE INDEX idx_ledger_accounts_system ON public.ledger_accounts(kind) WHERE user_id IS NULL;
+
+-- Create ledger_journals table
+CREATE TABLE public.ledger_journals (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  description TEXT NOT NULL,
+  order_id UUID REFERENCES public.orders(id) ON DELETE SET NULL,
+  withdrawal_id UUID REFERENCES public.withdrawals(id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW() NOT NULL
+);
+
+-- Create ledger_entries table (positive amounts increase the account balance)
+CREATE TABLE public.ledger_entries (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  journal_id UUID REFERENCES public.ledger_journals(id) ON DELETE CASCADE NOT NULL,
+  account_id UUID REFERENCES public.ledger_accounts(id) ON DELETE CASCADE NOT NULL,
+  amount DECIMAL(12, 2) NOT NULL CHECK (amount <> 0),
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW() NOT NULL
+);
+
+ALTER TABLE public.ledger_accounts ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.ledger_journals ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.ledger_entries ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can view ledger accounts" ON public.ledger_accounts
+  FOR SELECT USING (public.has_role(auth.uid(), 'admin'));
+
+CREATE POLICY "Admins can view ledger journals" ON public.ledger_journals
+  FOR SELECT USING (public.has_role(auth.uid(), 'admin'));
+
+CREATE POLICY "Admins can view ledger entries" ON public.ledger_entries
+  FOR SELECT USING (public.has_role(auth.uid(), 'admin'));
+
+CREATE INDEX idx_ledger_entries_journal_id ON public.ledger_entries(journal_id);
+CREATE INDEX idx_ledger_entries_account_id ON public.ledger_entries(account_id);
+CREATE INDEX idx_ledger_journals_order_id ON public.ledger_journals(order_id);
+
+-- System accounts
+INSERT INTO public.ledger_accounts (kind, name) VALUES
+  ('escrow', 'Garantia de pedidos'),
+  ('platform_fees', 'Taxas da plataforma'),
+  ('provider_clearing', 'Compensação do provedor de pagamento');
+
+-- Reject journals whose entries do not sum to zero
+CREATE OR REPLACE FUNCTION public.check_ledger_journal_balanced()
+RETURNS TRIGGER
+LANGUAGE PLPGSQL
+SET search_path = public
+AS $$
+BEGIN
+  IF (SELECT SUM(amount) FROM public.ledger_entries WHERE journal_id = NEW.journal_id) <> 0 THEN
+    RAISE EXCEPTION 'Ledger journal % is not balanced', NEW.journal_id;
+  END IF;
+
+  RETURN NULL;
+END;
+$$;
+
+CREATE CONSTRAINT TRIGGER ledger_journal_balanced
+  AFTER INSERT ON public.ledger_entries
+  DEFERRABLE INITIALLY DEFERRED
+  FOR EACH ROW
+  EXECUTE FUNCTION public.check_ledger_journal_balanced();
+
+-- profiles.balance may only change through ledger_post
+CREATE OR REPLACE FUNCTION public.guard_profile_balance()
+RETURNS TRIGGER
+LANGUAGE PLPGSQL
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.balance IS DISTINCT FROM OLD.balance
+    AND COALESCE(current_setting('app.ledger_posting', true), 'off') <> 'on' THEN
+    RAISE EXCEPTION 'O saldo só pode ser alterado pelo livro-razão';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER guard_profiles_balance BEFORE UPDATE ON public.profiles
+  FOR EACH ROW EXECUTE FUNCTION public.guard_profile_balance();
+
+-- Get (or create) a ledger account
+CREATE OR REPLACE FUNCTION public.ledger_account_id(
+  _kind public.ledger_account_kind,
+  _user_id UUID DEFAULT NULL
+)
+RETURNS UUID
+LANGUAGE PLPGSQL
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  account UUID;
+BEGIN
+  SELECT id INTO account
+  FROM public.ledger_accounts
+  WHERE kind = _kind AND user_id IS NOT DISTINCT FROM _user_id;
+
+  IF account IS NULL THEN
+    BEGIN
+      INSERT INTO public.ledger_accounts (kind, user_id, name)
+      VALUES (_kind, _user_id, 'Carteira ' || _user_id)
+      RETURNING id INTO account;
+    EXCEPTION WHEN unique_violation THEN
+      SELECT id INTO account
+      FROM public.ledger_accounts
+      WHERE kind = _kind AND user_id IS NOT DISTINCT FROM _user_id;
+    END;
+  END IF;
+
+  RETURN account;
+END;
+$$;
+
+-- Post a balanced two-entry journal and sync any affected wallet balances
+CREATE OR REPLACE FUNCTION public.ledger_post(
+  _from_account UUID,
+  _to_account UUID,
+  _amount DECIMAL,
+  _description TEXT,
+  _order_id UUID DEFAULT NULL,
+  _withdrawal_id UUID DEFAULT NULL
+)
+RETURNS UUID
+LANGUAGE PLPGSQL
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  journal UUID;
+BEGIN
+  IF _amount IS NULL OR _amount <= 0 THEN
+    RAISE EXCEPTION 'Valor de lançamento inválido';
+  END IF;
+
+  INSERT INTO public.ledger_journals (description, order_id, withdrawal_id)
+  VALUES (_description, _order_id, _withdrawal_id)
+  RETURNING id INTO journal;
+
+  INSERT INTO public.ledger_entries (journal_id, account_id, amount)
+  VALUES (journal, _from_account, -_amount), (journal, _to_account, _amount);
+
+  PERFORM set_config('app.ledger_posting', 'on', true);
+
+  UPDATE public.profiles p
+  SET balance = p.balance + e.amount
+  FROM public.ledger_entries e
+  JOIN public.ledger_accounts a ON a.id = e.account_id
+  WHERE e.journal_id = journal
+    AND a.kind = 'user_wallet'
+    AND p.id = a.user_id;
+
+  PERFORM set_config('app.ledger_posting', 'off', true);
+
+  RETURN journal;
+END;
+$$;
+
+-- Opening balances for data that predates the ledger
+DO $$
+DECLARE
+  profile_row RECORD;
+  held_total DECIMAL;
+  journal UUID;
+BEGIN
+  FOR profile_row IN SELECT id, balance FROM public.profiles WHERE balance > 0 LOOP
+    INSERT INTO public.ledger_journals (description)
+    VALUES ('Saldo de abertura')
+    RETURNING id INTO journal;
+
+    INSERT INTO public.ledger_entries (journal_id, account_id, amount) VALUES
+      (journal, public.ledger_account_id('provider_clearing'), -profile_row.balance),
+      (journal, public.ledger_account_id('user_wallet', profile_row.id), profile_row.balance);
+  END LOOP;
+
+  SELECT COALESCE(SUM(amount), 0) INTO held_total FROM public.escrows WHERE status = 'held';
+
+  IF held_total > 0 THEN
+    INSERT INTO public.ledger_journals (description)
+    VALUES ('Garantias em aberto')
+    RETURNING id INTO journal;
+
+    INSERT INTO public.ledger_entries (journal_id, account_id, amount) VALUES
+      (journal, public.ledger_account_id('provider_clearing'), -held_total),
+      (journal, public.ledger_account_id('escrow'), held_total);
+  END IF;
+END;
+$$;
+
+-- Place order: buyer wallet -> escrow
+CREATE OR REPLACE FUNCTION public.place_order(
+  _seller_id UUID,
+  _amount INTEGER,
+  _delivery_method public.delivery_method
+)
+RETURNS public.orders
+LANGUAGE PLPGSQL
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  buyer_id UUID := auth.uid();
+  seller_row public.sellers%ROWTYPE;
+  buyer_balance DECIMAL(10, 2);
+  order_total DECIMAL(10, 2);
+  new_order public.orders%ROWTYPE;
+BEGIN
+  IF buyer_id IS NULL THEN
+    RAISE EXCEPTION 'Não autenticado';
+  END IF;
+
+  SELECT * INTO seller_row
+  FROM public.sellers
+  WHERE id = _seller_id
+  FOR SHARE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Vendedor não encontrado';
+  END IF;
+
+  IF seller_row.user_id = buyer_id THEN
+    RAISE EXCEPTION 'Você não pode comprar de si mesmo';
+  END IF;
+
+  IF _amount IS NULL OR _amount < seller_row.min_amount OR _amount > seller_row.max_amount THEN
+    RAISE EXCEPTION 'A quantidade deve estar entre % e % Robux', seller_row.min_amount, seller_row.max_amount;
+  END IF;
+
+  order_total := ROUND((_amount / 1000.0) * seller_row.price_per_1k, 2);
+
+  -- Lock the buyer row so concurrent purchases cannot double-spend
+  SELECT balance INTO buyer_balance
+  FROM public.profiles
+  WHERE id = buyer_id
+  FOR UPDATE;
+
+  IF buyer_balance < order_total THEN
+    RAISE EXCEPTION 'Saldo insuficiente';
+  END IF;
+
+  INSERT INTO public.orders (buyer_id, seller_id, amount, total_price, delivery_method)
+  VALUES (buyer_id, _seller_id, _amount, order_total, _delivery_method)
+  RETURNING * INTO new_order;
+
+  PERFORM public.ledger_post(
+    public.ledger_account_id('user_wallet', buyer_id),
+    public.ledger_account_id('escrow'),
+    order_total,
+    'Compra retida em garantia',
+    new_order.id
+  );
+
+  INSERT INTO public.escrows (order_id, buyer_id, seller_id, amount)
+  VALUES (new_order.id, buyer_id, _seller_id, order_total);
+
+  INSERT INTO public.transactions (user_id, order_id, type, amount, description)
+  VALUES (
+    buyer_id,
+    new_order.id,
+    'purchase',
+    -order_total,
+    'Compra de ' || _amount || ' Robux (valor retido em garantia)'
+  );
+
+  RETURN new_order;
+END;
+$$;
+
+-- Release: escrow -> seller wallet (net) + platform fees (commission)
+CREATE OR REPLACE FUNCTION public.release_escrow(_order_id UUID)
+RETURNS VOID
+LANGUAGE PLPGSQL
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  escrow_row public.escrows%ROWTYPE;
+  seller_user_id UUID;
+  commission DECIMAL(10, 2);
+BEGIN
+  SELECT * INTO escrow_row
+  FROM public.escrows
+  WHERE order_id = _order_id
+  FOR UPDATE;
+
+  IF NOT FOUND OR escrow_row.status <> 'held' THEN
+    RETURN;
+  END IF;
+
+  SELECT user_id INTO seller_user_id
+  FROM public.sellers
+  WHERE id = escrow_row.seller_id;
+
+  commission := ROUND(escrow_row.amount * escrow_row.commission_rate, 2);
+
+  PERFORM public.ledger_post(
+    public.ledger_account_id('escrow'),
+    public.ledger_account_id('user_wallet', seller_user_id),
+    escrow_row.amount - commission,
+    'Liberação de garantia ao vendedor',
+    _order_id
+  );
+
+  IF commission > 0 THEN
+    PERFORM public.ledger_post(
+      public.ledger_account_id('escrow'),
+      public.ledger_account_id('platform_fees'),
+      commission,
+      'Comissão de venda',
+      _order_id
+    );
+  END IF;
+
+  UPDATE public.escrows
+  SET status = 'released', commission_amount = commission, settled_at = NOW()
+  WHERE id = escrow_row.id;
+
+  UPDATE public.sellers
+  SET total_sales = total_sales + 1
+  WHERE id = escrow_row.seller_id;
+
+  INSERT INTO public.transactions (user_id, order_id, type, amount, description)
+  VALUES (
+    seller_user_id,
+    _order_id,
+    'sale',
+    escrow_row.amount - commission,
+    'Venda concluída (comissão: R$ ' || commission || ')'
+  );
+END;
+$$;
+
+-- Refund: escrow -> buyer wallet
+CREATE OR REPLACE FUNCTION public.refund_escrow(_order_id UUID)
+RETURNS VOID
+LANGUAGE PLPGSQL
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  escrow_row public.escrows%ROWTYPE;
+BEGIN
+  SELECT * INTO escrow_row
+  FROM public.escrows
+  WHERE order_id = _order_id
+  FOR UPDATE;
+
+  IF NOT FOUND OR escrow_row.status <> 'held' THEN
+    RETURN;
+  END IF;
+
+  PERFORM public.ledger_post(
+    public.ledger_account_id('escrow'),
+    public.ledger_account_id('user_wallet', escrow_row.buyer_id),
+    escrow_row.amount,
+    'Reembolso de garantia ao comprador',
+    _order_id
+  );
+
+  UPDATE public.escrows
+  SET status = 'refunded', settled_at = NOW()
+  WHERE id = escrow_row.id;
+
+  INSERT INTO public.transactions (user_id, order_id, type, amount, description)
+  VALUES (
+    escrow_row.buyer_id,
+    _order_id,
+    'refund',
+    escrow_row.amount,
+    'Reembolso de pedido cancelado'
+  );
+END;
+$$;
+
+-- Deposit confirmed by the payment provider: provider clearing -> user wallet
+CREATE OR REPLACE FUNCTION public.credit_wallet_deposit(
+  _user_id UUID,
+  _amount DECIMAL,
+  _description TEXT
+)
+RETURNS VOID
+LANGUAGE PLPGSQL
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  PERFORM public.ledger_post(
+    public.ledger_account_id('provider_clearing'),
+    public.ledger_account_id('user_wallet', _user_id),
+    _amount,
+    _description
+  );
+
+  INSERT INTO public.transactions (user_id, type, amount, description)
+  VALUES (_user_id, 'deposit', _amount, _description);
+END;
+$$;
+
+-- Withdrawal requested: user wallet -> provider clearing (net) + fee recipient
+CREATE OR REPLACE FUNCTION public.debit_wallet_withdrawal(
+  _user_id UUID,
+  _withdrawal_id UUID,
+  _amount DECIMAL,
+  _fee DECIMAL,
+  _fee_user_id UUID DEFAULT NULL
+)
+RETURNS VOID
+LANGUAGE PLPGSQL
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  wallet UUID := public.ledger_account_id('user_wallet', _user_id);
+BEGIN
+  _amount := ROUND(_amount, 2);
+  _fee := ROUND(_fee, 2);
+
+  -- Lock the wallet owner so concurrent withdrawals cannot overdraw
+  PERFORM 1 FROM public.profiles WHERE id = _user_id FOR UPDATE;
+
+  PERFORM public.ledger_post(
+    wallet,
+    public.ledger_account_id('provider_clearing'),
+    _amount - _fee,
+    'Saque via PIX',
+    NULL,
+    _withdrawal_id
+  );
+
+  IF _fee > 0 THEN
+    PERFORM public.ledger_post(
+      wallet,
+      CASE
+        WHEN _fee_user_id IS NULL THEN public.ledger_account_id('platform_fees')
+        ELSE public.ledger_account_id('user_wallet', _fee_user_id)
+      END,
+      _fee,
+      'Taxa de saque',
+      NULL,
+      _withdrawal_id
+    );
+
+    IF _fee_user_id IS NOT NULL THEN
+      INSERT INTO public.transactions (user_id, type, amount, description)
+      VALUES (_fee_user_id, 'fee', _fee, 'Taxa de saque - Saque ' || _withdrawal_id);
+    END IF;
+  END IF;
+
+  INSERT INTO public.transactions (user_id, type, amount, description)
+  VALUES (
+    _user_id,
+    'withdrawal',
+    -_amount,
+    'Solicitação de saque via PIX (Taxa: R$ ' || TO_CHAR(_fee, 'FM999999990.00') || ')'
+  );
+END;
+$$;
+
+-- Flag every wallet whose cached balance disagrees with its ledger entries
+CREATE OR REPLACE FUNCTION public.ledger_reconciliation_report()
+RETURNS TABLE (
+  user_id UUID,
+  username TEXT,
+  profile_balance DECIMAL,
+  ledger_balance DECIMAL,
+  difference DECIMAL
+)
+LANGUAGE PLPGSQL
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT public.has_role(auth.uid(), 'admin') AND auth.role() <> 'service_role' THEN
+    RAISE EXCEPTION 'Acesso negado';
+  END IF;
+
+  RETURN QUERY
+  SELECT
+    p.id,
+    p.username,
+    p.balance::DECIMAL,
+    COALESCE(SUM(e.amount), 0)::DECIMAL,
+    (p.balance - COALESCE(SUM(e.amount), 0))::DECIMAL
+  FROM public.profiles p
+  LEFT JOIN public.ledger_accounts a ON a.user_id = p.id AND a.kind = 'user_wallet'
+  LEFT JOIN public.ledger_entries e ON e.account_id = a.id
+  GROUP BY p.id, p.username, p.balance
+  HAVING p.balance <> COALESCE(SUM(e.amount), 0)
+  ORDER BY ABS(p.balance - COALESCE(SUM(e.amount), 0)) DESC;
+END;
+$$;
+
+-- Only server-side code may post to the ledger
+REVOKE EXECUTE ON FUNCTION public.ledger_account_id(public.ledger_account_kind, UUID) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.ledger_post(UUID, UUID, DECIMAL, TEXT, UUID, UUID) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.credit_wallet_deposit(UUID, DECIMAL, TEXT) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.debit_wallet_withdrawal(UUID, UUID, DECIMAL, DECIMAL, UUID) FROM PUBLIC, anon, authenticated;
@@ -0,0 +1,97 @@
+-- Track provider payments so each confirmed deposit is credited exactly once,
+-- no matter whether the webhook or the manual check sees it first.
+
+-- Create payments table
+CREATE TABLE public.payments (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  provider TEXT DEFAULT 'asaas' NOT NULL,
+  provider_payment_id TEXT NOT NULL,
+  user_id UUID REFERENCES public.profiles(id) ON DELETE CASCADE NOT NULL,
+  amount DECIMAL(10, 2) NOT NULL CHECK (amount > 0),
+  billing_type TEXT,
+  status TEXT DEFAULT 'PENDING' NOT NULL,
+  processed_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW() NOT NULL,
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW() NOT NULL,
+  UNIQUE(provider, provider_payment_id)
+);
+
+ALTER TABLE public.payments ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own payments" ON public.payments
+  FOR SELECT USING (
+    auth.uid() = user_id OR
+    public.has_role(auth.uid(), 'admin')
+  );
+
+CREATE TRIGGER update_payments_updated_at BEFORE UPDATE ON public.payments
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+CREATE INDEX idx_payments_user_id ON public.payments(user_id);
+
+-- Backfill deposits credited before this table existed so they are not credited again
+INSERT INTO public.payments (provider, provider_payment_id, user_id, amount, billing_type, status, processed_at, created_at)
+SELECT
+  'asaas',
+  SUBSTRING(description FROM 'Asaas #(\S+)'),
+  user_id,
+  amount,
+  SUBSTRING(description FROM 'Depósito via (\S+)'),
+  'RECEIVED',
+  created_at,
+  created_at
+FROM public.transactions
+WHERE type = 'deposit' AND description ~ 'Asaas #\S+'
+ON CONFLICT (provider, provider_payment_id) DO NOTHING;
+
+-- Credit a confirmed payment once. Returns false if it was already processed.
+CREATE OR REPLACE FUNCTION public.process_payment_credit(
+  _provider TEXT,
+  _provider_payment_id TEXT,
+  _user_id UUID,
+  _amount DECIMAL,
+  _billing_type TEXT,
+  _status TEXT
+)
+RETURNS BOOLEAN
+LANGUAGE PLPGSQL
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  payment_row public.payments%ROWTYPE;
+BEGIN
+  INSERT INTO public.payments (provider, provider_payment_id, user_id, amount, billing_type, status)
+  VALUES (_provider, _provider_payment_id, _user_id, _amount, _billing_type, _status)
+  ON CONFLICT (provider, provider_payment_id) DO NOTHING;
+
+  -- Serialize concurrent webhook / manual check calls on the payment row
+  SELECT * INTO payment_row
+  FROM public.payments
+  WHERE provider = _provider AND provider_payment_id = _provider_payment_id
+  FOR UPDATE;
+
+  IF payment_row.user_id <> _user_id THEN
+    RAISE EXCEPTION 'Payment % does not belong to user %', _provider_payment_id, _user_id;
+  END IF;
+
+  IF payment_row.processed_at IS NOT NULL THEN
+    UPDATE public.payments SET status = _status WHERE id = payment_row.id;
+    RETURN FALSE;
+  END IF;
+
+  PERFORM public.credit_wallet_deposit(
+    _user_id,
+    _amount,
+    'Depósito via ' || COALESCE(_billing_type, 'PIX') || ' - ' || INITCAP(_provider) || ' #' || _provider_payment_id
+  );
+
+  UPDATE public.payments
+  SET status = _status, amount = _amount, processed_at = NOW()
+  WHERE id = payment_row.id;
+
+  RETURN TRUE;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.process_payment_credit(TEXT, TEXT, UUID, DECIMAL, TEXT, TEXT) FROM PUBLIC, anon, authenticated;
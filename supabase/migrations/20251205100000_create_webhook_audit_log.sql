@@ -0,0 +1,19 @@
+-- Record webhook calls that fail authentication or provider verification
+
+-- Create webhook_audit_log table
+CREATE TABLE public.webhook_audit_log (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  provider TEXT NOT NULL,
+  event TEXT,
+  reason TEXT NOT NULL,
+  source_ip TEXT,
+  payload JSONB,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW() NOT NULL
+);
+
+ALTER TABLE public.webhook_audit_log ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can view webhook audit log" ON public.webhook_audit_log
+  FOR SELECT USING (public.has_role(auth.uid(), 'admin'));
+
+CREATE INDEX idx_webhook_audit_log_created_at ON public.webhook_audit_log(created_at DESC);
@@ -0,0 +1,155 @@
+-- Track how much of each escrow went back to the buyer
+ALTER TABLE public.escrows
+  ADD COLUMN refunded_amount DECIMAL(10, 2) DEFAULT 0 NOT NULL;
+
+UPDATE public.escrows
+SET refunded_amount = amount
+WHERE status = 'refunded';
+
+ALTER TABLE public.escrows
+  ADD CONSTRAINT escrows_refunded_amount_check CHECK (refunded_amount >= 0 AND refunded_amount <= amount);
+
+-- Refund: escrow -> buyer wallet. A partial refund releases the remainder
+-- to the seller, minus commission on that remainder.
+DROP FUNCTION public.refund_escrow(UUID);
+
+CREATE OR REPLACE FUNCTION public.refund_escrow(_order_id UUID, _amount DECIMAL DEFAULT NULL)
+RETURNS VOID
+LANGUAGE PLPGSQL
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  escrow_row public.escrows%ROWTYPE;
+  seller_user_id UUID;
+  refund DECIMAL(10, 2);
+  remainder DECIMAL(10, 2);
+  commission DECIMAL(10, 2) := 0;
+BEGIN
+  SELECT * INTO escrow_row
+  FROM public.escrows
+  WHERE order_id = _order_id
+  FOR UPDATE;
+
+  IF NOT FOUND OR escrow_row.status <> 'held' THEN
+    RETURN;
+  END IF;
+
+  refund := ROUND(COALESCE(_amount, escrow_row.amount), 2);
+
+  IF refund <= 0 OR refund > escrow_row.amount THEN
+    RAISE EXCEPTION 'Valor de reembolso inválido';
+  END IF;
+
+  remainder := escrow_row.amount - refund;
+
+  PERFORM public.ledger_post(
+    public.ledger_account_id('escrow'),
+    public.ledger_account_id('user_wallet', escrow_row.buyer_id),
+    refund,
+    'Reembolso de garantia ao comprador',
+    _order_id
+  );
+
+  INSERT INTO public.transactions (user_id, order_id, type, amount, description)
+  VALUES (
+    escrow_row.buyer_id,
+    _order_id,
+    'refund',
+    refund,
+    CASE
+      WHEN remainder > 0 THEN 'Reembolso parcial de pedido cancelado'
+      ELSE 'Reembolso de pedido cancelado'
+    END
+  );
+
+  IF remainder > 0 THEN
+    SELECT user_id INTO seller_user_id
+    FROM public.sellers
+    WHERE id = escrow_row.seller_id;
+
+    commission := ROUND(remainder * escrow_row.commission_rate, 2);
+
+    PERFORM public.ledger_post(
+      public.ledger_account_id('escrow'),
+      public.ledger_account_id('user_wallet', seller_user_id),
+      remainder - commission,
+      'Liberação parcial de garantia ao vendedor',
+      _order_id
+    );
+
+    IF commission > 0 THEN
+      PERFORM public.ledger_post(
+        public.ledger_account_id('escrow'),
+        public.ledger_account_id('platform_fees'),
+        commission,
+        'Comissão de venda',
+        _order_id
+      );
+    END IF;
+
+    INSERT INTO public.transactions (user_id, order_id, type, amount, description)
+    VALUES (
+      seller_user_id,
+      _order_id,
+      'sale',
+      remainder - commission,
+      'Pedido cancelado com reembolso parcial (comissão: R$ ' || commission || ')'
+    );
+  END IF;
+
+  UPDATE public.escrows
+  SET status = 'refunded',
+      refunded_amount = refund,
+      commission_amount = commission,
+      settled_at = NOW()
+  WHERE id = escrow_row.id;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.refund_escrow(UUID, DECIMAL) FROM PUBLIC, anon, authenticated;
+
+-- Cancel an order as its seller or an admin, refunding all or part of it.
+-- Without _refund_amount the buyer gets the full total back.
+CREATE OR REPLACE FUNCTION public.cancel_order(_order_id UUID, _refund_amount DECIMAL DEFAULT NULL)
+RETURNS public.orders
+LANGUAGE PLPGSQL
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  order_row public.orders%ROWTYPE;
+BEGIN
+  SELECT * INTO order_row
+  FROM public.orders
+  WHERE id = _order_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Pedido não encontrado';
+  END IF;
+
+  IF NOT public.has_role(auth.uid(), 'admin') AND NOT EXISTS (
+    SELECT 1 FROM public.sellers
+    WHERE id = order_row.seller_id AND user_id = auth.uid()
+  ) THEN
+    RAISE EXCEPTION 'Sem permissão para cancelar este pedido';
+  END IF;
+
+  IF order_row.status IN ('completed', 'cancelled') THEN
+    RAISE EXCEPTION 'Pedido já finalizado';
+  END IF;
+
+  PERFORM public.refund_escrow(_order_id, _refund_amount);
+
+  -- The escrow is already settled, so the status trigger is a no-op here
+  UPDATE public.orders
+  SET status = 'cancelled'
+  WHERE id = _order_id
+  RETURNING * INTO order_row;
+
+  RETURN order_row;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.cancel_order(UUID, DECIMAL) TO authenticated;
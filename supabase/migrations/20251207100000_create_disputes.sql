@@ -0,0 +1,298 @@
+-- Create dispute enums
+CREATE TYPE public.dispute_status AS ENUM ('open', 'resolved');
+CREATE TYPE public.dispute_resolution AS ENUM ('release', 'refund', 'split');
+
+-- Create disputes table (one per order)
+CREATE TABLE public.disputes (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  order_id UUID UNIQUE REFERENCES public.orders(id) ON DELETE CASCADE NOT NULL,
+  opened_by UUID REFERENCES public.profiles(id) ON DELETE CASCADE NOT NULL,
+  reason TEXT NOT NULL,
+  status public.dispute_status DEFAULT 'open' NOT NULL,
+  resolution public.dispute_resolution,
+  refund_amount DECIMAL(10, 2),
+  resolution_notes TEXT,
+  resolved_by UUID REFERENCES public.profiles(id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW() NOT NULL,
+  resolved_at TIMESTAMP WITH TIME ZONE
+);
+
+-- Create dispute messages table: statements, evidence and rulings
+CREATE TABLE public.dispute_messages (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  dispute_id UUID REFERENCES public.disputes(id) ON DELETE CASCADE NOT NULL,
+  sender_id UUID REFERENCES public.profiles(id) ON DELETE CASCADE NOT NULL,
+  message TEXT NOT NULL,
+  evidence_urls TEXT[] DEFAULT '{}' NOT NULL,
+  is_system BOOLEAN DEFAULT false NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW() NOT NULL
+);
+
+ALTER TABLE public.disputes ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.dispute_messages ENABLE ROW LEVEL SECURITY;
+
+CREATE INDEX idx_disputes_status ON public.disputes(status);
+CREATE INDEX idx_dispute_messages_dispute_id ON public.dispute_messages(dispute_id);
+
+-- Order participants and admins can follow the dispute
+CREATE OR REPLACE FUNCTION public.is_order_participant(_order_id UUID, _user_id UUID)
+RETURNS BOOLEAN
+LANGUAGE SQL
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM public.orders
+    WHERE id = _order_id AND (
+      buyer_id = _user_id OR
+      seller_id IN (SELECT id FROM public.sellers WHERE user_id = _user_id)
+    )
+  )
+$$;
+
+CREATE POLICY "Participants can view disputes" ON public.disputes
+  FOR SELECT USING (
+    public.is_order_participant(order_id, auth.uid()) OR
+    public.has_role(auth.uid(), 'admin')
+  );
+
+CREATE POLICY "Participants can view dispute messages" ON public.dispute_messages
+  FOR SELECT USING (
+    EXISTS (
+      SELECT 1 FROM public.disputes
+      WHERE id = dispute_id AND (
+        public.is_order_participant(order_id, auth.uid()) OR
+        public.has_role(auth.uid(), 'admin')
+      )
+    )
+  );
+
+CREATE POLICY "Participants can respond to open disputes" ON public.dispute_messages
+  FOR INSERT WITH CHECK (
+    auth.uid() = sender_id AND
+    NOT is_system AND
+    EXISTS (
+      SELECT 1 FROM public.disputes
+      WHERE id = dispute_id AND status = 'open' AND (
+        public.is_order_participant(order_id, auth.uid()) OR
+        public.has_role(auth.uid(), 'admin')
+      )
+    )
+  );
+
+-- Funds stay frozen while disputed: only resolve_dispute may move the order on
+CREATE OR REPLACE FUNCTION public.guard_disputed_order()
+RETURNS TRIGGER
+LANGUAGE PLPGSQL
+SET search_path = public
+AS $$
+BEGIN
+  IF OLD.status = 'disputed'
+    AND NEW.status IS DISTINCT FROM OLD.status
+    AND COALESCE(current_setting('app.dispute_resolving', true), '') <> 'on' THEN
+    RAISE EXCEPTION 'Pedido em disputa: aguarde a decisão do administrador';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER on_order_guard_dispute
+  BEFORE UPDATE OF status ON public.orders
+  FOR EACH ROW
+  EXECUTE FUNCTION public.guard_disputed_order();
+
+-- Buyer opens a dispute on an order that has not been settled yet
+CREATE OR REPLACE FUNCTION public.open_dispute(
+  _order_id UUID,
+  _reason TEXT,
+  _evidence_urls TEXT[] DEFAULT '{}'
+)
+RETURNS public.disputes
+LANGUAGE PLPGSQL
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  order_row public.orders%ROWTYPE;
+  dispute_row public.disputes%ROWTYPE;
+BEGIN
+  SELECT * INTO order_row
+  FROM public.orders
+  WHERE id = _order_id
+  FOR UPDATE;
+
+  IF NOT FOUND OR order_row.buyer_id <> auth.uid() THEN
+    RAISE EXCEPTION 'Pedido não encontrado';
+  END IF;
+
+  IF order_row.status NOT IN ('pending', 'processing') THEN
+    RAISE EXCEPTION 'Este pedido não pode ser disputado';
+  END IF;
+
+  IF COALESCE(TRIM(_reason), '') = '' THEN
+    RAISE EXCEPTION 'Informe o motivo da disputa';
+  END IF;
+
+  INSERT INTO public.disputes (order_id, opened_by, reason)
+  VALUES (_order_id, auth.uid(), TRIM(_reason))
+  RETURNING * INTO dispute_row;
+
+  INSERT INTO public.dispute_messages (dispute_id, sender_id, message, evidence_urls)
+  VALUES (dispute_row.id, auth.uid(), TRIM(_reason), COALESCE(_evidence_urls, '{}'));
+
+  UPDATE public.orders
+  SET status = 'disputed'
+  WHERE id = _order_id;
+
+  RETURN dispute_row;
+END;
+$$;
+
+-- Admin rules on a dispute. 'split' refunds _refund_amount to the buyer and
+-- releases the rest to the seller.
+CREATE OR REPLACE FUNCTION public.resolve_dispute(
+  _dispute_id UUID,
+  _resolution public.dispute_resolution,
+  _refund_amount DECIMAL DEFAULT NULL,
+  _notes TEXT DEFAULT NULL
+)
+RETURNS public.disputes
+LANGUAGE PLPGSQL
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  dispute_row public.disputes%ROWTYPE;
+  order_total DECIMAL(10, 2);
+  refund DECIMAL(10, 2);
+  summary TEXT;
+BEGIN
+  IF NOT public.has_role(auth.uid(), 'admin') THEN
+    RAISE EXCEPTION 'Apenas administradores podem resolver disputas';
+  END IF;
+
+  SELECT * INTO dispute_row
+  FROM public.disputes
+  WHERE id = _dispute_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Disputa não encontrada';
+  END IF;
+
+  IF dispute_row.status <> 'open' THEN
+    RAISE EXCEPTION 'Disputa já resolvida';
+  END IF;
+
+  SELECT total_price INTO order_total
+  FROM public.orders
+  WHERE id = dispute_row.order_id
+  FOR UPDATE;
+
+  PERFORM set_config('app.dispute_resolving', 'on', true);
+
+  IF _resolution = 'release' THEN
+    refund := 0;
+    PERFORM public.release_escrow(dispute_row.order_id);
+
+    UPDATE public.orders
+    SET status = 'completed', completed_at = NOW()
+    WHERE id = dispute_row.order_id;
+
+    summary := 'Disputa resolvida: valor liberado ao vendedor';
+  ELSE
+    IF _resolution = 'refund' THEN
+      refund := order_total;
+    ELSE
+      refund := ROUND(COALESCE(_refund_amount, 0), 2);
+      IF refund <= 0 OR refund >= order_total THEN
+        RAISE EXCEPTION 'Valor de divisão inválido';
+      END IF;
+    END IF;
+
+    PERFORM public.refund_escrow(dispute_row.order_id, refund);
+
+    UPDATE public.orders
+    SET status = 'cancelled'
+    WHERE id = dispute_row.order_id;
+
+    summary := CASE
+      WHEN _resolution = 'refund' THEN 'Disputa resolvida: valor reembolsado ao comprador'
+      ELSE 'Disputa resolvida: R$ ' || refund || ' reembolsados ao comprador e o restante liberado ao vendedor'
+    END;
+  END IF;
+
+  PERFORM set_config('app.dispute_resolving', '', true);
+
+  UPDATE public.disputes
+  SET status = 'resolved',
+      resolution = _resolution,
+      refund_amount = refund,
+      resolution_notes = NULLIF(TRIM(_notes), ''),
+      resolved_by = auth.uid(),
+      resolved_at = NOW()
+  WHERE id = _dispute_id
+  RETURNING * INTO dispute_row;
+
+  INSERT INTO public.dispute_messages (dispute_id, sender_id, message, is_system)
+  VALUES (
+    _dispute_id,
+    auth.uid(),
+    summary || COALESCE(E'\n' || NULLIF(TRIM(_notes), ''), ''),
+    true
+  );
+
+  RETURN dispute_row;
+END;
+$$;
+
+-- Disputed orders are settled through resolve_dispute, not cancel_order
+CREATE OR REPLACE FUNCTION public.cancel_order(_order_id UUID, _refund_amount DECIMAL DEFAULT NULL)
+RETURNS public.orders
+LANGUAGE PLPGSQL
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  order_row public.orders%ROWTYPE;
+BEGIN
+  SELECT * INTO order_row
+  FROM public.orders
+  WHERE id = _order_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Pedido não encontrado';
+  END IF;
+
+  IF NOT public.has_role(auth.uid(), 'admin') AND NOT EXISTS (
+    SELECT 1 FROM public.sellers
+    WHERE id = order_row.seller_id AND user_id = auth.uid()
+  ) THEN
+    RAISE EXCEPTION 'Sem permissão para cancelar este pedido';
+  END IF;
+
+  IF order_row.status IN ('completed', 'cancelled') THEN
+    RAISE EXCEPTION 'Pedido já finalizado';
+  END IF;
+
+  IF order_row.status = 'disputed' THEN
+    RAISE EXCEPTION 'Pedido em disputa: aguarde a decisão do administrador';
+  END IF;
+
+  PERFORM public.refund_escrow(_order_id, _refund_amount);
+
+  -- The escrow is already settled, so the status trigger is a no-op here
+  UPDATE public.orders
+  SET status = 'cancelled'
+  WHERE id = _order_id
+  RETURNING * INTO order_row;
+
+  RETURN order_row;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.open_dispute(UUID, TEXT, TEXT[]) TO authenticated;
+GRANT EXECUTE ON FUNCTION public.resolve_dispute(UUID, public.dispute_resolution, DECIMAL, TEXT) TO authenticated;
@@ -0,0 +1,118 @@
+-- Create order events table (status timeline)
+CREATE TABLE public.order_events (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  order_id UUID REFERENCES public.orders(id) ON DELETE CASCADE NOT NULL,
+  from_status public.order_status,
+  to_status public.order_status NOT NULL,
+  actor_id UUID REFERENCES public.profiles(id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW() NOT NULL
+);
+
+ALTER TABLE public.order_events ENABLE ROW LEVEL SECURITY;
+
+CREATE INDEX idx_order_events_order_id ON public.order_events(order_id, created_at);
+
+CREATE POLICY "Participants can view order events" ON public.order_events
+  FOR SELECT USING (
+    public.is_order_participant(order_id, auth.uid()) OR
+    public.has_role(auth.uid(), 'admin')
+  );
+
+-- Backfill: creation event for every order, plus the current status when it
+-- already moved on (the intermediate steps were never recorded)
+INSERT INTO public.order_events (order_id, from_status, to_status, actor_id, created_at)
+SELECT id, NULL, 'pending', buyer_id, created_at
+FROM public.orders;
+
+INSERT INTO public.order_events (order_id, from_status, to_status, created_at)
+SELECT id, NULL, status, COALESCE(completed_at, updated_at)
+FROM public.orders
+WHERE status <> 'pending';
+
+-- Allowed status transitions. Disputed orders only move on through
+-- resolve_dispute; completed and cancelled are final.
+CREATE OR REPLACE FUNCTION public.order_transition_allowed(
+  _from public.order_status,
+  _to public.order_status
+)
+RETURNS BOOLEAN
+LANGUAGE SQL
+IMMUTABLE
+AS $$
+  SELECT (_from, _to) IN (
+    ('pending', 'processing'),
+    ('pending', 'cancelled'),
+    ('pending', 'disputed'),
+    ('processing', 'completed'),
+    ('processing', 'cancelled'),
+    ('processing', 'disputed'),
+    ('disputed', 'completed'),
+    ('disputed', 'cancelled')
+  )
+$$;
+
+DROP TRIGGER IF EXISTS on_order_guard_dispute ON public.orders;
+DROP FUNCTION IF EXISTS public.guard_disputed_order();
+
+CREATE OR REPLACE FUNCTION public.enforce_order_transition()
+RETURNS TRIGGER
+LANGUAGE PLPGSQL
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.status IS NOT DISTINCT FROM OLD.status THEN
+    RETURN NEW;
+  END IF;
+
+  IF NOT public.order_transition_allowed(OLD.status, NEW.status) THEN
+    RAISE EXCEPTION 'Transição de status inválida: % -> %', OLD.status, NEW.status;
+  END IF;
+
+  -- Funds stay frozen while disputed: only resolve_dispute may move the order on
+  IF OLD.status = 'disputed'
+    AND COALESCE(current_setting('app.dispute_resolving', true), '') <> 'on' THEN
+    RAISE EXCEPTION 'Pedido em disputa: aguarde a decisão do administrador';
+  END IF;
+
+  IF NEW.status = 'completed' AND NEW.completed_at IS NULL THEN
+    NEW.completed_at := NOW();
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER on_order_enforce_transition
+  BEFORE UPDATE OF status ON public.orders
+  FOR EACH ROW
+  EXECUTE FUNCTION public.enforce_order_transition();
+
+-- Record every status change in the timeline
+CREATE OR REPLACE FUNCTION public.record_order_event()
+RETURNS TRIGGER
+LANGUAGE PLPGSQL
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    INSERT INTO public.order_events (order_id, from_status, to_status, actor_id)
+    VALUES (NEW.id, NULL, NEW.status, COALESCE(auth.uid(), NEW.buyer_id));
+  ELSIF NEW.status IS DISTINCT FROM OLD.status THEN
+    INSERT INTO public.order_events (order_id, from_status, to_status, actor_id)
+    VALUES (NEW.id, OLD.status, NEW.status, auth.uid());
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER on_order_created_record_event
+  AFTER INSERT ON public.orders
+  FOR EACH ROW
+  EXECUTE FUNCTION public.record_order_event();
+
+CREATE TRIGGER on_order_status_record_event
+  AFTER UPDATE OF status ON public.orders
+  FOR EACH ROW
+  EXECUTE FUNCTION public.record_order_event();
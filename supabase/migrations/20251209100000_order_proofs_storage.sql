@@ -0,0 +1,76 @@
+-- Private bucket for delivery proof, one folder per order: <order_id>/<file>
+INSERT INTO storage.buckets (id, name, public, file_size_limit, allowed_mime_types)
+VALUES (
+  'order-proofs',
+  'order-proofs',
+  false,
+  10485760,
+  ARRAY['image/png', 'image/jpeg', 'image/webp', 'image/gif', 'application/pdf']
+)
+ON CONFLICT (id) DO NOTHING;
+
+-- Order id from the first folder of an object path, NULL when malformed
+CREATE OR REPLACE FUNCTION public.proof_order_id(_name TEXT)
+RETURNS UUID
+LANGUAGE SQL
+IMMUTABLE
+AS $$
+  SELECT CASE
+    WHEN split_part(_name, '/', 1) ~* '^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$'
+      THEN split_part(_name, '/', 1)::UUID
+  END
+$$;
+
+CREATE POLICY "Participants can view order proofs" ON storage.objects
+  FOR SELECT USING (
+    bucket_id = 'order-proofs' AND (
+      public.is_order_participant(public.proof_order_id(name), auth.uid()) OR
+      public.has_role(auth.uid(), 'admin')
+    )
+  );
+
+CREATE POLICY "Sellers can upload proofs for open orders" ON storage.objects
+  FOR INSERT WITH CHECK (
+    bucket_id = 'order-proofs' AND
+    EXISTS (
+      SELECT 1 FROM public.orders
+      WHERE id = public.proof_order_id(name)
+        AND status IN ('pending', 'processing')
+        AND seller_id IN (SELECT id FROM public.sellers WHERE user_id = auth.uid())
+    )
+  );
+
+-- Completing an order requires delivery proof, except when an admin
+-- releases a disputed order
+CREATE OR REPLACE FUNCTION public.enforce_order_transition()
+RETURNS TRIGGER
+LANGUAGE PLPGSQL
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.status IS NOT DISTINCT FROM OLD.status THEN
+    RETURN NEW;
+  END IF;
+
+  IF NOT public.order_transition_allowed(OLD.status, NEW.status) THEN
+    RAISE EXCEPTION 'Transição de status inválida: % -> %', OLD.status, NEW.status;
+  END IF;
+
+  -- Funds stay frozen while disputed: only resolve_dispute may move the order on
+  IF OLD.status = 'disputed'
+    AND COALESCE(current_setting('app.dispute_resolving', true), '') <> 'on' THEN
+    RAISE EXCEPTION 'Pedido em disputa: aguarde a decisão do administrador';
+  END IF;
+
+  IF OLD.status = 'processing' AND NEW.status = 'completed'
+    AND COALESCE(NEW.proof_url, '') = '' THEN
+    RAISE EXCEPTION 'Envie a prova de entrega antes de concluir o pedido';
+  END IF;
+
+  IF NEW.status = 'completed' AND NEW.completed_at IS NULL THEN
+    NEW.completed_at := NOW();
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
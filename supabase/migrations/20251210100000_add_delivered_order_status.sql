@@ -0,0 +1,4 @@
+-- Seller has delivered and the buyer still has to confirm receipt.
+-- Kept in its own migration: a new enum value cannot be used in the
+-- transaction that adds it.
+ALTER TYPE public.order_status ADD VALUE IF NOT EXISTS 'delivered' AFTER 'processing';
@@ -0,0 +1,226 @@
+-- Create platform settings table (single row)
+CREATE TABLE public.platform_settings (
+  id BOOLEAN PRIMARY KEY DEFAULT true CHECK (id),
+  auto_confirm_hours INTEGER DEFAULT 72 NOT NULL CHECK (auto_confirm_hours > 0),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW() NOT NULL
+);
+
+INSERT INTO public.platform_settings (id) VALUES (true);
+
+ALTER TABLE public.platform_settings ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Everyone can view platform settings" ON public.platform_settings
+  FOR SELECT USING (true);
+
+CREATE POLICY "Admins can update platform settings" ON public.platform_settings
+  FOR UPDATE USING (public.has_role(auth.uid(), 'admin'));
+
+CREATE TRIGGER update_platform_settings_updated_at BEFORE UPDATE ON public.platform_settings
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Delivery confirmation window
+ALTER TABLE public.orders
+  ADD COLUMN delivered_at TIMESTAMP WITH TIME ZONE,
+  ADD COLUMN confirm_deadline TIMESTAMP WITH TIME ZONE;
+
+CREATE INDEX idx_orders_confirm_deadline ON public.orders(confirm_deadline)
+  WHERE status = 'delivered';
+
+-- Sellers now stop at 'delivered'; the buyer (or the deadline) completes
+CREATE OR REPLACE FUNCTION public.order_transition_allowed(
+  _from public.order_status,
+  _to public.order_status
+)
+RETURNS BOOLEAN
+LANGUAGE SQL
+IMMUTABLE
+AS $$
+  SELECT (_from, _to) IN (
+    ('pending', 'processing'),
+    ('pending', 'cancelled'),
+    ('pending', 'disputed'),
+    ('processing', 'delivered'),
+    ('processing', 'cancelled'),
+    ('processing', 'disputed'),
+    ('delivered', 'completed'),
+    ('delivered', 'disputed'),
+    ('disputed', 'completed'),
+    ('disputed', 'cancelled')
+  )
+$$;
+
+CREATE OR REPLACE FUNCTION public.enforce_order_transition()
+RETURNS TRIGGER
+LANGUAGE PLPGSQL
+SET search_path = public
+AS $$
+DECLARE
+  window_hours INTEGER;
+BEGIN
+  IF NEW.status IS NOT DISTINCT FROM OLD.status THEN
+    RETURN NEW;
+  END IF;
+
+  IF NOT public.order_transition_allowed(OLD.status, NEW.status) THEN
+    RAISE EXCEPTION 'Transição de status inválida: % -> %', OLD.status, NEW.status;
+  END IF;
+
+  -- Funds stay frozen while disputed: only resolve_dispute may move the order on
+  IF OLD.status = 'disputed'
+    AND COALESCE(current_setting('app.dispute_resolving', true), '') <> 'on' THEN
+    RAISE EXCEPTION 'Pedido em disputa: aguarde a decisão do administrador';
+  END IF;
+
+  IF NEW.status = 'delivered' AND COALESCE(NEW.proof_url, '') = '' THEN
+    RAISE EXCEPTION 'Envie a prova de entrega antes de marcar como entregue';
+  END IF;
+
+  -- Only the buyer (via confirm_order_receipt), the auto-confirm job or an
+  -- admin may complete a delivered order
+  IF OLD.status = 'delivered' AND NEW.status = 'completed'
+    AND COALESCE(current_setting('app.order_confirming', true), '') <> 'on'
+    AND NOT public.has_role(auth.uid(), 'admin') THEN
+    RAISE EXCEPTION 'Aguardando confirmação de recebimento pelo comprador';
+  END IF;
+
+  IF NEW.status = 'delivered' THEN
+    SELECT auto_confirm_hours INTO window_hours FROM public.platform_settings;
+    NEW.delivered_at := NOW();
+    NEW.confirm_deadline := NOW() + make_interval(hours => COALESCE(window_hours, 72));
+  END IF;
+
+  IF NEW.status = 'completed' AND NEW.completed_at IS NULL THEN
+    NEW.completed_at := NOW();
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+-- Buyer confirms the Robux arrived, releasing the escrow to the seller
+CREATE OR REPLACE FUNCTION public.confirm_order_receipt(_order_id UUID)
+RETURNS public.orders
+LANGUAGE PLPGSQL
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  order_row public.orders%ROWTYPE;
+BEGIN
+  SELECT * INTO order_row
+  FROM public.orders
+  WHERE id = _order_id
+  FOR UPDATE;
+
+  IF NOT FOUND OR order_row.buyer_id <> auth.uid() THEN
+    RAISE EXCEPTION 'Pedido não encontrado';
+  END IF;
+
+  IF order_row.status <> 'delivered' THEN
+    RAISE EXCEPTION 'O pedido ainda não foi entregue';
+  END IF;
+
+  PERFORM set_config('app.order_confirming', 'on', true);
+
+  UPDATE public.orders
+  SET status = 'completed'
+  WHERE id = _order_id
+  RETURNING * INTO order_row;
+
+  PERFORM set_config('app.order_confirming', '', true);
+
+  RETURN order_row;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.confirm_order_receipt(UUID) TO authenticated;
+
+-- Completes delivered orders whose confirmation window has passed
+CREATE OR REPLACE FUNCTION public.auto_confirm_delivered_orders()
+RETURNS INTEGER
+LANGUAGE PLPGSQL
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  order_row RECORD;
+  confirmed INTEGER := 0;
+BEGIN
+  PERFORM set_config('app.order_confirming', 'on', true);
+
+  FOR order_row IN
+    SELECT id FROM public.orders
+    WHERE status = 'delivered' AND confirm_deadline <= NOW()
+    ORDER BY confirm_deadline
+    FOR UPDATE SKIP LOCKED
+  LOOP
+    UPDATE public.orders
+    SET status = 'completed'
+    WHERE id = order_row.id;
+
+    confirmed := confirmed + 1;
+  END LOOP;
+
+  PERFORM set_config('app.order_confirming', '', true);
+
+  RETURN confirmed;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.auto_confirm_delivered_orders() FROM PUBLIC, anon, authenticated;
+
+-- Buyers may also dispute a delivery they did not receive
+CREATE OR REPLACE FUNCTION public.open_dispute(
+  _order_id UUID,
+  _reason TEXT,
+  _evidence_urls TEXT[] DEFAULT '{}'
+)
+RETURNS public.disputes
+LANGUAGE PLPGSQL
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  order_row public.orders%ROWTYPE;
+  dispute_row public.disputes%ROWTYPE;
+BEGIN
+  SELECT * INTO order_row
+  FROM public.orders
+  WHERE id = _order_id
+  FOR UPDATE;
+
+  IF NOT FOUND OR order_row.buyer_id <> auth.uid() THEN
+    RAISE EXCEPTION 'Pedido não encontrado';
+  END IF;
+
+  IF order_row.status NOT IN ('pending', 'processing', 'delivered') THEN
+    RAISE EXCEPTION 'Este pedido não pode ser disputado';
+  END IF;
+
+  IF COALESCE(TRIM(_reason), '') = '' THEN
+    RAISE EXCEPTION 'Informe o motivo da disputa';
+  END IF;
+
+  INSERT INTO public.disputes (order_id, opened_by, reason)
+  VALUES (_order_id, auth.uid(), TRIM(_reason))
+  RETURNING * INTO dispute_row;
+
+  INSERT INTO public.dispute_messages (dispute_id, sender_id, message, evidence_urls)
+  VALUES (dispute_row.id, auth.uid(), TRIM(_reason), COALESCE(_evidence_urls, '{}'));
+
+  UPDATE public.orders
+  SET status = 'disputed'
+  WHERE id = _order_id;
+
+  RETURN dispute_row;
+END;
+$$;
+
+-- Schedule the auto-confirm job
+CREATE EXTENSION IF NOT EXISTS pg_cron WITH SCHEMA extensions;
+
+SELECT cron.schedule(
+  'auto-confirm-delivered-orders',
+  '*/10 * * * *',
+  $$SELECT public.auto_confirm_delivered_orders()$$
+);
@@ -0,0 +1,117 @@
+-- Structured delivery data collected from the buyer
+-- (gamepass: gamepass_url, place_url, gamepass_price)
+ALTER TABLE public.orders
+  ADD COLUMN delivery_details JSONB DEFAULT '{}'::jsonb NOT NULL;
+
+-- Gamepass price that nets _amount Robux after Roblox's 30% marketplace cut.
+-- The seller receives FLOOR(price * 0.7), so price = CEIL(amount / 0.7).
+CREATE OR REPLACE FUNCTION public.gamepass_price(_amount INTEGER)
+RETURNS INTEGER
+LANGUAGE SQL
+IMMUTABLE
+AS $$
+  SELECT ((_amount * 10 + 6) / 7)::INTEGER
+$$;
+
+DROP FUNCTION public.place_order(UUID, INTEGER, public.delivery_method);
+
+CREATE OR REPLACE FUNCTION public.place_order(
+  _seller_id UUID,
+  _amount INTEGER,
+  _delivery_method public.delivery_method,
+  _delivery_details JSONB DEFAULT '{}'::jsonb
+)
+RETURNS public.orders
+LANGUAGE PLPGSQL
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  buyer_id UUID := auth.uid();
+  seller_row public.sellers%ROWTYPE;
+  buyer_balance DECIMAL(10, 2);
+  order_total DECIMAL(10, 2);
+  details JSONB := '{}'::jsonb;
+  new_order public.orders%ROWTYPE;
+BEGIN
+  IF buyer_id IS NULL THEN
+    RAISE EXCEPTION 'Não autenticado';
+  END IF;
+
+  SELECT * INTO seller_row
+  FROM public.sellers
+  WHERE id = _seller_id
+  FOR SHARE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Vendedor não encontrado';
+  END IF;
+
+  IF seller_row.user_id = buyer_id THEN
+    RAISE EXCEPTION 'Você não pode comprar de si mesmo';
+  END IF;
+
+  IF _amount IS NULL OR _amount < seller_row.min_amount OR _amount > seller_row.max_amount THEN
+    RAISE EXCEPTION 'A quantidade deve estar entre % e % Robux', seller_row.min_amount, seller_row.max_amount;
+  END IF;
+
+  IF _delivery_method = 'gamepass' THEN
+    IF COALESCE(_delivery_details->>'gamepass_url', '') !~* '^https://(www\.)?roblox\.com/game-pass/[0-9]+' THEN
+      RAISE EXCEPTION 'Informe o link do gamepass (https://www.roblox.com/game-pass/...)';
+    END IF;
+
+    IF COALESCE(_delivery_details->>'place_url', '') <> ''
+      AND _delivery_details->>'place_url' !~* '^https://(www\.)?roblox\.com/games/[0-9]+' THEN
+      RAISE EXCEPTION 'Link do jogo inválido';
+    END IF;
+
+    -- Only keep known keys; the price is always computed here
+    details := jsonb_build_object(
+      'gamepass_url', _delivery_details->>'gamepass_url',
+      'place_url', NULLIF(_delivery_details->>'place_url', ''),
+      'gamepass_price', public.gamepass_price(_amount)
+    );
+  END IF;
+
+  order_total := ROUND((_amount / 1000.0) * seller_row.price_per_1k, 2);
+
+  -- Lock the buyer row so concurrent purchases cannot double-spend
+  SELECT balance INTO buyer_balance
+  FROM public.profiles
+  WHERE id = buyer_id
+  FOR UPDATE;
+
+  IF buyer_balance < order_total THEN
+    RAISE EXCEPTION 'Saldo insuficiente';
+  END IF;
+
+  INSERT INTO public.orders (buyer_id, seller_id, amount, total_price, delivery_method, delivery_details)
+  VALUES (buyer_id, _seller_id, _amount, order_total, _delivery_method, details)
+  RETURNING * INTO new_order;
+
+  PERFORM public.ledger_post(
+    public.ledger_account_id('user_wallet', buyer_id),
+    public.ledger_account_id('escrow'),
+    order_total,
+    'Compra retida em garantia',
+    new_order.id
+  );
+
+  INSERT INTO public.escrows (order_id, buyer_id, seller_id, amount)
+  VALUES (new_order.id, buyer_id, _seller_id, order_total);
+
+  INSERT INTO public.transactions (user_id, order_id, type, amount, description)
+  VALUES (
+    buyer_id,
+    new_order.id,
+    'purchase',
+    -order_total,
+    'Compra de ' || _amount || ' Robux (valor retido em garantia)'
+  );
+
+  RETURN new_order;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.place_order(UUID, INTEGER, public.delivery_method, JSONB) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.place_order(UUID, INTEGER, public.delivery_method, JSONB) TO authenticated;
@@ -0,0 +1,203 @@
+-- Verified Roblox identity on the profile
+ALTER TABLE public.profiles
+  ADD COLUMN roblox_user_id BIGINT UNIQUE,
+  ADD COLUMN roblox_username TEXT,
+  ADD COLUMN roblox_verified_at TIMESTAMP WITH TIME ZONE;
+
+-- Roblox identity the seller must deliver to, captured when the order is placed
+ALTER TABLE public.orders
+  ADD COLUMN buyer_roblox_user_id BIGINT,
+  ADD COLUMN buyer_roblox_username TEXT;
+
+-- Create roblox verifications table (pending description codes)
+CREATE TABLE public.roblox_verifications (
+  user_id UUID PRIMARY KEY REFERENCES public.profiles(id) ON DELETE CASCADE,
+  roblox_user_id BIGINT NOT NULL,
+  roblox_username TEXT NOT NULL,
+  code TEXT NOT NULL,
+  expires_at TIMESTAMP WITH TIME ZONE NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW() NOT NULL
+);
+
+ALTER TABLE public.roblox_verifications ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own roblox verification" ON public.roblox_verifications
+  FOR SELECT USING (auth.uid() = user_id);
+
+-- The Roblox identity may only change through link_roblox_account
+CREATE OR REPLACE FUNCTION public.guard_profile_roblox()
+RETURNS TRIGGER
+LANGUAGE PLPGSQL
+SET search_path = public
+AS $$
+BEGIN
+  IF (NEW.roblox_user_id IS DISTINCT FROM OLD.roblox_user_id
+    OR NEW.roblox_username IS DISTINCT FROM OLD.roblox_username
+    OR NEW.roblox_verified_at IS DISTINCT FROM OLD.roblox_verified_at)
+    AND COALESCE(current_setting('app.roblox_linking', true), 'off') <> 'on' THEN
+    RAISE EXCEPTION 'A conta Roblox só pode ser alterada pela verificação';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER guard_profiles_roblox BEFORE UPDATE ON public.profiles
+  FOR EACH ROW EXECUTE FUNCTION public.guard_profile_roblox();
+
+-- Called by the roblox-verify edge function once the code was found in the
+-- Roblox profile description. Pass NULLs to unlink.
+CREATE OR REPLACE FUNCTION public.link_roblox_account(
+  _user_id UUID,
+  _roblox_user_id BIGINT,
+  _roblox_username TEXT
+)
+RETURNS VOID
+LANGUAGE PLPGSQL
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF _roblox_user_id IS NOT NULL AND EXISTS (
+    SELECT 1 FROM public.profiles
+    WHERE roblox_user_id = _roblox_user_id AND id <> _user_id
+  ) THEN
+    RAISE EXCEPTION 'Esta conta Roblox já está vinculada a outro usuário';
+  END IF;
+
+  PERFORM set_config('app.roblox_linking', 'on', true);
+
+  UPDATE public.profiles
+  SET roblox_user_id = _roblox_user_id,
+      roblox_username = _roblox_username,
+      roblox_verified_at = CASE WHEN _roblox_user_id IS NULL THEN NULL ELSE NOW() END
+  WHERE id = _user_id;
+
+  PERFORM set_config('app.roblox_linking', 'off', true);
+
+  DELETE FROM public.roblox_verifications WHERE user_id = _user_id;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.link_roblox_account(UUID, BIGINT, TEXT) FROM PUBLIC, anon, authenticated;
+
+-- Orders require a verified Roblox account and snapshot it
+CREATE OR REPLACE FUNCTION public.place_order(
+  _seller_id UUID,
+  _amount INTEGER,
+  _delivery_method public.delivery_method,
+  _delivery_details JSONB DEFAULT '{}'::jsonb
+)
+RETURNS public.orders
+LANGUAGE PLPGSQL
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  buyer_id UUID := auth.uid();
+  seller_row public.sellers%ROWTYPE;
+  buyer_row public.profiles%ROWTYPE;
+  order_total DECIMAL(10, 2);
+  details JSONB := '{}'::jsonb;
+  new_order public.orders%ROWTYPE;
+BEGIN
+  IF buyer_id IS NULL THEN
+    RAISE EXCEPTION 'Não autenticado';
+  END IF;
+
+  SELECT * INTO seller_row
+  FROM public.sellers
+  WHERE id = _seller_id
+  FOR SHARE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Vendedor não encontrado';
+  END IF;
+
+  IF seller_row.user_id = buyer_id THEN
+    RAISE EXCEPTION 'Você não pode comprar de si mesmo';
+  END IF;
+
+  IF _amount IS NULL OR _amount < seller_row.min_amount OR _amount > seller_row.max_amount THEN
+    RAISE EXCEPTION 'A quantidade deve estar entre % e % Robux', seller_row.min_amount, seller_row.max_amount;
+  END IF;
+
+  IF _delivery_method = 'gamepass' THEN
+    IF COALESCE(_delivery_details->>'gamepass_url', '') !~* '^https://(www\.)?roblox\.com/game-pass/[0-9]+' THEN
+      RAISE EXCEPTION 'Informe o link do gamepass (https://www.roblox.com/game-pass/...)';
+    END IF;
+
+    IF COALESCE(_delivery_details->>'place_url', '') <> ''
+      AND _delivery_details->>'place_url' !~* '^https://(www\.)?roblox\.com/games/[0-9]+' THEN
+      RAISE EXCEPTION 'Link do jogo inválido';
+    END IF;
+
+    -- Only keep known keys; the price is always computed here
+    details := jsonb_build_object(
+      'gamepass_url', _delivery_details->>'gamepass_url',
+      'place_url', NULLIF(_delivery_details->>'place_url', ''),
+      'gamepass_price', public.gamepass_price(_amount)
+    );
+  END IF;
+
+  order_total := ROUND((_amount / 1000.0) * seller_row.price_per_1k, 2);
+
+  -- Lock the buyer row so concurrent purchases cannot double-spend
+  SELECT * INTO buyer_row
+  FROM public.profiles
+  WHERE id = buyer_id
+  FOR UPDATE;
+
+  IF buyer_row.roblox_verified_at IS NULL THEN
+    RAISE EXCEPTION 'Vincule e verifique sua conta Roblox antes de comprar';
+  END IF;
+
+  IF buyer_row.balance < order_total THEN
+    RAISE EXCEPTION 'Saldo insuficiente';
+  END IF;
+
+  INSERT INTO public.orders (
+    buyer_id,
+    seller_id,
+    amount,
+    total_price,
+    delivery_method,
+    delivery_details,
+    buyer_roblox_user_id,
+    buyer_roblox_username
+  )
+  VALUES (
+    buyer_id,
+    _seller_id,
+    _amount,
+    order_total,
+    _delivery_method,
+    details,
+    buyer_row.roblox_user_id,
+    buyer_row.roblox_username
+  )
+  RETURNING * INTO new_order;
+
+  PERFORM public.ledger_post(
+    public.ledger_account_id('user_wallet', buyer_id),
+    public.ledger_account_id('escrow'),
+    order_total,
+    'Compra retida em garantia',
+    new_order.id
+  );
+
+  INSERT INTO public.escrows (order_id, buyer_id, seller_id, amount)
+  VALUES (new_order.id, buyer_id, _seller_id, order_total);
+
+  INSERT INTO public.transactions (user_id, order_id, type, amount, description)
+  VALUES (
+    buyer_id,
+    new_order.id,
+    'purchase',
+    -order_total,
+    'Compra de ' || _amount || ' Robux (valor retido em garantia)'
+  );
+
+  RETURN new_order;
+END;
+$$;
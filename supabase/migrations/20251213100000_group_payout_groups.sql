@@ -0,0 +1,235 @@
+-- Create seller groups table (Roblox groups used for group payouts)
+CREATE TABLE public.seller_groups (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  seller_id UUID REFERENCES public.sellers(id) ON DELETE CASCADE NOT NULL,
+  roblox_group_id BIGINT NOT NULL,
+  name TEXT NOT NULL,
+  is_active BOOLEAN DEFAULT true NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW() NOT NULL,
+  UNIQUE (seller_id, roblox_group_id)
+);
+
+ALTER TABLE public.seller_groups ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Everyone can view seller groups" ON public.seller_groups
+  FOR SELECT USING (true);
+
+CREATE POLICY "Sellers can manage own groups" ON public.seller_groups
+  FOR ALL USING (
+    auth.uid() IN (SELECT user_id FROM public.sellers WHERE id = seller_id)
+  ) WITH CHECK (
+    auth.uid() IN (SELECT user_id FROM public.sellers WHERE id = seller_id)
+  );
+
+CREATE POLICY "Admins can manage seller groups" ON public.seller_groups
+  FOR ALL USING (public.has_role(auth.uid(), 'admin'));
+
+-- Roblox only lets a group pay out members who joined at least 14 days ago.
+-- delivery_details for group payouts:
+-- (seller_group_id, roblox_group_id, group_name, joined_at, eligible_at)
+CREATE OR REPLACE FUNCTION public.group_payout_details(
+  _group public.seller_groups,
+  _joined_at TIMESTAMP WITH TIME ZONE
+)
+RETURNS JSONB
+LANGUAGE SQL
+STABLE
+AS $$
+  SELECT jsonb_build_object(
+    'seller_group_id', _group.id,
+    'roblox_group_id', _group.roblox_group_id,
+    'group_name', _group.name,
+    'joined_at', _joined_at,
+    'eligible_at', _joined_at + INTERVAL '14 days'
+  )
+$$;
+
+-- Group payouts must name one of the seller's active groups
+CREATE OR REPLACE FUNCTION public.place_order(
+  _seller_id UUID,
+  _amount INTEGER,
+  _delivery_method public.delivery_method,
+  _delivery_details JSONB DEFAULT '{}'::jsonb
+)
+RETURNS public.orders
+LANGUAGE PLPGSQL
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  buyer_id UUID := auth.uid();
+  seller_row public.sellers%ROWTYPE;
+  buyer_row public.profiles%ROWTYPE;
+  order_total DECIMAL(10, 2);
+  details JSONB := '{}'::jsonb;
+  group_row public.seller_groups%ROWTYPE;
+  joined_at TIMESTAMP WITH TIME ZONE;
+  new_order public.orders%ROWTYPE;
+BEGIN
+  IF buyer_id IS NULL THEN
+    RAISE EXCEPTION 'Não autenticado';
+  END IF;
+
+  SELECT * INTO seller_row
+  FROM public.sellers
+  WHERE id = _seller_id
+  FOR SHARE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Vendedor não encontrado';
+  END IF;
+
+  IF seller_row.user_id = buyer_id THEN
+    RAISE EXCEPTION 'Você não pode comprar de si mesmo';
+  END IF;
+
+  IF _amount IS NULL OR _amount < seller_row.min_amount OR _amount > seller_row.max_amount THEN
+    RAISE EXCEPTION 'A quantidade deve estar entre % e % Robux', seller_row.min_amount, seller_row.max_amount;
+  END IF;
+
+  IF _delivery_method = 'gamepass' THEN
+    IF COALESCE(_delivery_details->>'gamepass_url', '') !~* '^https://(www\.)?roblox\.com/game-pass/[0-9]+' THEN
+      RAISE EXCEPTION 'Informe o link do gamepass (https://www.roblox.com/game-pass/...)';
+    END IF;
+
+    IF COALESCE(_delivery_details->>'place_url', '') <> ''
+      AND _delivery_details->>'place_url' !~* '^https://(www\.)?roblox\.com/games/[0-9]+' THEN
+      RAISE EXCEPTION 'Link do jogo inválido';
+    END IF;
+
+    -- Only keep known keys; the price is always computed here
+    details := jsonb_build_object(
+      'gamepass_url', _delivery_details->>'gamepass_url',
+      'place_url', NULLIF(_delivery_details->>'place_url', ''),
+      'gamepass_price', public.gamepass_price(_amount)
+    );
+  END IF;
+
+  IF _delivery_method = 'group_payout' THEN
+    SELECT * INTO group_row
+    FROM public.seller_groups
+    WHERE id = NULLIF(_delivery_details->>'seller_group_id', '')::UUID
+      AND seller_id = _seller_id
+      AND is_active;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Escolha um grupo do vendedor para receber o pagamento';
+    END IF;
+
+    joined_at := NULLIF(_delivery_details->>'joined_at', '')::TIMESTAMP WITH TIME ZONE;
+
+    IF joined_at > NOW() THEN
+      RAISE EXCEPTION 'A data de entrada no grupo não pode estar no futuro';
+    END IF;
+
+    details := public.group_payout_details(group_row, joined_at);
+  END IF;
+
+  order_total := ROUND((_amount / 1000.0) * seller_row.price_per_1k, 2);
+
+  -- Lock the buyer row so concurrent purchases cannot double-spend
+  SELECT * INTO buyer_row
+  FROM public.profiles
+  WHERE id = buyer_id
+  FOR UPDATE;
+
+  IF buyer_row.roblox_verified_at IS NULL THEN
+    RAISE EXCEPTION 'Vincule e verifique sua conta Roblox antes de comprar';
+  END IF;
+
+  IF buyer_row.balance < order_total THEN
+    RAISE EXCEPTION 'Saldo insuficiente';
+  END IF;
+
+  INSERT INTO public.orders (
+    buyer_id,
+    seller_id,
+    amount,
+    total_price,
+    delivery_method,
+    delivery_details,
+    buyer_roblox_user_id,
+    buyer_roblox_username
+  )
+  VALUES (
+    buyer_id,
+    _seller_id,
+    _amount,
+    order_total,
+    _delivery_method,
+    details,
+    buyer_row.roblox_user_id,
+    buyer_row.roblox_username
+  )
+  RETURNING * INTO new_order;
+
+  PERFORM public.ledger_post(
+    public.ledger_account_id('user_wallet', buyer_id),
+    public.ledger_account_id('escrow'),
+    order_total,
+    'Compra retida em garantia',
+    new_order.id
+  );
+
+  INSERT INTO public.escrows (order_id, buyer_id, seller_id, amount)
+  VALUES (new_order.id, buyer_id, _seller_id, order_total);
+
+  INSERT INTO public.transactions (user_id, order_id, type, amount, description)
+  VALUES (
+    buyer_id,
+    new_order.id,
+    'purchase',
+    -order_total,
+    'Compra de ' || _amount || ' Robux (valor retido em garantia)'
+  );
+
+  RETURN new_order;
+END;
+$$;
+
+-- Buyer reports having joined the group after placing the order
+CREATE OR REPLACE FUNCTION public.mark_group_joined(_order_id UUID)
+RETURNS public.orders
+LANGUAGE PLPGSQL
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  order_row public.orders%ROWTYPE;
+  joined_at TIMESTAMP WITH TIME ZONE := NOW();
+BEGIN
+  SELECT * INTO order_row
+  FROM public.orders
+  WHERE id = _order_id
+  FOR UPDATE;
+
+  IF NOT FOUND OR order_row.buyer_id <> auth.uid() THEN
+    RAISE EXCEPTION 'Pedido não encontrado';
+  END IF;
+
+  IF order_row.delivery_method <> 'group_payout' THEN
+    RAISE EXCEPTION 'Este pedido não é entregue via grupo';
+  END IF;
+
+  IF order_row.status NOT IN ('pending', 'processing') THEN
+    RAISE EXCEPTION 'Este pedido não aguarda mais a entrada no grupo';
+  END IF;
+
+  IF order_row.delivery_details->>'joined_at' IS NOT NULL THEN
+    RAISE EXCEPTION 'A entrada no grupo já foi registrada';
+  END IF;
+
+  UPDATE public.orders
+  SET delivery_details = delivery_details || jsonb_build_object(
+    'joined_at', joined_at,
+    'eligible_at', joined_at + INTERVAL '14 days'
+  )
+  WHERE id = _order_id
+  RETURNING * INTO order_row;
+
+  RETURN order_row;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.mark_group_joined(UUID) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.mark_group_joined(UUID) TO authenticated;
@@ -0,0 +1,227 @@
+-- Robux the seller holds: stock is free to sell, reserved_stock is held by
+-- open orders until they complete (consumed) or are cancelled (released)
+ALTER TABLE public.sellers
+  ADD COLUMN stock INTEGER DEFAULT 0 NOT NULL CHECK (stock >= 0),
+  ADD COLUMN reserved_stock INTEGER DEFAULT 0 NOT NULL CHECK (reserved_stock >= 0);
+
+UPDATE public.sellers s
+SET reserved_stock = COALESCE((
+  SELECT SUM(o.amount)
+  FROM public.orders o
+  WHERE o.seller_id = s.id
+    AND o.status IN ('pending', 'processing', 'delivered', 'disputed')
+), 0);
+
+-- Nobody has declared stock yet, so nobody can sell until they do
+UPDATE public.sellers SET is_online = false;
+
+-- Sellers go offline when they can no longer fill a minimum order, and only
+-- orders may move reserved stock
+CREATE OR REPLACE FUNCTION public.guard_seller_stock()
+RETURNS TRIGGER
+LANGUAGE PLPGSQL
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.reserved_stock IS DISTINCT FROM OLD.reserved_stock
+    AND COALESCE(current_setting('app.stock_updating', true), 'off') <> 'on' THEN
+    RAISE EXCEPTION 'O estoque reservado só é alterado pelos pedidos';
+  END IF;
+
+  IF NEW.stock < NEW.min_amount THEN
+    NEW.is_online := false;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER guard_sellers_stock BEFORE UPDATE ON public.sellers
+  FOR EACH ROW EXECUTE FUNCTION public.guard_seller_stock();
+
+-- Completed orders consume their reservation; cancelled ones return it to stock
+CREATE OR REPLACE FUNCTION public.apply_order_stock()
+RETURNS TRIGGER
+LANGUAGE PLPGSQL
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.status NOT IN ('completed', 'cancelled') THEN
+    RETURN NEW;
+  END IF;
+
+  PERFORM set_config('app.stock_updating', 'on', true);
+
+  UPDATE public.sellers
+  SET reserved_stock = GREATEST(reserved_stock - NEW.amount, 0),
+      stock = stock + CASE WHEN NEW.status = 'cancelled' THEN NEW.amount ELSE 0 END
+  WHERE id = NEW.seller_id;
+
+  PERFORM set_config('app.stock_updating', 'off', true);
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER apply_orders_stock AFTER UPDATE OF status ON public.orders
+  FOR EACH ROW
+  WHEN (OLD.status IS DISTINCT FROM NEW.status)
+  EXECUTE FUNCTION public.apply_order_stock();
+
+-- Orders reserve stock from the seller
+CREATE OR REPLACE FUNCTION public.place_order(
+  _seller_id UUID,
+  _amount INTEGER,
+  _delivery_method public.delivery_method,
+  _delivery_details JSONB DEFAULT '{}'::jsonb
+)
+RETURNS public.orders
+LANGUAGE PLPGSQL
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  buyer_id UUID := auth.uid();
+  seller_row public.sellers%ROWTYPE;
+  buyer_row public.profiles%ROWTYPE;
+  order_total DECIMAL(10, 2);
+  details JSONB := '{}'::jsonb;
+  group_row public.seller_groups%ROWTYPE;
+  joined_at TIMESTAMP WITH TIME ZONE;
+  new_order public.orders%ROWTYPE;
+BEGIN
+  IF buyer_id IS NULL THEN
+    RAISE EXCEPTION 'Não autenticado';
+  END IF;
+
+  -- Locked for update: the order reserves the seller's stock
+  SELECT * INTO seller_row
+  FROM public.sellers
+  WHERE id = _seller_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Vendedor não encontrado';
+  END IF;
+
+  IF seller_row.user_id = buyer_id THEN
+    RAISE EXCEPTION 'Você não pode comprar de si mesmo';
+  END IF;
+
+  IF _amount IS NULL OR _amount < seller_row.min_amount OR _amount > seller_row.max_amount THEN
+    RAISE EXCEPTION 'A quantidade deve estar entre % e % Robux', seller_row.min_amount, seller_row.max_amount;
+  END IF;
+
+  IF _amount > seller_row.stock THEN
+    RAISE EXCEPTION 'O vendedor tem apenas % Robux em estoque', seller_row.stock;
+  END IF;
+
+  IF _delivery_method = 'gamepass' THEN
+    IF COALESCE(_delivery_details->>'gamepass_url', '') !~* '^https://(www\.)?roblox\.com/game-pass/[0-9]+' THEN
+      RAISE EXCEPTION 'Informe o link do gamepass (https://www.roblox.com/game-pass/...)';
+    END IF;
+
+    IF COALESCE(_delivery_details->>'place_url', '') <> ''
+      AND _delivery_details->>'place_url' !~* '^https://(www\.)?roblox\.com/games/[0-9]+' THEN
+      RAISE EXCEPTION 'Link do jogo inválido';
+    END IF;
+
+    -- Only keep known keys; the price is always computed here
+    details := jsonb_build_object(
+      'gamepass_url', _delivery_details->>'gamepass_url',
+      'place_url', NULLIF(_delivery_details->>'place_url', ''),
+      'gamepass_price', public.gamepass_price(_amount)
+    );
+  END IF;
+
+  IF _delivery_method = 'group_payout' THEN
+    SELECT * INTO group_row
+    FROM public.seller_groups
+    WHERE id = NULLIF(_delivery_details->>'seller_group_id', '')::UUID
+      AND seller_id = _seller_id
+      AND is_active;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Escolha um grupo do vendedor para receber o pagamento';
+    END IF;
+
+    joined_at := NULLIF(_delivery_details->>'joined_at', '')::TIMESTAMP WITH TIME ZONE;
+
+    IF joined_at > NOW() THEN
+      RAISE EXCEPTION 'A data de entrada no grupo não pode estar no futuro';
+    END IF;
+
+    details := public.group_payout_details(group_row, joined_at);
+  END IF;
+
+  order_total := ROUND((_amount / 1000.0) * seller_row.price_per_1k, 2);
+
+  -- Lock the buyer row so concurrent purchases cannot double-spend
+  SELECT * INTO buyer_row
+  FROM public.profiles
+  WHERE id = buyer_id
+  FOR UPDATE;
+
+  IF buyer_row.roblox_verified_at IS NULL THEN
+    RAISE EXCEPTION 'Vincule e verifique sua conta Roblox antes de comprar';
+  END IF;
+
+  IF buyer_row.balance < order_total THEN
+    RAISE EXCEPTION 'Saldo insuficiente';
+  END IF;
+
+  INSERT INTO public.orders (
+    buyer_id,
+    seller_id,
+    amount,
+    total_price,
+    delivery_method,
+    delivery_details,
+    buyer_roblox_user_id,
+    buyer_roblox_username
+  )
+  VALUES (
+    buyer_id,
+    _seller_id,
+    _amount,
+    order_total,
+    _delivery_method,
+    details,
+    buyer_row.roblox_user_id,
+    buyer_row.roblox_username
+  )
+  RETURNING * INTO new_order;
+
+  PERFORM set_config('app.stock_updating', 'on', true);
+
+  UPDATE public.sellers
+  SET stock = stock - _amount,
+      reserved_stock = reserved_stock + _amount
+  WHERE id = _seller_id;
+
+  PERFORM set_config('app.stock_updating', 'off', true);
+
+  PERFORM public.ledger_post(
+    public.ledger_account_id('user_wallet', buyer_id),
+    public.ledger_account_id('escrow'),
+    order_total,
+    'Compra retida em garantia',
+    new_order.id
+  );
+
+  INSERT INTO public.escrows (order_id, buyer_id, seller_id, amount)
+  VALUES (new_order.id, buyer_id, _seller_id, order_total);
+
+  INSERT INTO public.transactions (user_id, order_id, type, amount, description)
+  VALUES (
+    buyer_id,
+    new_order.id,
+    'purchase',
+    -order_total,
+    'Compra de ' || _amount || ' Robux (valor retido em garantia)'
+  );
+
+  RETURN new_order;
+END;
+$$;
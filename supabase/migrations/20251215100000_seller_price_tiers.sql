@@ -0,0 +1,249 @@
+-- Create seller price tiers table (volume pricing)
+-- A tier's price applies to the whole order once its amount reaches min_amount;
+-- below the first tier sellers.price_per_1k is used
+CREATE TABLE public.seller_price_tiers (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  seller_id UUID REFERENCES public.sellers(id) ON DELETE CASCADE NOT NULL,
+  min_amount INTEGER NOT NULL CHECK (min_amount > 0),
+  price_per_1k DECIMAL(10, 2) NOT NULL CHECK (price_per_1k > 0),
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW() NOT NULL,
+  UNIQUE (seller_id, min_amount)
+);
+
+-- Create seller delivery surcharges table (extra price per 1k by delivery method)
+CREATE TABLE public.seller_delivery_surcharges (
+  seller_id UUID REFERENCES public.sellers(id) ON DELETE CASCADE NOT NULL,
+  delivery_method public.delivery_method NOT NULL,
+  surcharge_per_1k DECIMAL(10, 2) NOT NULL CHECK (surcharge_per_1k >= 0),
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW() NOT NULL,
+  PRIMARY KEY (seller_id, delivery_method)
+);
+
+ALTER TABLE public.seller_price_tiers ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.seller_delivery_surcharges ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Everyone can view price tiers" ON public.seller_price_tiers
+  FOR SELECT USING (true);
+
+CREATE POLICY "Sellers can manage own price tiers" ON public.seller_price_tiers
+  FOR ALL USING (
+    auth.uid() IN (SELECT user_id FROM public.sellers WHERE id = seller_id)
+  ) WITH CHECK (
+    auth.uid() IN (SELECT user_id FROM public.sellers WHERE id = seller_id)
+  );
+
+CREATE POLICY "Admins can manage price tiers" ON public.seller_price_tiers
+  FOR ALL USING (public.has_role(auth.uid(), 'admin'));
+
+CREATE POLICY "Everyone can view delivery surcharges" ON public.seller_delivery_surcharges
+  FOR SELECT USING (true);
+
+CREATE POLICY "Sellers can manage own delivery surcharges" ON public.seller_delivery_surcharges
+  FOR ALL USING (
+    auth.uid() IN (SELECT user_id FROM public.sellers WHERE id = seller_id)
+  ) WITH CHECK (
+    auth.uid() IN (SELECT user_id FROM public.sellers WHERE id = seller_id)
+  );
+
+CREATE POLICY "Admins can manage delivery surcharges" ON public.seller_delivery_surcharges
+  FOR ALL USING (public.has_role(auth.uid(), 'admin'));
+
+-- Price per 1k for an order size: the highest tier reached, else the base price
+CREATE OR REPLACE FUNCTION public.seller_price_per_1k(_seller_id UUID, _amount INTEGER)
+RETURNS DECIMAL(10, 2)
+LANGUAGE SQL
+STABLE
+SET search_path = public
+AS $$
+  SELECT COALESCE(
+    (
+      SELECT t.price_per_1k
+      FROM public.seller_price_tiers t
+      WHERE t.seller_id = _seller_id AND t.min_amount <= _amount
+      ORDER BY t.min_amount DESC
+      LIMIT 1
+    ),
+    (SELECT s.price_per_1k FROM public.sellers s WHERE s.id = _seller_id)
+  )
+$$;
+
+-- Order total (mirrored by calculateOrderTotal in src/lib/pricing.ts)
+CREATE OR REPLACE FUNCTION public.calculate_order_total(
+  _seller_id UUID,
+  _amount INTEGER,
+  _delivery_method public.delivery_method
+)
+RETURNS DECIMAL(10, 2)
+LANGUAGE SQL
+STABLE
+SET search_path = public
+AS $$
+  SELECT ROUND(
+    (_amount / 1000.0) * (
+      public.seller_price_per_1k(_seller_id, _amount) +
+      COALESCE((
+        SELECT d.surcharge_per_1k
+        FROM public.seller_delivery_surcharges d
+        WHERE d.seller_id = _seller_id AND d.delivery_method = _delivery_method
+      ), 0)
+    ),
+    2
+  )
+$$;
+
+-- Orders are priced with tiers and delivery surcharges
+CREATE OR REPLACE FUNCTION public.place_order(
+  _seller_id UUID,
+  _amount INTEGER,
+  _delivery_method public.delivery_method,
+  _delivery_details JSONB DEFAULT '{}'::jsonb
+)
+RETURNS public.orders
+LANGUAGE PLPGSQL
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  buyer_id UUID := auth.uid();
+  seller_row public.sellers%ROWTYPE;
+  buyer_row public.profiles%ROWTYPE;
+  order_total DECIMAL(10, 2);
+  details JSONB := '{}'::jsonb;
+  group_row public.seller_groups%ROWTYPE;
+  joined_at TIMESTAMP WITH TIME ZONE;
+  new_order public.orders%ROWTYPE;
+BEGIN
+  IF buyer_id IS NULL THEN
+    RAISE EXCEPTION 'Não autenticado';
+  END IF;
+
+  -- Locked for update: the order reserves the seller's stock
+  SELECT * INTO seller_row
+  FROM public.sellers
+  WHERE id = _seller_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Vendedor não encontrado';
+  END IF;
+
+  IF seller_row.user_id = buyer_id THEN
+    RAISE EXCEPTION 'Você não pode comprar de si mesmo';
+  END IF;
+
+  IF _amount IS NULL OR _amount < seller_row.min_amount OR _amount > seller_row.max_amount THEN
+    RAISE EXCEPTION 'A quantidade deve estar entre % e % Robux', seller_row.min_amount, seller_row.max_amount;
+  END IF;
+
+  IF _amount > seller_row.stock THEN
+    RAISE EXCEPTION 'O vendedor tem apenas % Robux em estoque', seller_row.stock;
+  END IF;
+
+  IF _delivery_method = 'gamepass' THEN
+    IF COALESCE(_delivery_details->>'gamepass_url', '') !~* '^https://(www\.)?roblox\.com/game-pass/[0-9]+' THEN
+      RAISE EXCEPTION 'Informe o link do gamepass (https://www.roblox.com/game-pass/...)';
+    END IF;
+
+    IF COALESCE(_delivery_details->>'place_url', '') <> ''
+      AND _delivery_details->>'place_url' !~* '^https://(www\.)?roblox\.com/games/[0-9]+' THEN
+      RAISE EXCEPTION 'Link do jogo inválido';
+    END IF;
+
+    -- Only keep known keys; the price is always computed here
+    details := jsonb_build_object(
+      'gamepass_url', _delivery_details->>'gamepass_url',
+      'place_url', NULLIF(_delivery_details->>'place_url', ''),
+      'gamepass_price', public.gamepass_price(_amount)
+    );
+  END IF;
+
+  IF _delivery_method = 'group_payout' THEN
+    SELECT * INTO group_row
+    FROM public.seller_groups
+    WHERE id = NULLIF(_delivery_details->>'seller_group_id', '')::UUID
+      AND seller_id = _seller_id
+      AND is_active;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Escolha um grupo do vendedor para receber o pagamento';
+    END IF;
+
+    joined_at := NULLIF(_delivery_details->>'joined_at', '')::TIMESTAMP WITH TIME ZONE;
+
+    IF joined_at > NOW() THEN
+      RAISE EXCEPTION 'A data de entrada no grupo não pode estar no futuro';
+    END IF;
+
+    details := public.group_payout_details(group_row, joined_at);
+  END IF;
+
+  order_total := public.calculate_order_total(_seller_id, _amount, _delivery_method);
+
+  -- Lock the buyer row so concurrent purchases cannot double-spend
+  SELECT * INTO buyer_row
+  FROM public.profiles
+  WHERE id = buyer_id
+  FOR UPDATE;
+
+  IF buyer_row.roblox_verified_at IS NULL THEN
+    RAISE EXCEPTION 'Vincule e verifique sua conta Roblox antes de comprar';
+  END IF;
+
+  IF buyer_row.balance < order_total THEN
+    RAISE EXCEPTION 'Saldo insuficiente';
+  END IF;
+
+  INSERT INTO public.orders (
+    buyer_id,
+    seller_id,
+    amount,
+    total_price,
+    delivery_method,
+    delivery_details,
+    buyer_roblox_user_id,
+    buyer_roblox_username
+  )
+  VALUES (
+    buyer_id,
+    _seller_id,
+    _amount,
+    order_total,
+    _delivery_method,
+    details,
+    buyer_row.roblox_user_id,
+    buyer_row.roblox_username
+  )
+  RETURNING * INTO new_order;
+
+  PERFORM set_config('app.stock_updating', 'on', true);
+
+  UPDATE public.sellers
+  SET stock = stock - _amount,
+      reserved_stock = reserved_stock + _amount
+  WHERE id = _seller_id;
+
+  PERFORM set_config('app.stock_updating', 'off', true);
+
+  PERFORM public.ledger_post(
+    public.ledger_account_id('user_wallet', buyer_id),
+    public.ledger_account_id('escrow'),
+    order_total,
+    'Compra retida em garantia',
+    new_order.id
+  );
+
+  INSERT INTO public.escrows (order_id, buyer_id, seller_id, amount)
+  VALUES (new_order.id, buyer_id, _seller_id, order_total);
+
+  INSERT INTO public.transactions (user_id, order_id, type, amount, description)
+  VALUES (
+    buyer_id,
+    new_order.id,
+    'purchase',
+    -order_total,
+    'Compra de ' || _amount || ' Robux (valor retido em garantia)'
+  );
+
+  RETURN new_order;
+END;
+$$;
@@ -0,0 +1,483 @@
+-- Coupons: percentage or fixed discounts, platform-wide (seller_id NULL,
+-- funded by the platform) or for a single seller (funded by that seller)
+
+-- Create coupon_discount_type enum
+CREATE TYPE public.coupon_discount_type AS ENUM ('percentage', 'fixed');
+
+-- Create coupons table
+CREATE TABLE public.coupons (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  code TEXT UNIQUE NOT NULL CHECK (code = UPPER(code) AND code <> ''),
+  discount_type public.coupon_discount_type NOT NULL,
+  discount_value DECIMAL(10, 2) NOT NULL CHECK (discount_value > 0),
+  seller_id UUID REFERENCES public.sellers(id) ON DELETE CASCADE,
+  max_uses INTEGER CHECK (max_uses > 0),
+  max_uses_per_user INTEGER CHECK (max_uses_per_user > 0),
+  uses_count INTEGER DEFAULT 0 NOT NULL,
+  expires_at TIMESTAMP WITH TIME ZONE,
+  is_active BOOLEAN DEFAULT true NOT NULL,
+  created_by UUID REFERENCES public.profiles(id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW() NOT NULL,
+  CHECK (discount_type <> 'percentage' OR discount_value < 100)
+);
+
+-- Create coupon redemptions table (one per order)
+CREATE TABLE public.coupon_redemptions (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  coupon_id UUID REFERENCES public.coupons(id) ON DELETE CASCADE NOT NULL,
+  user_id UUID REFERENCES public.profiles(id) ON DELETE CASCADE NOT NULL,
+  order_id UUID UNIQUE REFERENCES public.orders(id) ON DELETE CASCADE NOT NULL,
+  discount_amount DECIMAL(10, 2) NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW() NOT NULL
+);
+
+CREATE INDEX idx_coupon_redemptions_coupon_user ON public.coupon_redemptions(coupon_id, user_id);
+
+ALTER TABLE public.coupons ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.coupon_redemptions ENABLE ROW LEVEL SECURITY;
+
+-- Codes are not listable by users; they are checked through preview_coupon
+CREATE POLICY "Admins can manage coupons" ON public.coupons
+  FOR ALL USING (public.has_role(auth.uid(), 'admin'));
+
+CREATE POLICY "Users can view own coupon redemptions" ON public.coupon_redemptions
+  FOR SELECT USING (auth.uid() = user_id OR public.has_role(auth.uid(), 'admin'));
+
+-- Discount recorded on the order; total_price is what the buyer paid
+ALTER TABLE public.orders
+  ADD COLUMN coupon_id UUID REFERENCES public.coupons(id) ON DELETE SET NULL,
+  ADD COLUMN discount_amount DECIMAL(10, 2) DEFAULT 0 NOT NULL;
+
+-- Part of the escrow put in by the platform to cover a platform-wide coupon
+ALTER TABLE public.escrows
+  ADD COLUMN platform_funded DECIMAL(10, 2) DEFAULT 0 NOT NULL CHECK (platform_funded >= 0);
+
+ALTER TABLE public.transactions
+DROP CONSTRAINT IF EXISTS transactions_type_check;
+
+ALTER TABLE public.transactions
+ADD CONSTRAINT transactions_type_check
+CHECK (type IN ('deposit', 'purchase', 'sale', 'withdrawal', 'fee', 'refund', 'discount'));
+
+-- Validate a coupon for a buyer and order subtotal and return the discount
+CREATE OR REPLACE FUNCTION public.coupon_discount(
+  _coupon public.coupons,
+  _buyer_id UUID,
+  _seller_id UUID,
+  _subtotal DECIMAL
+)
+RETURNS DECIMAL(10, 2)
+LANGUAGE PLPGSQL
+STABLE
+SET search_path = public
+AS $$
+DECLARE
+  discount DECIMAL(10, 2);
+BEGIN
+  IF NOT _coupon.is_active OR (_coupon.expires_at IS NOT NULL AND _coupon.expires_at <= NOW()) THEN
+    RAISE EXCEPTION 'Cupom expirado';
+  END IF;
+
+  IF _coupon.seller_id IS NOT NULL AND _coupon.seller_id <> _seller_id THEN
+    RAISE EXCEPTION 'Cupom não é válido para este vendedor';
+  END IF;
+
+  IF _coupon.max_uses IS NOT NULL AND _coupon.uses_count >= _coupon.max_uses THEN
+    RAISE EXCEPTION 'Cupom esgotado';
+  END IF;
+
+  IF _coupon.max_uses_per_user IS NOT NULL AND (
+    SELECT COUNT(*) FROM public.coupon_redemptions
+    WHERE coupon_id = _coupon.id AND user_id = _buyer_id
+  ) >= _coupon.max_uses_per_user THEN
+    RAISE EXCEPTION 'Você já usou este cupom o máximo de vezes permitido';
+  END IF;
+
+  IF _coupon.discount_type = 'percentage' THEN
+    discount := ROUND(_subtotal * _coupon.discount_value / 100, 2);
+  ELSE
+    discount := _coupon.discount_value;
+  END IF;
+
+  IF discount >= _subtotal THEN
+    RAISE EXCEPTION 'O valor do pedido deve ser maior que o desconto do cupom';
+  END IF;
+
+  RETURN discount;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.coupon_discount(public.coupons, UUID, UUID, DECIMAL) FROM PUBLIC, anon, authenticated;
+
+-- Discount a code would give on an order, for the purchase page
+CREATE OR REPLACE FUNCTION public.preview_coupon(
+  _code TEXT,
+  _seller_id UUID,
+  _amount INTEGER,
+  _delivery_method public.delivery_method
+)
+RETURNS DECIMAL(10, 2)
+LANGUAGE PLPGSQL
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  coupon_row public.coupons%ROWTYPE;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Não autenticado';
+  END IF;
+
+  SELECT * INTO coupon_row
+  FROM public.coupons
+  WHERE code = UPPER(TRIM(_code));
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Cupom inválido';
+  END IF;
+
+  RETURN public.coupon_discount(
+    coupon_row,
+    auth.uid(),
+    _seller_id,
+    public.calculate_order_total(_seller_id, _amount, _delivery_method)
+  );
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.preview_coupon(TEXT, UUID, INTEGER, public.delivery_method) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.preview_coupon(TEXT, UUID, INTEGER, public.delivery_method) TO authenticated;
+
+-- Refunds never hand the platform's coupon subsidy to the buyer
+CREATE OR REPLACE FUNCTION public.refund_escrow(_order_id UUID, _amount DECIMAL DEFAULT NULL)
+RETURNS VOID
+LANGUAGE PLPGSQL
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  escrow_row public.escrows%ROWTYPE;
+  seller_user_id UUID;
+  refund DECIMAL(10, 2);
+  buyer_paid DECIMAL(10, 2);
+  remainder DECIMAL(10, 2);
+  commission DECIMAL(10, 2) := 0;
+BEGIN
+  SELECT * INTO escrow_row
+  FROM public.escrows
+  WHERE order_id = _order_id
+  FOR UPDATE;
+
+  IF NOT FOUND OR escrow_row.status <> 'held' THEN
+    RETURN;
+  END IF;
+
+  -- The buyer can only get back what they paid, never the platform's coupon subsidy
+  buyer_paid := escrow_row.amount - escrow_row.platform_funded;
+  refund := ROUND(COALESCE(_amount, buyer_paid), 2);
+
+  IF refund <= 0 OR refund > buyer_paid THEN
+    RAISE EXCEPTION 'Valor de reembolso inválido';
+  END IF;
+
+  remainder := escrow_row.amount - refund;
+
+  -- A full refund returns the subsidy to the platform
+  IF refund = buyer_paid AND escrow_row.platform_funded > 0 THEN
+    PERFORM public.ledger_post(
+      public.ledger_account_id('escrow'),
+      public.ledger_account_id('platform_fees'),
+      escrow_row.platform_funded,
+      'Estorno de desconto de cupom',
+      _order_id
+    );
+
+    remainder := 0;
+  END IF;
+
+  PERFORM public.ledger_post(
+    public.ledger_account_id('escrow'),
+    public.ledger_account_id('user_wallet', escrow_row.buyer_id),
+    refund,
+    'Reembolso de garantia ao comprador',
+    _order_id
+  );
+
+  INSERT INTO public.transactions (user_id, order_id, type, amount, description)
+  VALUES (
+    escrow_row.buyer_id,
+    _order_id,
+    'refund',
+    refund,
+    CASE
+      WHEN remainder > 0 THEN 'Reembolso parcial de pedido cancelado'
+      ELSE 'Reembolso de pedido cancelado'
+    END
+  );
+
+  IF remainder > 0 THEN
+    SELECT user_id INTO seller_user_id
+    FROM public.sellers
+    WHERE id = escrow_row.seller_id;
+
+    commission := ROUND(remainder * escrow_row.commission_rate, 2);
+
+    PERFORM public.ledger_post(
+      public.ledger_account_id('escrow'),
+      public.ledger_account_id('user_wallet', seller_user_id),
+      remainder - commission,
+      'Liberação parcial de garantia ao vendedor',
+      _order_id
+    );
+
+    IF commission > 0 THEN
+      PERFORM public.ledger_post(
+        public.ledger_account_id('escrow'),
+        public.ledger_account_id('platform_fees'),
+        commission,
+        'Comissão de venda',
+        _order_id
+      );
+    END IF;
+
+    INSERT INTO public.transactions (user_id, order_id, type, amount, description)
+    VALUES (
+      seller_user_id,
+      _order_id,
+      'sale',
+      remainder - commission,
+      'Pedido cancelado com reembolso parcial (comissão: R$ ' || commission || ')'
+    );
+  END IF;
+
+  UPDATE public.escrows
+  SET status = 'refunded',
+      refunded_amount = refund,
+      commission_amount = commission,
+      settled_at = NOW()
+  WHERE id = escrow_row.id;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.refund_escrow(UUID, DECIMAL) FROM PUBLIC, anon, authenticated;
+
+-- Orders accept a coupon code
+DROP FUNCTION public.place_order(UUID, INTEGER, public.delivery_method, JSONB);
+
+CREATE OR REPLACE FUNCTION public.place_order(
+  _seller_id UUID,
+  _amount INTEGER,
+  _delivery_method public.delivery_method,
+  _delivery_details JSONB DEFAULT '{}'::jsonb,
+  _coupon_code TEXT DEFAULT NULL
+)
+RETURNS public.orders
+LANGUAGE PLPGSQL
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  buyer_id UUID := auth.uid();
+  seller_row public.sellers%ROWTYPE;
+  buyer_row public.profiles%ROWTYPE;
+  order_total DECIMAL(10, 2);
+  subtotal DECIMAL(10, 2);
+  coupon_row public.coupons%ROWTYPE;
+  discount DECIMAL(10, 2) := 0;
+  platform_share DECIMAL(10, 2) := 0;
+  details JSONB := '{}'::jsonb;
+  group_row public.seller_groups%ROWTYPE;
+  joined_at TIMESTAMP WITH TIME ZONE;
+  new_order public.orders%ROWTYPE;
+BEGIN
+  IF buyer_id IS NULL THEN
+    RAISE EXCEPTION 'Não autenticado';
+  END IF;
+
+  -- Locked for update: the order reserves the seller's stock
+  SELECT * INTO seller_row
+  FROM public.sellers
+  WHERE id = _seller_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Vendedor não encontrado';
+  END IF;
+
+  IF seller_row.user_id = buyer_id THEN
+    RAISE EXCEPTION 'Você não pode comprar de si mesmo';
+  END IF;
+
+  IF _amount IS NULL OR _amount < seller_row.min_amount OR _amount > seller_row.max_amount THEN
+    RAISE EXCEPTION 'A quantidade deve estar entre % e % Robux', seller_row.min_amount, seller_row.max_amount;
+  END IF;
+
+  IF _amount > seller_row.stock THEN
+    RAISE EXCEPTION 'O vendedor tem apenas % Robux em estoque', seller_row.stock;
+  END IF;
+
+  IF _delivery_method = 'gamepass' THEN
+    IF COALESCE(_delivery_details->>'gamepass_url', '') !~* '^https://(www\.)?roblox\.com/game-pass/[0-9]+' THEN
+      RAISE EXCEPTION 'Informe o link do gamepass (https://www.roblox.com/game-pass/...)';
+    END IF;
+
+    IF COALESCE(_delivery_details->>'place_url', '') <> ''
+      AND _delivery_details->>'place_url' !~* '^https://(www\.)?roblox\.com/games/[0-9]+' THEN
+      RAISE EXCEPTION 'Link do jogo inválido';
+    END IF;
+
+    -- Only keep known keys; the price is always computed here
+    details := jsonb_build_object(
+      'gamepass_url', _delivery_details->>'gamepass_url',
+      'place_url', NULLIF(_delivery_details->>'place_url', ''),
+      'gamepass_price', public.gamepass_price(_amount)
+    );
+  END IF;
+
+  IF _delivery_method = 'group_payout' THEN
+    SELECT * INTO group_row
+    FROM public.seller_groups
+    WHERE id = NULLIF(_delivery_details->>'seller_group_id', '')::UUID
+      AND seller_id = _seller_id
+      AND is_active;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Escolha um grupo do vendedor para receber o pagamento';
+    END IF;
+
+    joined_at := NULLIF(_delivery_details->>'joined_at', '')::TIMESTAMP WITH TIME ZONE;
+
+    IF joined_at > NOW() THEN
+      RAISE EXCEPTION 'A data de entrada no grupo não pode estar no futuro';
+    END IF;
+
+    details := public.group_payout_details(group_row, joined_at);
+  END IF;
+
+  subtotal := public.calculate_order_total(_seller_id, _amount, _delivery_method);
+
+  IF NULLIF(TRIM(_coupon_code), '') IS NOT NULL THEN
+    SELECT * INTO coupon_row
+    FROM public.coupons
+    WHERE code = UPPER(TRIM(_coupon_code))
+    FOR UPDATE;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Cupom inválido';
+    END IF;
+
+    discount := public.coupon_discount(coupon_row, buyer_id, _seller_id, subtotal);
+
+    -- Platform-wide coupons are paid for by the platform, so the seller still
+    -- receives the full price; seller coupons come out of the seller's sale
+    IF coupon_row.seller_id IS NULL THEN
+      platform_share := discount;
+    END IF;
+  END IF;
+
+  order_total := subtotal - discount;
+
+  -- Lock the buyer row so concurrent purchases cannot double-spend
+  SELECT * INTO buyer_row
+  FROM public.profiles
+  WHERE id = buyer_id
+  FOR UPDATE;
+
+  IF buyer_row.roblox_verified_at IS NULL THEN
+    RAISE EXCEPTION 'Vincule e verifique sua conta Roblox antes de comprar';
+  END IF;
+
+  IF buyer_row.balance < order_total THEN
+    RAISE EXCEPTION 'Saldo insuficiente';
+  END IF;
+
+  INSERT INTO public.orders (
+    buyer_id,
+    seller_id,
+    amount,
+    total_price,
+    delivery_method,
+    delivery_details,
+    buyer_roblox_user_id,
+    buyer_roblox_username,
+    coupon_id,
+    discount_amount
+  )
+  VALUES (
+    buyer_id,
+    _seller_id,
+    _amount,
+    order_total,
+    _delivery_method,
+    details,
+    buyer_row.roblox_user_id,
+    buyer_row.roblox_username,
+    coupon_row.id,
+    discount
+  )
+  RETURNING * INTO new_order;
+
+  PERFORM set_config('app.stock_updating', 'on', true);
+
+  UPDATE public.sellers
+  SET stock = stock - _amount,
+      reserved_stock = reserved_stock + _amount
+  WHERE id = _seller_id;
+
+  PERFORM set_config('app.stock_updating', 'off', true);
+
+  PERFORM public.ledger_post(
+    public.ledger_account_id('user_wallet', buyer_id),
+    public.ledger_account_id('escrow'),
+    order_total,
+    'Compra retida em garantia',
+    new_order.id
+  );
+
+  IF platform_share > 0 THEN
+    PERFORM public.ledger_post(
+      public.ledger_account_id('platform_fees'),
+      public.ledger_account_id('escrow'),
+      platform_share,
+      'Desconto de cupom custeado pela plataforma',
+      new_order.id
+    );
+  END IF;
+
+  INSERT INTO public.escrows (order_id, buyer_id, seller_id, amount, platform_funded)
+  VALUES (new_order.id, buyer_id, _seller_id, order_total + platform_share, platform_share);
+
+  INSERT INTO public.transactions (user_id, order_id, type, amount, description)
+  VALUES (
+    buyer_id,
+    new_order.id,
+    'purchase',
+    -subtotal,
+    'Compra de ' || _amount || ' Robux (valor retido em garantia)'
+  );
+
+  IF discount > 0 THEN
+    INSERT INTO public.coupon_redemptions (coupon_id, user_id, order_id, discount_amount)
+    VALUES (coupon_row.id, buyer_id, new_order.id, discount);
+
+    UPDATE public.coupons
+    SET uses_count = uses_count + 1
+    WHERE id = coupon_row.id;
+
+    INSERT INTO public.transactions (user_id, order_id, type, amount, description)
+    VALUES (
+      buyer_id,
+      new_order.id,
+      'discount',
+      discount,
+      'Desconto do cupom ' || coupon_row.code
+    );
+  END IF;
+
+  RETURN new_order;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.place_order(UUID, INTEGER, public.delivery_method, JSONB, TEXT) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.place_order(UUID, INTEGER, public.delivery_method, JSONB, TEXT) TO authenticated;
@@ -0,0 +1,224 @@
+-- Sales commission: a global default in platform_settings with optional
+-- per-seller overrides. The rate is resolved when the escrow is released and
+-- stored on the escrow.
+ALTER TABLE public.platform_settings
+  ADD COLUMN sales_commission_rate DECIMAL(5, 4) DEFAULT 0.05 NOT NULL
+    CHECK (sales_commission_rate >= 0 AND sales_commission_rate < 1);
+
+-- Create seller commissions table (per-seller overrides)
+CREATE TABLE public.seller_commissions (
+  seller_id UUID PRIMARY KEY REFERENCES public.sellers(id) ON DELETE CASCADE,
+  commission_rate DECIMAL(5, 4) NOT NULL CHECK (commission_rate >= 0 AND commission_rate < 1),
+  updated_by UUID REFERENCES public.profiles(id) ON DELETE SET NULL,
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW() NOT NULL
+);
+
+ALTER TABLE public.seller_commissions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Sellers can view own commission" ON public.seller_commissions
+  FOR SELECT USING (
+    auth.uid() IN (SELECT user_id FROM public.sellers WHERE id = seller_id)
+  );
+
+CREATE POLICY "Admins can manage seller commissions" ON public.seller_commissions
+  FOR ALL USING (public.has_role(auth.uid(), 'admin'));
+
+CREATE TRIGGER update_seller_commissions_updated_at BEFORE UPDATE ON public.seller_commissions
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+CREATE OR REPLACE FUNCTION public.seller_commission_rate(_seller_id UUID)
+RETURNS DECIMAL(5, 4)
+LANGUAGE SQL
+STABLE
+SET search_path = public
+AS $$
+  SELECT COALESCE(
+    (SELECT commission_rate FROM public.seller_commissions WHERE seller_id = _seller_id),
+    (SELECT sales_commission_rate FROM public.platform_settings),
+    0.05
+  )
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.seller_commission_rate(UUID) FROM PUBLIC, anon, authenticated;
+
+CREATE OR REPLACE FUNCTION public.release_escrow(_order_id UUID)
+RETURNS VOID
+LANGUAGE PLPGSQL
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  escrow_row public.escrows%ROWTYPE;
+  seller_user_id UUID;
+  commission DECIMAL(10, 2);
+BEGIN
+  SELECT * INTO escrow_row
+  FROM public.escrows
+  WHERE order_id = _order_id
+  FOR UPDATE;
+
+  IF NOT FOUND OR escrow_row.status <> 'held' THEN
+    RETURN;
+  END IF;
+
+  SELECT user_id INTO seller_user_id
+  FROM public.sellers
+  WHERE id = escrow_row.seller_id;
+
+  escrow_row.commission_rate := public.seller_commission_rate(escrow_row.seller_id);
+  commission := ROUND(escrow_row.amount * escrow_row.commission_rate, 2);
+
+  PERFORM public.ledger_post(
+    public.ledger_account_id('escrow'),
+    public.ledger_account_id('user_wallet', seller_user_id),
+    escrow_row.amount - commission,
+    'Liberação de garantia ao vendedor',
+    _order_id
+  );
+
+  IF commission > 0 THEN
+    PERFORM public.ledger_post(
+      public.ledger_account_id('escrow'),
+      public.ledger_account_id('platform_fees'),
+      commission,
+      'Comissão de venda',
+      _order_id
+    );
+  END IF;
+
+  UPDATE public.escrows
+  SET status = 'released',
+      commission_rate = escrow_row.commission_rate,
+      commission_amount = commission,
+      settled_at = NOW()
+  WHERE id = escrow_row.id;
+
+  UPDATE public.sellers
+  SET total_sales = total_sales + 1
+  WHERE id = escrow_row.seller_id;
+
+  INSERT INTO public.transactions (user_id, order_id, type, amount, description)
+  VALUES (
+    seller_user_id,
+    _order_id,
+    'sale',
+    escrow_row.amount - commission,
+    'Venda concluída (comissão: R$ ' || commission || ')'
+  );
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.refund_escrow(_order_id UUID, _amount DECIMAL DEFAULT NULL)
+RETURNS VOID
+LANGUAGE PLPGSQL
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  escrow_row public.escrows%ROWTYPE;
+  seller_user_id UUID;
+  refund DECIMAL(10, 2);
+  buyer_paid DECIMAL(10, 2);
+  remainder DECIMAL(10, 2);
+  commission DECIMAL(10, 2) := 0;
+BEGIN
+  SELECT * INTO escrow_row
+  FROM public.escrows
+  WHERE order_id = _order_id
+  FOR UPDATE;
+
+  IF NOT FOUND OR escrow_row.status <> 'held' THEN
+    RETURN;
+  END IF;
+
+  -- The buyer can only get back what they paid, never the platform's coupon subsidy
+  buyer_paid := escrow_row.amount - escrow_row.platform_funded;
+  refund := ROUND(COALESCE(_amount, buyer_paid), 2);
+
+  IF refund <= 0 OR refund > buyer_paid THEN
+    RAISE EXCEPTION 'Valor de reembolso inválido';
+  END IF;
+
+  remainder := escrow_row.amount - refund;
+
+  -- A full refund returns the subsidy to the platform
+  IF refund = buyer_paid AND escrow_row.platform_funded > 0 THEN
+    PERFORM public.ledger_post(
+      public.ledger_account_id('escrow'),
+      public.ledger_account_id('platform_fees'),
+      escrow_row.platform_funded,
+      'Estorno de desconto de cupom',
+      _order_id
+    );
+
+    remainder := 0;
+  END IF;
+
+  PERFORM public.ledger_post(
+    public.ledger_account_id('escrow'),
+    public.ledger_account_id('user_wallet', escrow_row.buyer_id),
+    refund,
+    'Reembolso de garantia ao comprador',
+    _order_id
+  );
+
+  INSERT INTO public.transactions (user_id, order_id, type, amount, description)
+  VALUES (
+    escrow_row.buyer_id,
+    _order_id,
+    'refund',
+    refund,
+    CASE
+      WHEN remainder > 0 THEN 'Reembolso parcial de pedido cancelado'
+      ELSE 'Reembolso de pedido cancelado'
+    END
+  );
+
+  IF remainder > 0 THEN
+    SELECT user_id INTO seller_user_id
+    FROM public.sellers
+    WHERE id = escrow_row.seller_id;
+
+    escrow_row.commission_rate := public.seller_commission_rate(escrow_row.seller_id);
+    commission := ROUND(remainder * escrow_row.commission_rate, 2);
+
+    PERFORM public.ledger_post(
+      public.ledger_account_id('escrow'),
+      public.ledger_account_id('user_wallet', seller_user_id),
+      remainder - commission,
+      'Liberação parcial de garantia ao vendedor',
+      _order_id
+    );
+
+    IF commission > 0 THEN
+      PERFORM public.ledger_post(
+        public.ledger_account_id('escrow'),
+        public.ledger_account_id('platform_fees'),
+        commission,
+        'Comissão de venda',
+        _order_id
+      );
+    END IF;
+
+    INSERT INTO public.transactions (user_id, order_id, type, amount, description)
+    VALUES (
+      seller_user_id,
+      _order_id,
+      'sale',
+      remainder - commission,
+      'Pedido cancelado com reembolso parcial (comissão: R$ ' || commission || ')'
+    );
+  END IF;
+
+  UPDATE public.escrows
+  SET status = 'refunded',
+      refunded_amount = refund,
+      commission_rate = escrow_row.commission_rate,
+      commission_amount = commission,
+      settled_at = NOW()
+  WHERE id = escrow_row.id;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.release_escrow(UUID) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.refund_escrow(UUID, DECIMAL) FROM PUBLIC, anon, authenticated;
@@ -0,0 +1,125 @@
+-- The platform_fees ledger account becomes the platform treasury: it receives
+-- sales commissions and withdrawal fees, funds coupon subsidies and is not tied
+-- to any profile, so it can never be withdrawn through the seller flow.
+UPDATE public.ledger_accounts
+SET name = 'Tesouraria da plataforma'
+WHERE kind = 'platform_fees' AND user_id IS NULL;
+
+-- Withdrawal fees always go to the treasury instead of an admin's wallet
+DROP FUNCTION public.debit_wallet_withdrawal(UUID, UUID, DECIMAL, DECIMAL, UUID);
+
+CREATE OR REPLACE FUNCTION public.debit_wallet_withdrawal(
+  _user_id UUID,
+  _withdrawal_id UUID,
+  _amount DECIMAL,
+  _fee DECIMAL
+)
+RETURNS VOID
+LANGUAGE PLPGSQL
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  wallet UUID := public.ledger_account_id('user_wallet', _user_id);
+BEGIN
+  _amount := ROUND(_amount, 2);
+  _fee := ROUND(_fee, 2);
+
+  -- Lock the wallet owner so concurrent withdrawals cannot overdraw
+  PERFORM 1 FROM public.profiles WHERE id = _user_id FOR UPDATE;
+
+  PERFORM public.ledger_post(
+    wallet,
+    public.ledger_account_id('provider_clearing'),
+    _amount - _fee,
+    'Saque via PIX',
+    NULL,
+    _withdrawal_id
+  );
+
+  IF _fee > 0 THEN
+    PERFORM public.ledger_post(
+      wallet,
+      public.ledger_account_id('platform_fees'),
+      _fee,
+      'Taxa de saque',
+      NULL,
+      _withdrawal_id
+    );
+  END IF;
+
+  INSERT INTO public.transactions (user_id, type, amount, description)
+  VALUES (
+    _user_id,
+    'withdrawal',
+    -_amount,
+    'Solicitação de saque via PIX (Taxa: R$ ' || TO_CHAR(_fee, 'FM999999990.00') || ')'
+  );
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.debit_wallet_withdrawal(UUID, UUID, DECIMAL, DECIMAL) FROM PUBLIC, anon, authenticated;
+
+-- Treasury movements, newest first, with the balance after each one
+CREATE OR REPLACE FUNCTION public.platform_treasury_history(_limit INTEGER DEFAULT 200)
+RETURNS TABLE (
+  entry_id UUID,
+  description TEXT,
+  order_id UUID,
+  withdrawal_id UUID,
+  amount DECIMAL,
+  balance DECIMAL,
+  created_at TIMESTAMP WITH TIME ZONE
+)
+LANGUAGE PLPGSQL
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT public.has_role(auth.uid(), 'admin') AND auth.role() <> 'service_role' THEN
+    RAISE EXCEPTION 'Acesso negado';
+  END IF;
+
+  RETURN QUERY
+  SELECT h.id, h.description, h.order_id, h.withdrawal_id, h.amount, h.balance, h.created_at
+  FROM (
+    SELECT
+      e.id,
+      j.description,
+      j.order_id,
+      j.withdrawal_id,
+      e.amount::DECIMAL AS amount,
+      SUM(e.amount) OVER (ORDER BY e.created_at, e.id)::DECIMAL AS balance,
+      e.created_at
+    FROM public.ledger_entries e
+    JOIN public.ledger_journals j ON j.id = e.journal_id
+    JOIN public.ledger_accounts a ON a.id = e.account_id
+    WHERE a.kind = 'platform_fees' AND a.user_id IS NULL
+  ) h
+  ORDER BY h.created_at DESC, h.id DESC
+  LIMIT _limit;
+END;
+$$;
+
+-- Current treasury balance
+CREATE OR REPLACE FUNCTION public.platform_treasury_balance()
+RETURNS DECIMAL
+LANGUAGE PLPGSQL
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT public.has_role(auth.uid(), 'admin') AND auth.role() <> 'service_role' THEN
+    RAISE EXCEPTION 'Acesso negado';
+  END IF;
+
+  RETURN (
+    SELECT COALESCE(SUM(e.amount), 0)
+    FROM public.ledger_entries e
+    JOIN public.ledger_accounts a ON a.id = e.account_id
+    WHERE a.kind = 'platform_fees' AND a.user_id IS NULL
+  );
+END;
+$$;
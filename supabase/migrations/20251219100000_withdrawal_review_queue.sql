@@ -0,0 +1,91 @@
+-- Withdrawals wait in an admin review queue. Approving one creates the PIX
+-- transfer at the payment provider; rejecting it refunds the seller in full.
+ALTER TABLE public.withdrawals
+  ADD COLUMN transfer_id TEXT,
+  ADD COLUMN transfer_error TEXT,
+  ADD COLUMN rejection_reason TEXT,
+  ADD COLUMN reviewed_by UUID REFERENCES public.profiles(id) ON DELETE SET NULL,
+  ADD COLUMN reviewed_at TIMESTAMP WITH TIME ZONE;
+
+CREATE INDEX idx_withdrawals_status ON public.withdrawals(status);
+
+-- Reject: provider clearing -> seller wallet (net) + platform fees -> seller wallet (fee)
+CREATE OR REPLACE FUNCTION public.refund_withdrawal(
+  _withdrawal_id UUID,
+  _reason TEXT,
+  _reviewed_by UUID DEFAULT NULL
+)
+RETURNS VOID
+LANGUAGE PLPGSQL
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  withdrawal_row public.withdrawals%ROWTYPE;
+  seller_user_id UUID;
+  fee DECIMAL(10, 2);
+BEGIN
+  SELECT * INTO withdrawal_row
+  FROM public.withdrawals
+  WHERE id = _withdrawal_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Saque não encontrado';
+  END IF;
+
+  IF withdrawal_row.status NOT IN ('pending', 'approved') THEN
+    RAISE EXCEPTION 'Este saque já foi finalizado';
+  END IF;
+
+  SELECT user_id INTO seller_user_id
+  FROM public.sellers
+  WHERE id = withdrawal_row.seller_id;
+
+  -- The fee actually charged, as posted to the treasury
+  SELECT COALESCE(SUM(e.amount), 0) INTO fee
+  FROM public.ledger_entries e
+  JOIN public.ledger_journals j ON j.id = e.journal_id
+  JOIN public.ledger_accounts a ON a.id = e.account_id
+  WHERE j.withdrawal_id = _withdrawal_id
+    AND a.kind = 'platform_fees';
+
+  PERFORM public.ledger_post(
+    public.ledger_account_id('provider_clearing'),
+    public.ledger_account_id('user_wallet', seller_user_id),
+    withdrawal_row.amount,
+    'Estorno de saque',
+    NULL,
+    _withdrawal_id
+  );
+
+  IF fee > 0 THEN
+    PERFORM public.ledger_post(
+      public.ledger_account_id('platform_fees'),
+      public.ledger_account_id('user_wallet', seller_user_id),
+      fee,
+      'Estorno de taxa de saque',
+      NULL,
+      _withdrawal_id
+    );
+  END IF;
+
+  UPDATE public.withdrawals
+  SET status = 'rejected',
+      rejection_reason = _reason,
+      reviewed_by = COALESCE(_reviewed_by, reviewed_by),
+      reviewed_at = NOW(),
+      processed_at = NOW()
+  WHERE id = _withdrawal_id;
+
+  INSERT INTO public.transactions (user_id, type, amount, description)
+  VALUES (
+    seller_user_id,
+    'refund',
+    withdrawal_row.amount + fee,
+    'Saque recusado: ' || COALESCE(_reason, 'sem motivo informado')
+  );
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.refund_withdrawal(UUID, TEXT, UUID) FROM PUBLIC, anon, authenticated;
@@ -0,0 +1,76 @@
+-- Apply the provider's final transfer status to an approved withdrawal exactly
+-- once. Failed or cancelled transfers refund the seller, fee included.
+-- Returns true when this call settled the withdrawal.
+CREATE OR REPLACE FUNCTION public.settle_withdrawal_transfer(
+  _withdrawal_id UUID,
+  _transfer_id TEXT,
+  _status TEXT,
+  _fail_reason TEXT DEFAULT NULL
+)
+RETURNS BOOLEAN
+LANGUAGE PLPGSQL
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  withdrawal_row public.withdrawals%ROWTYPE;
+BEGIN
+  SELECT * INTO withdrawal_row
+  FROM public.withdrawals
+  WHERE id = _withdrawal_id
+  FOR UPDATE;
+
+  IF NOT FOUND
+    OR withdrawal_row.status <> 'approved'
+    OR withdrawal_row.transfer_id IS DISTINCT FROM _transfer_id THEN
+    RETURN FALSE;
+  END IF;
+
+  IF _status = 'DONE' THEN
+    UPDATE public.withdrawals
+    SET status = 'completed', processed_at = NOW()
+    WHERE id = _withdrawal_id;
+
+    RETURN TRUE;
+  END IF;
+
+  IF _status IN ('FAILED', 'CANCELLED') THEN
+    PERFORM public.refund_withdrawal(
+      _withdrawal_id,
+      COALESCE(
+        NULLIF(TRIM(_fail_reason), ''),
+        CASE WHEN _status = 'CANCELLED' THEN 'Transferência cancelada' ELSE 'Transferência falhou' END
+      )
+    );
+
+    RETURN TRUE;
+  END IF;
+
+  RETURN FALSE;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.settle_withdrawal_transfer(UUID, TEXT, TEXT, TEXT) FROM PUBLIC, anon, authenticated;
+
+CREATE INDEX idx_withdrawals_in_flight ON public.withdrawals(reviewed_at)
+  WHERE status = 'approved' AND transfer_id IS NOT NULL;
+
+-- Poll transfers the webhook never settled. The job reads the project URL and
+-- service role key from the Vault secrets project_url and service_role_key.
+CREATE EXTENSION IF NOT EXISTS pg_net WITH SCHEMA extensions;
+
+SELECT cron.schedule(
+  'poll-withdrawal-transfers',
+  '*/15 * * * *',
+  $$
+  SELECT net.http_post(
+    url := (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'project_url')
+      || '/functions/v1/poll-withdrawal-transfers',
+    headers := jsonb_build_object(
+      'Content-Type', 'application/json',
+      'Authorization', 'Bearer ' || (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'service_role_key')
+    ),
+    body := '{}'::jsonb
+  )
+  $$
+);
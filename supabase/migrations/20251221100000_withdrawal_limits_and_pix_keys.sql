@@ -0,0 +1,283 @@
+-- Saved PIX keys, withdrawal caps and cooldowns. A newly saved key can only
+-- receive withdrawals after a holding period, so a hijacked account cannot
+-- immediately drain the balance to a key the attacker controls.
+
+-- Create pix_key_type enum
+CREATE TYPE public.pix_key_type AS ENUM ('CPF', 'CNPJ', 'EMAIL', 'PHONE', 'EVP');
+
+-- Create seller PIX keys table
+CREATE TABLE public.seller_pix_keys (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  seller_id UUID REFERENCES public.sellers(id) ON DELETE CASCADE NOT NULL,
+  key_type public.pix_key_type NOT NULL,
+  key_value TEXT NOT NULL,
+  verified_at TIMESTAMP WITH TIME ZONE NOT NULL,
+  available_at TIMESTAMP WITH TIME ZONE NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW() NOT NULL,
+  UNIQUE (seller_id, key_type, key_value)
+);
+
+ALTER TABLE public.seller_pix_keys ENABLE ROW LEVEL SECURITY;
+
+-- Keys are added through add_pix_key so they are always validated
+CREATE POLICY "Sellers can view own pix keys" ON public.seller_pix_keys
+  FOR SELECT USING (
+    auth.uid() IN (SELECT user_id FROM public.sellers WHERE id = seller_id) OR
+    public.has_role(auth.uid(), 'admin')
+  );
+
+CREATE POLICY "Sellers can delete own pix keys" ON public.seller_pix_keys
+  FOR DELETE USING (
+    auth.uid() IN (SELECT user_id FROM public.sellers WHERE id = seller_id)
+  );
+
+CREATE INDEX idx_seller_pix_keys_seller_id ON public.seller_pix_keys(seller_id);
+
+-- Withdrawal rules; NULL caps mean no limit
+ALTER TABLE public.platform_settings
+  ADD COLUMN withdrawal_daily_limit DECIMAL(10, 2) DEFAULT 2000 CHECK (withdrawal_daily_limit > 0),
+  ADD COLUMN withdrawal_monthly_limit DECIMAL(10, 2) DEFAULT 20000 CHECK (withdrawal_monthly_limit > 0),
+  ADD COLUMN withdrawal_cooldown_minutes INTEGER DEFAULT 60 NOT NULL CHECK (withdrawal_cooldown_minutes >= 0),
+  ADD COLUMN pix_key_hold_hours INTEGER DEFAULT 48 NOT NULL CHECK (pix_key_hold_hours >= 0);
+
+ALTER TABLE public.withdrawals
+  ADD COLUMN pix_key_id UUID REFERENCES public.seller_pix_keys(id) ON DELETE SET NULL;
+
+-- Gross amount a withdrawal took from the wallet (net amount + fee)
+CREATE OR REPLACE FUNCTION public.withdrawal_requested_amount(_withdrawal public.withdrawals)
+RETURNS DECIMAL
+LANGUAGE SQL
+IMMUTABLE
+SET search_path = public
+AS $$
+  SELECT COALESCE((_withdrawal.payment_details->>'originalAmount')::DECIMAL, _withdrawal.amount);
+$$;
+
+-- Validate and save a PIX key for the calling seller. CPF and e-mail keys
+-- must also belong to the account (profile CPF and login e-mail).
+CREATE OR REPLACE FUNCTION public.add_pix_key(
+  _key_type public.pix_key_type,
+  _key_value TEXT
+)
+RETURNS public.seller_pix_keys
+LANGUAGE PLPGSQL
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  seller_row public.sellers%ROWTYPE;
+  profile_row public.profiles%ROWTYPE;
+  settings_row public.platform_settings%ROWTYPE;
+  normalized TEXT := TRIM(COALESCE(_key_value, ''));
+  digits INTEGER[];
+  check_sum INTEGER;
+  new_key public.seller_pix_keys%ROWTYPE;
+BEGIN
+  SELECT * INTO seller_row FROM public.sellers WHERE user_id = auth.uid();
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Apenas vendedores podem cadastrar chaves PIX';
+  END IF;
+
+  SELECT * INTO profile_row FROM public.profiles WHERE id = seller_row.user_id;
+
+  IF _key_type = 'CPF' THEN
+    normalized := regexp_replace(normalized, '\D', '', 'g');
+
+    IF normalized !~ '^[0-9]{11}$' OR normalized ~ '^(.)\1{10}$' THEN
+      RAISE EXCEPTION 'CPF inválido';
+    END IF;
+
+    digits := string_to_array(normalized, NULL)::INTEGER[];
+
+    SELECT (SUM(digits[i] * (11 - i)) * 10) % 11 % 10 INTO check_sum FROM generate_series(1, 9) i;
+    IF check_sum <> digits[10] THEN
+      RAISE EXCEPTION 'CPF inválido';
+    END IF;
+
+    SELECT (SUM(digits[i] * (12 - i)) * 10) % 11 % 10 INTO check_sum FROM generate_series(1, 10) i;
+    IF check_sum <> digits[11] THEN
+      RAISE EXCEPTION 'CPF inválido';
+    END IF;
+
+    IF profile_row.cpf IS NOT NULL AND regexp_replace(profile_row.cpf, '\D', '', 'g') <> normalized THEN
+      RAISE EXCEPTION 'A chave CPF deve ser o CPF cadastrado na sua conta';
+    END IF;
+  ELSIF _key_type = 'CNPJ' THEN
+    normalized := regexp_replace(normalized, '\D', '', 'g');
+
+    IF normalized !~ '^[0-9]{14}$' THEN
+      RAISE EXCEPTION 'CNPJ inválido';
+    END IF;
+  ELSIF _key_type = 'EMAIL' THEN
+    normalized := LOWER(normalized);
+
+    IF normalized !~ '^[^@\s]+@[^@\s]+\.[^@\s]+$' THEN
+      RAISE EXCEPTION 'E-mail inválido';
+    END IF;
+
+    IF normalized <> LOWER(profile_row.email) THEN
+      RAISE EXCEPTION 'A chave e-mail deve ser o e-mail da sua conta';
+    END IF;
+  ELSIF _key_type = 'PHONE' THEN
+    normalized := regexp_replace(normalized, '[^0-9+]', '', 'g');
+
+    IF normalized !~ '^\+' THEN
+      normalized := '+55' || normalized;
+    END IF;
+
+    IF normalized !~ '^\+55[1-9][0-9]{9,10}$' THEN
+      RAISE EXCEPTION 'Telefone inválido';
+    END IF;
+  ELSE
+    normalized := LOWER(normalized);
+
+    IF normalized !~ '^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$' THEN
+      RAISE EXCEPTION 'Chave aleatória inválida';
+    END IF;
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM public.seller_pix_keys
+    WHERE seller_id = seller_row.id AND key_type = _key_type AND key_value = normalized
+  ) THEN
+    RAISE EXCEPTION 'Esta chave PIX já está cadastrada';
+  END IF;
+
+  SELECT * INTO settings_row FROM public.platform_settings;
+
+  INSERT INTO public.seller_pix_keys (seller_id, key_type, key_value, verified_at, available_at)
+  VALUES (
+    seller_row.id,
+    _key_type,
+    normalized,
+    NOW(),
+    NOW() + make_interval(hours => COALESCE(settings_row.pix_key_hold_hours, 48))
+  )
+  RETURNING * INTO new_key;
+
+  RETURN new_key;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.add_pix_key(public.pix_key_type, TEXT) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.add_pix_key(public.pix_key_type, TEXT) TO authenticated;
+
+-- Create a withdrawal to a saved PIX key and debit the wallet, enforcing the
+-- key holding period, cooldown and daily/monthly caps. Called by
+-- asaas-create-withdrawal; the wallet lock serializes concurrent requests.
+CREATE OR REPLACE FUNCTION public.request_withdrawal(
+  _user_id UUID,
+  _pix_key_id UUID,
+  _amount DECIMAL,
+  _fee DECIMAL
+)
+RETURNS public.withdrawals
+LANGUAGE PLPGSQL
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  seller_row public.sellers%ROWTYPE;
+  key_row public.seller_pix_keys%ROWTYPE;
+  settings_row public.platform_settings%ROWTYPE;
+  wallet_balance DECIMAL(10, 2);
+  last_request TIMESTAMP WITH TIME ZONE;
+  local_now TIMESTAMP := NOW() AT TIME ZONE 'America/Sao_Paulo';
+  withdrawn_today DECIMAL;
+  withdrawn_month DECIMAL;
+  new_withdrawal public.withdrawals%ROWTYPE;
+BEGIN
+  _amount := ROUND(_amount, 2);
+  _fee := ROUND(_fee, 2);
+
+  SELECT * INTO seller_row FROM public.sellers WHERE user_id = _user_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Apenas vendedores podem solicitar saques';
+  END IF;
+
+  SELECT balance INTO wallet_balance
+  FROM public.profiles
+  WHERE id = _user_id
+  FOR UPDATE;
+
+  IF wallet_balance < _amount THEN
+    RAISE EXCEPTION 'Saldo insuficiente';
+  END IF;
+
+  SELECT * INTO key_row
+  FROM public.seller_pix_keys
+  WHERE id = _pix_key_id AND seller_id = seller_row.id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Chave PIX não encontrada';
+  END IF;
+
+  IF key_row.available_at > NOW() THEN
+    RAISE EXCEPTION 'Chave PIX em período de carência até %',
+      TO_CHAR(key_row.available_at AT TIME ZONE 'America/Sao_Paulo', 'DD/MM/YYYY HH24:MI');
+  END IF;
+
+  SELECT * INTO settings_row FROM public.platform_settings;
+
+  SELECT MAX(created_at) INTO last_request
+  FROM public.withdrawals
+  WHERE seller_id = seller_row.id;
+
+  IF last_request IS NOT NULL
+    AND last_request > NOW() - make_interval(mins => settings_row.withdrawal_cooldown_minutes) THEN
+    RAISE EXCEPTION 'Aguarde até % para solicitar outro saque',
+      TO_CHAR(
+        (last_request + make_interval(mins => settings_row.withdrawal_cooldown_minutes)) AT TIME ZONE 'America/Sao_Paulo',
+        'DD/MM/YYYY HH24:MI'
+      );
+  END IF;
+
+  -- Caps follow the calendar day and month in Brazil; rejected requests do not count
+  SELECT
+    COALESCE(SUM(public.withdrawal_requested_amount(w)) FILTER (
+      WHERE w.created_at >= date_trunc('day', local_now) AT TIME ZONE 'America/Sao_Paulo'
+    ), 0),
+    COALESCE(SUM(public.withdrawal_requested_amount(w)), 0)
+  INTO withdrawn_today, withdrawn_month
+  FROM public.withdrawals w
+  WHERE w.seller_id = seller_row.id
+    AND w.status <> 'rejected'
+    AND w.created_at >= date_trunc('month', local_now) AT TIME ZONE 'America/Sao_Paulo';
+
+  IF settings_row.withdrawal_daily_limit IS NOT NULL
+    AND withdrawn_today + _amount > settings_row.withdrawal_daily_limit THEN
+    RAISE EXCEPTION 'Limite diário de saque excedido (disponível hoje: R$ %)',
+      TO_CHAR(GREATEST(settings_row.withdrawal_daily_limit - withdrawn_today, 0), 'FM999999990.00');
+  END IF;
+
+  IF settings_row.withdrawal_monthly_limit IS NOT NULL
+    AND withdrawn_month + _amount > settings_row.withdrawal_monthly_limit THEN
+    RAISE EXCEPTION 'Limite mensal de saque excedido (disponível no mês: R$ %)',
+      TO_CHAR(GREATEST(settings_row.withdrawal_monthly_limit - withdrawn_month, 0), 'FM999999990.00');
+  END IF;
+
+  INSERT INTO public.withdrawals (seller_id, amount, payment_method, payment_details, pix_key_id, status)
+  VALUES (
+    seller_row.id,
+    _amount - _fee,
+    'PIX',
+    jsonb_build_object(
+      'pixKey', key_row.key_value,
+      'pixKeyType', key_row.key_type,
+      'originalAmount', _amount,
+      'adminFee', _fee
+    ),
+    key_row.id,
+    'pending'
+  )
+  RETURNING * INTO new_withdrawal;
+
+  PERFORM public.debit_wallet_withdrawal(_user_id, new_withdrawal.id, _amount, _fee);
+
+  RETURN new_withdrawal;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.request_withdrawal(UUID, UUID, DECIMAL, DECIMAL) FROM PUBLIC, anon, authenticated;
@@ -0,0 +1,131 @@
+-- Sales proceeds stay pending for a configurable number of days before they
+-- can be withdrawn. Pending funds are part of profiles.balance (and may be
+-- spent on purchases); only withdrawals are limited to the available part.
+ALTER TABLE public.platform_settings
+  ADD COLUMN funds_hold_days INTEGER DEFAULT 7 NOT NULL CHECK (funds_hold_days >= 0);
+
+-- Create pending funds table (one row per sale credited to a seller)
+CREATE TABLE public.pending_funds (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  user_id UUID REFERENCES public.profiles(id) ON DELETE CASCADE NOT NULL,
+  order_id UUID REFERENCES public.orders(id) ON DELETE SET NULL,
+  amount DECIMAL(10, 2) NOT NULL CHECK (amount > 0),
+  available_at TIMESTAMP WITH TIME ZONE NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW() NOT NULL
+);
+
+ALTER TABLE public.pending_funds ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own pending funds" ON public.pending_funds
+  FOR SELECT USING (auth.uid() = user_id OR public.has_role(auth.uid(), 'admin'));
+
+CREATE INDEX idx_pending_funds_user_available ON public.pending_funds(user_id, available_at);
+
+-- Every sale credit (full release or the seller's part of a partial refund)
+-- starts pending
+CREATE OR REPLACE FUNCTION public.hold_sale_proceeds()
+RETURNS TRIGGER
+LANGUAGE PLPGSQL
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.type = 'sale' AND NEW.amount > 0 THEN
+    INSERT INTO public.pending_funds (user_id, order_id, amount, available_at)
+    SELECT
+      NEW.user_id,
+      NEW.order_id,
+      NEW.amount,
+      NOW() + make_interval(days => s.funds_hold_days)
+    FROM public.platform_settings s;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER hold_transactions_sale_proceeds AFTER INSERT ON public.transactions
+  FOR EACH ROW EXECUTE FUNCTION public.hold_sale_proceeds();
+
+-- Part of the balance that can be withdrawn now
+CREATE OR REPLACE FUNCTION public.available_balance(_user_id UUID)
+RETURNS DECIMAL
+LANGUAGE SQL
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT GREATEST(
+    p.balance - COALESCE((
+      SELECT SUM(f.amount)
+      FROM public.pending_funds f
+      WHERE f.user_id = p.id AND f.available_at > NOW()
+    ), 0),
+    0
+  )
+  FROM public.profiles p
+  WHERE p.id = _user_id;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.available_balance(UUID) FROM PUBLIC, anon, authenticated;
+
+-- Withdrawals may only take available funds
+CREATE OR REPLACE FUNCTION public.debit_wallet_withdrawal(
+  _user_id UUID,
+  _withdrawal_id UUID,
+  _amount DECIMAL,
+  _fee DECIMAL
+)
+RETURNS VOID
+LANGUAGE PLPGSQL
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  wallet UUID := public.ledger_account_id('user_wallet', _user_id);
+  available DECIMAL(10, 2);
+BEGIN
+  _amount := ROUND(_amount, 2);
+  _fee := ROUND(_fee, 2);
+
+  -- Lock the wallet owner so concurrent withdrawals cannot overdraw
+  PERFORM 1 FROM public.profiles WHERE id = _user_id FOR UPDATE;
+
+  available := public.available_balance(_user_id);
+
+  IF available < _amount THEN
+    RAISE EXCEPTION 'Saldo disponível insuficiente (R$ % liberados para saque)',
+      TO_CHAR(available, 'FM999999990.00');
+  END IF;
+
+  PERFORM public.ledger_post(
+    wallet,
+    public.ledger_account_id('provider_clearing'),
+    _amount - _fee,
+    'Saque via PIX',
+    NULL,
+    _withdrawal_id
+  );
+
+  IF _fee > 0 THEN
+    PERFORM public.ledger_post(
+      wallet,
+      public.ledger_account_id('platform_fees'),
+      _fee,
+      'Taxa de saque',
+      NULL,
+      _withdrawal_id
+    );
+  END IF;
+
+  INSERT INTO public.transactions (user_id, type, amount, description)
+  VALUES (
+    _user_id,
+    'withdrawal',
+    -_amount,
+    'Solicitação de saque via PIX (Taxa: R$ ' || TO_CHAR(_fee, 'FM999999990.00') || ')'
+  );
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.debit_wallet_withdrawal(UUID, UUID, DECIMAL, DECIMAL) FROM PUBLIC, anon, authenticated;
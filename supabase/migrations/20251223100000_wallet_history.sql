@@ -0,0 +1,226 @@
+-- Wallet history: every transaction with the balance after it, filterable
+-- and paginated, linked to its order or withdrawal.
+ALTER TABLE public.transactions
+  ADD COLUMN withdrawal_id UUID REFERENCES public.withdrawals(id) ON DELETE SET NULL;
+
+CREATE INDEX idx_transactions_user_created_at ON public.transactions(user_id, created_at DESC);
+
+-- Link existing withdrawal transactions through the ledger journal posted in
+-- the same database transaction (same NOW())
+UPDATE public.transactions t
+SET withdrawal_id = j.withdrawal_id
+FROM public.ledger_journals j
+JOIN public.ledger_entries e ON e.journal_id = j.id
+JOIN public.ledger_accounts a ON a.id = e.account_id AND a.kind = 'user_wallet'
+WHERE t.withdrawal_id IS NULL
+  AND t.type IN ('withdrawal', 'refund')
+  AND t.order_id IS NULL
+  AND j.withdrawal_id IS NOT NULL
+  AND j.created_at = t.created_at
+  AND a.user_id = t.user_id;
+
+-- Withdrawal debits and refunds now reference their withdrawal
+CREATE OR REPLACE FUNCTION public.debit_wallet_withdrawal(
+  _user_id UUID,
+  _withdrawal_id UUID,
+  _amount DECIMAL,
+  _fee DECIMAL
+)
+RETURNS VOID
+LANGUAGE PLPGSQL
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  wallet UUID := public.ledger_account_id('user_wallet', _user_id);
+  available DECIMAL(10, 2);
+BEGIN
+  _amount := ROUND(_amount, 2);
+  _fee := ROUND(_fee, 2);
+
+  -- Lock the wallet owner so concurrent withdrawals cannot overdraw
+  PERFORM 1 FROM public.profiles WHERE id = _user_id FOR UPDATE;
+
+  available := public.available_balance(_user_id);
+
+  IF available < _amount THEN
+    RAISE EXCEPTION 'Saldo disponível insuficiente (R$ % liberados para saque)',
+      TO_CHAR(available, 'FM999999990.00');
+  END IF;
+
+  PERFORM public.ledger_post(
+    wallet,
+    public.ledger_account_id('provider_clearing'),
+    _amount - _fee,
+    'Saque via PIX',
+    NULL,
+    _withdrawal_id
+  );
+
+  IF _fee > 0 THEN
+    PERFORM public.ledger_post(
+      wallet,
+      public.ledger_account_id('platform_fees'),
+      _fee,
+      'Taxa de saque',
+      NULL,
+      _withdrawal_id
+    );
+  END IF;
+
+  INSERT INTO public.transactions (user_id, withdrawal_id, type, amount, description)
+  VALUES (
+    _user_id,
+    _withdrawal_id,
+    'withdrawal',
+    -_amount,
+    'Solicitação de saque via PIX (Taxa: R$ ' || TO_CHAR(_fee, 'FM999999990.00') || ')'
+  );
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.debit_wallet_withdrawal(UUID, UUID, DECIMAL, DECIMAL) FROM PUBLIC, anon, authenticated;
+
+CREATE OR REPLACE FUNCTION public.refund_withdrawal(
+  _withdrawal_id UUID,
+  _reason TEXT,
+  _reviewed_by UUID DEFAULT NULL
+)
+RETURNS VOID
+LANGUAGE PLPGSQL
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  withdrawal_row public.withdrawals%ROWTYPE;
+  seller_user_id UUID;
+  fee DECIMAL(10, 2);
+BEGIN
+  SELECT * INTO withdrawal_row
+  FROM public.withdrawals
+  WHERE id = _withdrawal_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Saque não encontrado';
+  END IF;
+
+  IF withdrawal_row.status NOT IN ('pending', 'approved') THEN
+    RAISE EXCEPTION 'Este saque já foi finalizado';
+  END IF;
+
+  SELECT user_id INTO seller_user_id
+  FROM public.sellers
+  WHERE id = withdrawal_row.seller_id;
+
+  -- The fee actually charged, as posted to the treasury
+  SELECT COALESCE(SUM(e.amount), 0) INTO fee
+  FROM public.ledger_entries e
+  JOIN public.ledger_journals j ON j.id = e.journal_id
+  JOIN public.ledger_accounts a ON a.id = e.account_id
+  WHERE j.withdrawal_id = _withdrawal_id
+    AND a.kind = 'platform_fees';
+
+  PERFORM public.ledger_post(
+    public.ledger_account_id('provider_clearing'),
+    public.ledger_account_id('user_wallet', seller_user_id),
+    withdrawal_row.amount,
+    'Estorno de saque',
+    NULL,
+    _withdrawal_id
+  );
+
+  IF fee > 0 THEN
+    PERFORM public.ledger_post(
+      public.ledger_account_id('platform_fees'),
+      public.ledger_account_id('user_wallet', seller_user_id),
+      fee,
+      'Estorno de taxa de saque',
+      NULL,
+      _withdrawal_id
+    );
+  END IF;
+
+  UPDATE public.withdrawals
+  SET status = 'rejected',
+      rejection_reason = _reason,
+      reviewed_by = COALESCE(_reviewed_by, reviewed_by),
+      reviewed_at = NOW(),
+      processed_at = NOW()
+  WHERE id = _withdrawal_id;
+
+  INSERT INTO public.transactions (user_id, withdrawal_id, type, amount, description)
+  VALUES (
+    seller_user_id,
+    _withdrawal_id,
+    'refund',
+    withdrawal_row.amount + fee,
+    'Saque recusado: ' || COALESCE(_reason, 'sem motivo informado')
+  );
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.refund_withdrawal(UUID, TEXT, UUID) FROM PUBLIC, anon, authenticated;
+
+-- The caller's transactions, newest first. The running balance is anchored to
+-- the current balance and computed before filtering, so it stays correct on
+-- every page.
+CREATE OR REPLACE FUNCTION public.wallet_history(
+  _type TEXT DEFAULT NULL,
+  _from TIMESTAMP WITH TIME ZONE DEFAULT NULL,
+  _to TIMESTAMP WITH TIME ZONE DEFAULT NULL,
+  _limit INTEGER DEFAULT 20,
+  _offset INTEGER DEFAULT 0
+)
+RETURNS TABLE (
+  id UUID,
+  type TEXT,
+  amount DECIMAL,
+  description TEXT,
+  order_id UUID,
+  withdrawal_id UUID,
+  balance_after DECIMAL,
+  created_at TIMESTAMP WITH TIME ZONE,
+  total_count BIGINT
+)
+LANGUAGE PLPGSQL
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Não autenticado';
+  END IF;
+
+  RETURN QUERY
+  SELECT h.id, h.type, h.amount, h.description, h.order_id, h.withdrawal_id, h.balance_after, h.created_at,
+    COUNT(*) OVER ()
+  FROM (
+    SELECT
+      t.id,
+      t.type,
+      t.amount::DECIMAL AS amount,
+      t.description,
+      t.order_id,
+      t.withdrawal_id,
+      (p.balance - COALESCE(SUM(t.amount) OVER (
+        ORDER BY t.created_at DESC, t.id DESC
+        ROWS BETWEEN UNBOUNDED PRECEDING AND 1 PRECEDING
+      ), 0))::DECIMAL AS balance_after,
+      t.created_at
+    FROM public.transactions t
+    JOIN public.profiles p ON p.id = t.user_id
+    WHERE t.user_id = auth.uid()
+  ) h
+  WHERE (_type IS NULL OR h.type = _type)
+    AND (_from IS NULL OR h.created_at >= _from)
+    AND (_to IS NULL OR h.created_at < _to)
+  ORDER BY h.created_at DESC, h.id DESC
+  LIMIT _limit
+  OFFSET _offset;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.wallet_history(TEXT, TIMESTAMP WITH TIME ZONE, TIMESTAMP WITH TIME ZONE, INTEGER, INTEGER) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.wallet_history(TEXT, TIMESTAMP WITH TIME ZONE, TIMESTAMP WITH TIME ZONE, INTEGER, INTEGER) TO authenticated;
@@ -0,0 +1,52 @@
+-- A seller cancelling an order always refunds the buyer in full. Partial
+-- refunds release the rest of the escrow to the seller, so only admins (or
+-- resolve_dispute) may decide them.
+CREATE OR REPLACE FUNCTION public.cancel_order(_order_id UUID, _refund_amount DECIMAL DEFAULT NULL)
+RETURNS public.orders
+LANGUAGE PLPGSQL
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  order_row public.orders%ROWTYPE;
+  is_admin BOOLEAN := public.has_role(auth.uid(), 'admin');
+BEGIN
+  SELECT * INTO order_row
+  FROM public.orders
+  WHERE id = _order_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Pedido não encontrado';
+  END IF;
+
+  IF NOT is_admin AND NOT EXISTS (
+    SELECT 1 FROM public.sellers
+    WHERE id = order_row.seller_id AND user_id = auth.uid()
+  ) THEN
+    RAISE EXCEPTION 'Sem permissão para cancelar este pedido';
+  END IF;
+
+  IF _refund_amount IS NOT NULL AND NOT is_admin THEN
+    RAISE EXCEPTION 'Apenas administradores podem fazer reembolsos parciais';
+  END IF;
+
+  IF order_row.status IN ('completed', 'cancelled') THEN
+    RAISE EXCEPTION 'Pedido já finalizado';
+  END IF;
+
+  IF order_row.status = 'disputed' THEN
+    RAISE EXCEPTION 'Pedido em disputa: aguarde a decisão do administrador';
+  END IF;
+
+  PERFORM public.refund_escrow(_order_id, _refund_amount);
+
+  -- The escrow is already settled, so the status trigger is a no-op here
+  UPDATE public.orders
+  SET status = 'cancelled'
+  WHERE id = _order_id
+  RETURNING * INTO order_row;
+
+  RETURN order_row;
+END;
+$$;
@@ -0,0 +1,111 @@
+-- Dispute rulings are bounded by what the buyer actually paid into escrow
+-- (escrows.amount minus the platform-funded coupon discount) instead of
+-- orders.total_price, which sellers can update.
+CREATE OR REPLACE FUNCTION public.resolve_dispute(
+  _dispute_id UUID,
+  _resolution public.dispute_resolution,
+  _refund_amount DECIMAL DEFAULT NULL,
+  _notes TEXT DEFAULT NULL
+)
+RETURNS public.disputes
+LANGUAGE PLPGSQL
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  dispute_row public.disputes%ROWTYPE;
+  escrow_row public.escrows%ROWTYPE;
+  buyer_paid DECIMAL(10, 2);
+  refund DECIMAL(10, 2);
+  summary TEXT;
+BEGIN
+  IF NOT public.has_role(auth.uid(), 'admin') THEN
+    RAISE EXCEPTION 'Apenas administradores podem resolver disputas';
+  END IF;
+
+  SELECT * INTO dispute_row
+  FROM public.disputes
+  WHERE id = _dispute_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Disputa não encontrada';
+  END IF;
+
+  IF dispute_row.status <> 'open' THEN
+    RAISE EXCEPTION 'Disputa já resolvida';
+  END IF;
+
+  PERFORM 1
+  FROM public.orders
+  WHERE id = dispute_row.order_id
+  FOR UPDATE;
+
+  -- Amounts come from the escrow, never from the client-writable order row
+  SELECT * INTO escrow_row
+  FROM public.escrows
+  WHERE order_id = dispute_row.order_id
+  FOR UPDATE;
+
+  IF NOT FOUND OR escrow_row.status <> 'held' THEN
+    RAISE EXCEPTION 'Garantia do pedido não está retida';
+  END IF;
+
+  buyer_paid := escrow_row.amount - escrow_row.platform_funded;
+
+  PERFORM set_config('app.dispute_resolving', 'on', true);
+
+  IF _resolution = 'release' THEN
+    refund := 0;
+    PERFORM public.release_escrow(dispute_row.order_id);
+
+    UPDATE public.orders
+    SET status = 'completed', completed_at = NOW()
+    WHERE id = dispute_row.order_id;
+
+    summary := 'Disputa resolvida: valor liberado ao vendedor';
+  ELSE
+    IF _resolution = 'refund' THEN
+      refund := buyer_paid;
+    ELSE
+      refund := ROUND(COALESCE(_refund_amount, 0), 2);
+      IF refund <= 0 OR refund >= buyer_paid THEN
+        RAISE EXCEPTION 'Valor de divisão inválido';
+      END IF;
+    END IF;
+
+    PERFORM public.refund_escrow(dispute_row.order_id, refund);
+
+    UPDATE public.orders
+    SET status = 'cancelled'
+    WHERE id = dispute_row.order_id;
+
+    summary := CASE
+      WHEN _resolution = 'refund' THEN 'Disputa resolvida: valor reembolsado ao comprador'
+      ELSE 'Disputa resolvida: R$ ' || refund || ' reembolsados ao comprador e o restante liberado ao vendedor'
+    END;
+  END IF;
+
+  PERFORM set_config('app.dispute_resolving', '', true);
+
+  UPDATE public.disputes
+  SET status = 'resolved',
+      resolution = _resolution,
+      refund_amount = refund,
+      resolution_notes = NULLIF(TRIM(_notes), ''),
+      resolved_by = auth.uid(),
+      resolved_at = NOW()
+  WHERE id = _dispute_id
+  RETURNING * INTO dispute_row;
+
+  INSERT INTO public.dispute_messages (dispute_id, sender_id, message, is_system)
+  VALUES (
+    _dispute_id,
+    auth.uid(),
+    summary || COALESCE(E'\n' || NULLIF(TRIM(_notes), ''), ''),
+    true
+  );
+
+  RETURN dispute_row;
+END;
+$$;
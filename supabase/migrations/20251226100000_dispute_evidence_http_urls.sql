@@ -0,0 +1,74 @@
+-- Evidence links are rendered as anchors for the other party and admins, so
+-- only http(s) URLs may be stored
+CREATE OR REPLACE FUNCTION public.are_http_urls(_urls TEXT[])
+RETURNS BOOLEAN
+LANGUAGE SQL
+IMMUTABLE
+SET search_path = public
+AS $$
+  SELECT COALESCE(bool_and(url ~* '^https?://[^\s]+$'), true)
+  FROM unnest(_urls) AS url
+$$;
+
+-- Drop any links stored before the check existed
+UPDATE public.dispute_messages
+SET evidence_urls = ARRAY(
+  SELECT url FROM unnest(evidence_urls) AS url
+  WHERE public.are_http_urls(ARRAY[url])
+)
+WHERE NOT public.are_http_urls(evidence_urls);
+
+ALTER TABLE public.dispute_messages
+  ADD CONSTRAINT dispute_messages_evidence_urls_http
+  CHECK (public.are_http_urls(evidence_urls));
+
+-- Same rule in open_dispute, with a readable error
+CREATE OR REPLACE FUNCTION public.open_dispute(
+  _order_id UUID,
+  _reason TEXT,
+  _evidence_urls TEXT[] DEFAULT '{}'
+)
+RETURNS public.disputes
+LANGUAGE PLPGSQL
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  order_row public.orders%ROWTYPE;
+  dispute_row public.disputes%ROWTYPE;
+BEGIN
+  SELECT * INTO order_row
+  FROM public.orders
+  WHERE id = _order_id
+  FOR UPDATE;
+
+  IF NOT FOUND OR order_row.buyer_id <> auth.uid() THEN
+    RAISE EXCEPTION 'Pedido não encontrado';
+  END IF;
+
+  IF order_row.status NOT IN ('pending', 'processing', 'delivered') THEN
+    RAISE EXCEPTION 'Este pedido não pode ser disputado';
+  END IF;
+
+  IF COALESCE(TRIM(_reason), '') = '' THEN
+    RAISE EXCEPTION 'Informe o motivo da disputa';
+  END IF;
+
+  IF NOT public.are_http_urls(COALESCE(_evidence_urls, '{}')) THEN
+    RAISE EXCEPTION 'Links de evidência devem começar com http:// ou https://';
+  END IF;
+
+  INSERT INTO public.disputes (order_id, opened_by, reason)
+  VALUES (_order_id, auth.uid(), TRIM(_reason))
+  RETURNING * INTO dispute_row;
+
+  INSERT INTO public.dispute_messages (dispute_id, sender_id, message, evidence_urls)
+  VALUES (dispute_row.id, auth.uid(), TRIM(_reason), COALESCE(_evidence_urls, '{}'));
+
+  UPDATE public.orders
+  SET status = 'disputed'
+  WHERE id = _order_id;
+
+  RETURN dispute_row;
+END;
+$$;
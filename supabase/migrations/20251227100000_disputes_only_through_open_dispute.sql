@@ -0,0 +1,58 @@
+-- A seller could move an order to 'disputed' with a plain UPDATE and leave
+-- it frozen forever with no dispute to resolve
+CREATE OR REPLACE FUNCTION public.enforce_order_transition()
+RETURNS TRIGGER
+LANGUAGE PLPGSQL
+SET search_path = public
+AS $$
+DECLARE
+  window_hours INTEGER;
+BEGIN
+  IF NEW.status IS NOT DISTINCT FROM OLD.status THEN
+    RETURN NEW;
+  END IF;
+
+  IF NOT public.order_transition_allowed(OLD.status, NEW.status) THEN
+    RAISE EXCEPTION 'Transição de status inválida: % -> %', OLD.status, NEW.status;
+  END IF;
+
+  -- Funds stay frozen while disputed: only resolve_dispute may move the order on
+  IF OLD.status = 'disputed'
+    AND COALESCE(current_setting('app.dispute_resolving', true), '') <> 'on' THEN
+    RAISE EXCEPTION 'Pedido em disputa: aguarde a decisão do administrador';
+  END IF;
+
+  -- Orders only become disputed through open_dispute, which creates the
+  -- dispute first; otherwise there would be nothing for resolve_dispute to settle
+  IF NEW.status = 'disputed' AND NOT EXISTS (
+    SELECT 1 FROM public.disputes
+    WHERE order_id = NEW.id AND status = 'open'
+  ) THEN
+    RAISE EXCEPTION 'Use a abertura de disputa para disputar o pedido';
+  END IF;
+
+  IF NEW.status = 'delivered' AND COALESCE(NEW.proof_url, '') = '' THEN
+    RAISE EXCEPTION 'Envie a prova de entrega antes de marcar como entregue';
+  END IF;
+
+  -- Only the buyer (via confirm_order_receipt), the auto-confirm job or an
+  -- admin may complete a delivered order
+  IF OLD.status = 'delivered' AND NEW.status = 'completed'
+    AND COALESCE(current_setting('app.order_confirming', true), '') <> 'on'
+    AND NOT public.has_role(auth.uid(), 'admin') THEN
+    RAISE EXCEPTION 'Aguardando confirmação de recebimento pelo comprador';
+  END IF;
+
+  IF NEW.status = 'delivered' THEN
+    SELECT auto_confirm_hours INTO window_hours FROM public.platform_settings;
+    NEW.delivered_at := NOW();
+    NEW.confirm_deadline := NOW() + make_interval(hours => COALESCE(window_hours, 72));
+  END IF;
+
+  IF NEW.status = 'completed' AND NEW.completed_at IS NULL THEN
+    NEW.completed_at := NOW();
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
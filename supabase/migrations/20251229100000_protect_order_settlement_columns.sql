@@ -0,0 +1,83 @@
+-- The transition trigger now runs on every update of an order, not only on
+-- status changes, so it can refuse direct writes to the columns escrow
+-- settlement depends on.
+CREATE OR REPLACE FUNCTION public.enforce_order_transition()
+RETURNS TRIGGER
+LANGUAGE PLPGSQL
+SET search_path = public
+AS $$
+DECLARE
+  window_hours INTEGER;
+BEGIN
+  -- Price, parties, proof and the confirmation window are set by place_order
+  -- and by this trigger only. The orders UPDATE policy lets sellers write any column,
+  -- so a moved confirm_deadline would let auto-confirm release the escrow early.
+  IF NEW.buyer_id IS DISTINCT FROM OLD.buyer_id
+    OR NEW.seller_id IS DISTINCT FROM OLD.seller_id
+    OR NEW.amount IS DISTINCT FROM OLD.amount
+    OR NEW.total_price IS DISTINCT FROM OLD.total_price
+    OR NEW.discount_amount IS DISTINCT FROM OLD.discount_amount
+    OR NEW.delivery_method IS DISTINCT FROM OLD.delivery_method
+    OR NEW.delivered_at IS DISTINCT FROM OLD.delivered_at
+    OR NEW.confirm_deadline IS DISTINCT FROM OLD.confirm_deadline
+    OR NEW.proof_url IS DISTINCT FROM OLD.proof_url
+    OR (NEW.completed_at IS DISTINCT FROM OLD.completed_at AND NEW.status = OLD.status) THEN
+    RAISE EXCEPTION 'Os valores e prazos do pedido não podem ser alterados';
+  END IF;
+
+  IF NEW.status IS NOT DISTINCT FROM OLD.status THEN
+    RETURN NEW;
+  END IF;
+
+  IF NOT public.order_transition_allowed(OLD.status, NEW.status) THEN
+    RAISE EXCEPTION 'Transição de status inválida: % -> %', OLD.status, NEW.status;
+  END IF;
+
+  -- Funds stay frozen while disputed: only resolve_dispute may move the order on
+  IF OLD.status = 'disputed'
+    AND COALESCE(current_setting('app.dispute_resolving', true), '') <> 'on' THEN
+    RAISE EXCEPTION 'Pedido em disputa: aguarde a decisão do administrador';
+  END IF;
+
+  -- Orders only become disputed through open_dispute, which creates the
+  -- dispute first; otherwise there would be nothing for resolve_dispute to settle
+  IF NEW.status = 'disputed' AND NOT EXISTS (
+    SELECT 1 FROM public.disputes
+    WHERE order_id = NEW.id AND status = 'open'
+  ) THEN
+    RAISE EXCEPTION 'Use a abertura de disputa para disputar o pedido';
+  END IF;
+
+  IF NEW.status = 'delivered' AND NOT public.order_has_proof(NEW.id) THEN
+    RAISE EXCEPTION 'Envie a prova de entrega antes de marcar como entregue';
+  END IF;
+
+  -- Only the buyer (via confirm_order_receipt), the auto-confirm job or an
+  -- admin may complete a delivered order
+  IF OLD.status = 'delivered' AND NEW.status = 'completed'
+    AND COALESCE(current_setting('app.order_confirming', true), '') <> 'on'
+    AND NOT public.has_role(auth.uid(), 'admin') THEN
+    RAISE EXCEPTION 'Aguardando confirmação de recebimento pelo comprador';
+  END IF;
+
+  IF NEW.status = 'delivered' THEN
+    SELECT auto_confirm_hours INTO window_hours FROM public.platform_settings;
+    NEW.proof_url := NEW.id::TEXT;
+    NEW.delivered_at := NOW();
+    NEW.confirm_deadline := NOW() + make_interval(hours => COALESCE(window_hours, 72));
+  END IF;
+
+  IF NEW.status = 'completed' THEN
+    NEW.completed_at := NOW();
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS on_order_enforce_transition ON public.orders;
+
+CREATE TRIGGER on_order_enforce_transition
+  BEFORE UPDATE ON public.orders
+  FOR EACH ROW
+  EXECUTE FUNCTION public.enforce_order_transition();
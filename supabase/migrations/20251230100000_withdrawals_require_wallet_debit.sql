@@ -0,0 +1,130 @@
+-- Withdrawals are only created by request_withdrawal, which debits the wallet
+-- in the same transaction. Rows without that debit can never be approved or
+-- refunded.
+DROP POLICY IF EXISTS "Sellers can create withdrawals" ON public.withdrawals;
+
+CREATE OR REPLACE FUNCTION public.withdrawal_is_debited(_withdrawal_id UUID)
+RETURNS BOOLEAN
+LANGUAGE SQL
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1
+    FROM public.ledger_entries e
+    JOIN public.ledger_journals j ON j.id = e.journal_id
+    JOIN public.ledger_accounts a ON a.id = e.account_id
+    WHERE j.withdrawal_id = _withdrawal_id
+      AND a.kind = 'user_wallet'
+      AND e.amount < 0
+  )
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.withdrawal_is_debited(UUID) FROM PUBLIC, anon, authenticated;
+
+CREATE OR REPLACE FUNCTION public.guard_withdrawal_approval()
+RETURNS TRIGGER
+LANGUAGE PLPGSQL
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.status = 'approved'
+    AND OLD.status IS DISTINCT FROM 'approved'
+    AND NOT public.withdrawal_is_debited(NEW.id) THEN
+    RAISE EXCEPTION 'Saque sem débito na carteira não pode ser aprovado';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER on_withdrawal_guard_approval
+  BEFORE UPDATE OF status ON public.withdrawals
+  FOR EACH ROW EXECUTE FUNCTION public.guard_withdrawal_approval();
+
+CREATE OR REPLACE FUNCTION public.refund_withdrawal(
+  _withdrawal_id UUID,
+  _reason TEXT,
+  _reviewed_by UUID DEFAULT NULL
+)
+RETURNS VOID
+LANGUAGE PLPGSQL
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  withdrawal_row public.withdrawals%ROWTYPE;
+  seller_user_id UUID;
+  fee DECIMAL(10, 2);
+BEGIN
+  SELECT * INTO withdrawal_row
+  FROM public.withdrawals
+  WHERE id = _withdrawal_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Saque não encontrado';
+  END IF;
+
+  IF withdrawal_row.status NOT IN ('pending', 'approved') THEN
+    RAISE EXCEPTION 'Este saque já foi finalizado';
+  END IF;
+
+  -- Nothing left the wallet, so there is nothing to give back
+  IF NOT public.withdrawal_is_debited(_withdrawal_id) THEN
+    RAISE EXCEPTION 'Saque sem débito na carteira não pode ser estornado';
+  END IF;
+
+  SELECT user_id INTO seller_user_id
+  FROM public.sellers
+  WHERE id = withdrawal_row.seller_id;
+
+  -- The fee actually charged, as posted to the treasury
+  SELECT COALESCE(SUM(e.amount), 0) INTO fee
+  FROM public.ledger_entries e
+  JOIN public.ledger_journals j ON j.id = e.journal_id
+  JOIN public.ledger_accounts a ON a.id = e.account_id
+  WHERE j.withdrawal_id = _withdrawal_id
+    AND a.kind = 'platform_fees';
+
+  PERFORM public.ledger_post(
+    public.ledger_account_id('provider_clearing'),
+    public.ledger_account_id('user_wallet', seller_user_id),
+    withdrawal_row.amount,
+    'Estorno de saque',
+    NULL,
+    _withdrawal_id
+  );
+
+  IF fee > 0 THEN
+    PERFORM public.ledger_post(
+      public.ledger_account_id('platform_fees'),
+      public.ledger_account_id('user_wallet', seller_user_id),
+      fee,
+      'Estorno de taxa de saque',
+      NULL,
+      _withdrawal_id
+    );
+  END IF;
+
+  UPDATE public.withdrawals
+  SET status = 'rejected',
+      rejection_reason = _reason,
+      reviewed_by = COALESCE(_reviewed_by, reviewed_by),
+      reviewed_at = NOW(),
+      processed_at = NOW()
+  WHERE id = _withdrawal_id;
+
+  INSERT INTO public.transactions (user_id, withdrawal_id, type, amount, description)
+  VALUES (
+    seller_user_id,
+    _withdrawal_id,
+    'refund',
+    withdrawal_row.amount + fee,
+    'Saque recusado: ' || COALESCE(_reason, 'sem motivo informado')
+  );
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.refund_withdrawal(UUID, TEXT, UUID) FROM PUBLIC, anon, authenticated;
@@ -0,0 +1,112 @@
+-- Saving a PIX key only validates its format (and, for CPF and e-mail keys,
+-- that it matches the account). Ownership is never checked with the bank, so
+-- the timestamp is named for what actually happened.
+ALTER TABLE public.seller_pix_keys RENAME COLUMN verified_at TO validated_at;
+
+CREATE OR REPLACE FUNCTION public.add_pix_key(
+  _key_type public.pix_key_type,
+  _key_value TEXT
+)
+RETURNS public.seller_pix_keys
+LANGUAGE PLPGSQL
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  seller_row public.sellers%ROWTYPE;
+  profile_row public.profiles%ROWTYPE;
+  settings_row public.platform_settings%ROWTYPE;
+  normalized TEXT := TRIM(COALESCE(_key_value, ''));
+  digits INTEGER[];
+  check_sum INTEGER;
+  new_key public.seller_pix_keys%ROWTYPE;
+BEGIN
+  SELECT * INTO seller_row FROM public.sellers WHERE user_id = auth.uid();
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Apenas vendedores podem cadastrar chaves PIX';
+  END IF;
+
+  SELECT * INTO profile_row FROM public.profiles WHERE id = seller_row.user_id;
+
+  IF _key_type = 'CPF' THEN
+    normalized := regexp_replace(normalized, '\D', '', 'g');
+
+    IF normalized !~ '^[0-9]{11}$' OR normalized ~ '^(.)\1{10}$' THEN
+      RAISE EXCEPTION 'CPF inválido';
+    END IF;
+
+    digits := string_to_array(normalized, NULL)::INTEGER[];
+
+    SELECT (SUM(digits[i] * (11 - i)) * 10) % 11 % 10 INTO check_sum FROM generate_series(1, 9) i;
+    IF check_sum <> digits[10] THEN
+      RAISE EXCEPTION 'CPF inválido';
+    END IF;
+
+    SELECT (SUM(digits[i] * (12 - i)) * 10) % 11 % 10 INTO check_sum FROM generate_series(1, 10) i;
+    IF check_sum <> digits[11] THEN
+      RAISE EXCEPTION 'CPF inválido';
+    END IF;
+
+    IF profile_row.cpf IS NOT NULL AND regexp_replace(profile_row.cpf, '\D', '', 'g') <> normalized THEN
+      RAISE EXCEPTION 'A chave CPF deve ser o CPF cadastrado na sua conta';
+    END IF;
+  ELSIF _key_type = 'CNPJ' THEN
+    normalized := regexp_replace(normalized, '\D', '', 'g');
+
+    IF normalized !~ '^[0-9]{14}$' THEN
+      RAISE EXCEPTION 'CNPJ inválido';
+    END IF;
+  ELSIF _key_type = 'EMAIL' THEN
+    normalized := LOWER(normalized);
+
+    IF normalized !~ '^[^@\s]+@[^@\s]+\.[^@\s]+$' THEN
+      RAISE EXCEPTION 'E-mail inválido';
+    END IF;
+
+    IF normalized <> LOWER(profile_row.email) THEN
+      RAISE EXCEPTION 'A chave e-mail deve ser o e-mail da sua conta';
+    END IF;
+  ELSIF _key_type = 'PHONE' THEN
+    normalized := regexp_replace(normalized, '[^0-9+]', '', 'g');
+
+    IF normalized !~ '^\+' THEN
+      normalized := '+55' || normalized;
+    END IF;
+
+    IF normalized !~ '^\+55[1-9][0-9]{9,10}$' THEN
+      RAISE EXCEPTION 'Telefone inválido';
+    END IF;
+  ELSE
+    normalized := LOWER(normalized);
+
+    IF normalized !~ '^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$' THEN
+      RAISE EXCEPTION 'Chave aleatória inválida';
+    END IF;
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM public.seller_pix_keys
+    WHERE seller_id = seller_row.id AND key_type = _key_type AND key_value = normalized
+  ) THEN
+    RAISE EXCEPTION 'Esta chave PIX já está cadastrada';
+  END IF;
+
+  SELECT * INTO settings_row FROM public.platform_settings;
+
+  INSERT INTO public.seller_pix_keys (seller_id, key_type, key_value, validated_at, available_at)
+  VALUES (
+    seller_row.id,
+    _key_type,
+    normalized,
+    NOW(),
+    NOW() + make_interval(hours => COALESCE(settings_row.pix_key_hold_hours, 48))
+  )
+  RETURNING * INTO new_key;
+
+  RETURN new_key;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.add_pix_key(public.pix_key_type, TEXT) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.add_pix_key(public.pix_key_type, TEXT) TO authenticated;
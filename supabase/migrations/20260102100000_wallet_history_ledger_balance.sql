@@ -0,0 +1,90 @@
+-- The wallet history's running balance comes from the caller's ledger wallet
+-- account, not from summing transactions. Each row shows the wallet balance
+-- at the end of its database transaction, less the rows of the same
+-- transaction listed above it. Rows older than the ledger are walked back from
+-- the opening balance.
+CREATE INDEX idx_ledger_entries_account_created_at ON public.ledger_entries(account_id, created_at);
+
+CREATE OR REPLACE FUNCTION public.wallet_history(
+  _type TEXT DEFAULT NULL,
+  _from TIMESTAMP WITH TIME ZONE DEFAULT NULL,
+  _to TIMESTAMP WITH TIME ZONE DEFAULT NULL,
+  _limit INTEGER DEFAULT 20,
+  _offset INTEGER DEFAULT 0
+)
+RETURNS TABLE (
+  id UUID,
+  type TEXT,
+  amount DECIMAL,
+  description TEXT,
+  order_id UUID,
+  withdrawal_id UUID,
+  balance_after DECIMAL,
+  created_at TIMESTAMP WITH TIME ZONE,
+  total_count BIGINT
+)
+LANGUAGE PLPGSQL
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  wallet UUID;
+  opened_at TIMESTAMP WITH TIME ZONE;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Não autenticado';
+  END IF;
+
+  SELECT a.id INTO wallet
+  FROM public.ledger_accounts a
+  WHERE a.kind = 'user_wallet' AND a.user_id = auth.uid();
+
+  SELECT MIN(e.created_at) INTO opened_at
+  FROM public.ledger_entries e
+  WHERE e.account_id = wallet;
+
+  RETURN QUERY
+  SELECT h.id, h.type, h.amount, h.description, h.order_id, h.withdrawal_id,
+    (
+      COALESCE((
+        SELECT SUM(e.amount)
+        FROM public.ledger_entries e
+        WHERE e.account_id = wallet
+          AND e.created_at <= GREATEST(h.created_at, opened_at)
+      ), 0)
+      - COALESCE((
+        SELECT SUM(later.amount)
+        FROM public.transactions later
+        WHERE later.user_id = auth.uid()
+          AND (later.created_at, later.id) > (h.created_at, h.id)
+          AND later.created_at <= GREATEST(h.created_at, opened_at)
+      ), 0)
+    )::DECIMAL,
+    h.created_at,
+    h.total_count
+  FROM (
+    SELECT
+      t.id,
+      t.type,
+      t.amount::DECIMAL AS amount,
+      t.description,
+      t.order_id,
+      t.withdrawal_id,
+      t.created_at,
+      COUNT(*) OVER () AS total_count
+    FROM public.transactions t
+    WHERE t.user_id = auth.uid()
+      AND (_type IS NULL OR t.type = _type)
+      AND (_from IS NULL OR t.created_at >= _from)
+      AND (_to IS NULL OR t.created_at < _to)
+    ORDER BY t.created_at DESC, t.id DESC
+    LIMIT _limit
+    OFFSET _offset
+  ) h
+  ORDER BY h.created_at DESC, h.id DESC;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.wallet_history(TEXT, TIMESTAMP WITH TIME ZONE, TIMESTAMP WITH TIME ZONE, INTEGER, INTEGER) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.wallet_history(TEXT, TIMESTAMP WITH TIME ZONE, TIMESTAMP WITH TIME ZONE, INTEGER, INTEGER) TO authenticated;
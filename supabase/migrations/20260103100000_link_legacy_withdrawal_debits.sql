@@ -0,0 +1,64 @@
+-- Withdrawals requested before the ledger took the money straight off
+-- profiles.balance, so the opening balance already excludes it and no journal
+-- carries their withdrawal_id. Restate the debit of each one still open as
+-- tagged journals (net to provider clearing, fee to the treasury, as
+-- debit_wallet_withdrawal does now) so they can be approved or refunded.
+-- The wallet nets to zero, so profiles.balance is left alone.
+DO $$
+DECLARE
+  cutover TIMESTAMP WITH TIME ZONE;
+  withdrawal_row RECORD;
+  wallet UUID;
+  gross DECIMAL(10, 2);
+  journal UUID;
+BEGIN
+  SELECT MIN(created_at) INTO cutover FROM public.ledger_journals;
+
+  IF cutover IS NULL THEN
+    RETURN;
+  END IF;
+
+  FOR withdrawal_row IN
+    SELECT w.*, s.user_id AS seller_user_id
+    FROM public.withdrawals w
+    JOIN public.sellers s ON s.id = w.seller_id
+    WHERE w.status IN ('pending', 'approved')
+      AND w.created_at < cutover
+      AND NOT EXISTS (
+        SELECT 1 FROM public.ledger_journals j WHERE j.withdrawal_id = w.id
+      )
+  LOOP
+    wallet := public.ledger_account_id('user_wallet', withdrawal_row.seller_user_id);
+    gross := GREATEST(
+      ROUND(COALESCE((withdrawal_row.payment_details->>'originalAmount')::DECIMAL, withdrawal_row.amount), 2),
+      withdrawal_row.amount
+    );
+
+    INSERT INTO public.ledger_journals (description, withdrawal_id)
+    VALUES ('Saque anterior ao livro-razão', withdrawal_row.id)
+    RETURNING id INTO journal;
+
+    INSERT INTO public.ledger_entries (journal_id, account_id, amount) VALUES
+      (journal, public.ledger_account_id('provider_clearing'), -gross),
+      (journal, wallet, gross);
+
+    INSERT INTO public.ledger_journals (description, withdrawal_id)
+    VALUES ('Saque via PIX', withdrawal_row.id)
+    RETURNING id INTO journal;
+
+    INSERT INTO public.ledger_entries (journal_id, account_id, amount) VALUES
+      (journal, wallet, -withdrawal_row.amount),
+      (journal, public.ledger_account_id('provider_clearing'), withdrawal_row.amount);
+
+    IF gross > withdrawal_row.amount THEN
+      INSERT INTO public.ledger_journals (description, withdrawal_id)
+      VALUES ('Taxa de saque', withdrawal_row.id)
+      RETURNING id INTO journal;
+
+      INSERT INTO public.ledger_entries (journal_id, account_id, amount) VALUES
+        (journal, wallet, -(gross - withdrawal_row.amount)),
+        (journal, public.ledger_account_id('platform_fees'), gross - withdrawal_row.amount);
+    END IF;
+  END LOOP;
+END;
+$$;
@@ -0,0 +1,12 @@
+-- payments.status holds the provider-agnostic ChargeStatus the edge functions
+-- compare against. Rows written before the provider layer (including the
+-- backfill of legacy deposits, stored as 'RECEIVED') still carry raw Asaas
+-- statuses; map them the same way AsaasProvider does.
+UPDATE public.payments
+SET status = CASE
+  WHEN status IN ('RECEIVED', 'RECEIVED_IN_CASH') THEN 'CONFIRMED'
+  WHEN status IN ('REFUND_REQUESTED', 'CHARGEBACK_REQUESTED') THEN 'REFUNDED'
+  WHEN status IN ('OVERDUE', 'DELETED') THEN 'FAILED'
+  ELSE 'PENDING'
+END
+WHERE status NOT IN ('PENDING', 'CONFIRMED', 'FAILED', 'REFUNDED');
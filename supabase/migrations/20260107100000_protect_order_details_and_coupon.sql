@@ -0,0 +1,144 @@
+-- Delivery details (the Roblox account, gamepass or group the order is
+-- delivered to) and the applied coupon are fixed when the order is placed.
+-- Sellers could otherwise point the delivery elsewhere or drop the coupon
+-- after checkout.
+CREATE OR REPLACE FUNCTION public.coupon_exists(_coupon_id UUID)
+RETURNS BOOLEAN
+LANGUAGE SQL
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (SELECT 1 FROM public.coupons WHERE id = _coupon_id)
+$$;
+
+CREATE OR REPLACE FUNCTION public.enforce_order_transition()
+RETURNS TRIGGER
+LANGUAGE PLPGSQL
+SET search_path = public
+AS $$
+DECLARE
+  window_hours INTEGER;
+BEGIN
+  -- Price, parties, coupon, delivery details, proof and the confirmation
+  -- window are set by place_order and by this trigger only. The orders UPDATE
+  -- policy lets sellers write any column, so a moved confirm_deadline would let
+  -- auto-confirm release the escrow early. mark_group_joined may add the group
+  -- join dates, and the coupon is cleared when the coupon itself is deleted.
+  IF NEW.buyer_id IS DISTINCT FROM OLD.buyer_id
+    OR NEW.seller_id IS DISTINCT FROM OLD.seller_id
+    OR NEW.amount IS DISTINCT FROM OLD.amount
+    OR NEW.total_price IS DISTINCT FROM OLD.total_price
+    OR NEW.discount_amount IS DISTINCT FROM OLD.discount_amount
+    OR NEW.delivery_method IS DISTINCT FROM OLD.delivery_method
+    OR NEW.delivered_at IS DISTINCT FROM OLD.delivered_at
+    OR NEW.confirm_deadline IS DISTINCT FROM OLD.confirm_deadline
+    OR NEW.proof_url IS DISTINCT FROM OLD.proof_url
+    OR (NEW.delivery_details IS DISTINCT FROM OLD.delivery_details
+      AND COALESCE(current_setting('app.group_joining', true), '') <> 'on')
+    OR (NEW.coupon_id IS DISTINCT FROM OLD.coupon_id
+      AND NOT (NEW.coupon_id IS NULL AND NOT public.coupon_exists(OLD.coupon_id)))
+    OR (NEW.completed_at IS DISTINCT FROM OLD.completed_at AND NEW.status = OLD.status) THEN
+    RAISE EXCEPTION 'Os valores e prazos do pedido não podem ser alterados';
+  END IF;
+
+  IF NEW.status IS NOT DISTINCT FROM OLD.status THEN
+    RETURN NEW;
+  END IF;
+
+  IF NOT public.order_transition_allowed(OLD.status, NEW.status) THEN
+    RAISE EXCEPTION 'Transição de status inválida: % -> %', OLD.status, NEW.status;
+  END IF;
+
+  -- Funds stay frozen while disputed: only resolve_dispute may move the order on
+  IF OLD.status = 'disputed'
+    AND COALESCE(current_setting('app.dispute_resolving', true), '') <> 'on' THEN
+    RAISE EXCEPTION 'Pedido em disputa: aguarde a decisão do administrador';
+  END IF;
+
+  -- Orders only become disputed through open_dispute, which creates the
+  -- dispute first; otherwise there would be nothing for resolve_dispute to settle
+  IF NEW.status = 'disputed' AND NOT EXISTS (
+    SELECT 1 FROM public.disputes
+    WHERE order_id = NEW.id AND status = 'open'
+  ) THEN
+    RAISE EXCEPTION 'Use a abertura de disputa para disputar o pedido';
+  END IF;
+
+  IF NEW.status = 'delivered' AND NOT public.order_has_proof(NEW.id) THEN
+    RAISE EXCEPTION 'Envie a prova de entrega antes de marcar como entregue';
+  END IF;
+
+  -- Only the buyer (via confirm_order_receipt), the auto-confirm job or an
+  -- admin may complete a delivered order
+  IF OLD.status = 'delivered' AND NEW.status = 'completed'
+    AND COALESCE(current_setting('app.order_confirming', true), '') <> 'on'
+    AND NOT public.has_role(auth.uid(), 'admin') THEN
+    RAISE EXCEPTION 'Aguardando confirmação de recebimento pelo comprador';
+  END IF;
+
+  IF NEW.status = 'delivered' THEN
+    SELECT auto_confirm_hours INTO window_hours FROM public.platform_settings;
+    NEW.proof_url := NEW.id::TEXT;
+    NEW.delivered_at := NOW();
+    NEW.confirm_deadline := NOW() + make_interval(hours => COALESCE(window_hours, 72));
+  END IF;
+
+  IF NEW.status = 'completed' THEN
+    NEW.completed_at := NOW();
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+-- Buyer reports having joined the group after placing the order
+CREATE OR REPLACE FUNCTION public.mark_group_joined(_order_id UUID)
+RETURNS public.orders
+LANGUAGE PLPGSQL
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  order_row public.orders%ROWTYPE;
+  joined_at TIMESTAMP WITH TIME ZONE := NOW();
+BEGIN
+  SELECT * INTO order_row
+  FROM public.orders
+  WHERE id = _order_id
+  FOR UPDATE;
+
+  IF NOT FOUND OR order_row.buyer_id <> auth.uid() THEN
+    RAISE EXCEPTION 'Pedido não encontrado';
+  END IF;
+
+  IF order_row.delivery_method <> 'group_payout' THEN
+    RAISE EXCEPTION 'Este pedido não é entregue via grupo';
+  END IF;
+
+  IF order_row.status NOT IN ('pending', 'processing') THEN
+    RAISE EXCEPTION 'Este pedido não aguarda mais a entrada no grupo';
+  END IF;
+
+  IF order_row.delivery_details->>'joined_at' IS NOT NULL THEN
+    RAISE EXCEPTION 'A entrada no grupo já foi registrada';
+  END IF;
+
+  PERFORM set_config('app.group_joining', 'on', true);
+
+  UPDATE public.orders
+  SET delivery_details = delivery_details || jsonb_build_object(
+    'joined_at', joined_at,
+    'eligible_at', joined_at + INTERVAL '14 days'
+  )
+  WHERE id = _order_id
+  RETURNING * INTO order_row;
+
+  PERFORM set_config('app.group_joining', 'off', true);
+
+  RETURN order_row;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.mark_group_joined(UUID) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.mark_group_joined(UUID) TO authenticated;
@@ -0,0 +1,224 @@
+-- place_order accepted orders for sellers the marketplace hides, so a buyer
+-- calling the RPC directly could reserve stock of an offline seller.
+CREATE OR REPLACE FUNCTION public.place_order(
+  _seller_id UUID,
+  _amount INTEGER,
+  _delivery_method public.delivery_method,
+  _delivery_details JSONB DEFAULT '{}'::jsonb,
+  _coupon_code TEXT DEFAULT NULL
+)
+RETURNS public.orders
+LANGUAGE PLPGSQL
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  buyer_id UUID := auth.uid();
+  seller_row public.sellers%ROWTYPE;
+  buyer_row public.profiles%ROWTYPE;
+  order_total DECIMAL(10, 2);
+  subtotal DECIMAL(10, 2);
+  coupon_row public.coupons%ROWTYPE;
+  discount DECIMAL(10, 2) := 0;
+  platform_share DECIMAL(10, 2) := 0;
+  details JSONB := '{}'::jsonb;
+  group_row public.seller_groups%ROWTYPE;
+  joined_at TIMESTAMP WITH TIME ZONE;
+  new_order public.orders%ROWTYPE;
+BEGIN
+  IF buyer_id IS NULL THEN
+    RAISE EXCEPTION 'Não autenticado';
+  END IF;
+
+  -- Locked for update: the order reserves the seller's stock
+  SELECT * INTO seller_row
+  FROM public.sellers
+  WHERE id = _seller_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Vendedor não encontrado';
+  END IF;
+
+  IF seller_row.user_id = buyer_id THEN
+    RAISE EXCEPTION 'Você não pode comprar de si mesmo';
+  END IF;
+
+  -- The marketplace only lets buyers pick online sellers; an offline seller,
+  -- or one whose seller role was revoked, cannot be sent orders directly
+  IF NOT seller_row.is_online OR NOT public.has_role(seller_row.user_id, 'seller') THEN
+    RAISE EXCEPTION 'Vendedor indisponível no momento';
+  END IF;
+
+  IF _amount IS NULL OR _amount < seller_row.min_amount OR _amount > seller_row.max_amount THEN
+    RAISE EXCEPTION 'A quantidade deve estar entre % e % Robux', seller_row.min_amount, seller_row.max_amount;
+  END IF;
+
+  IF _amount > seller_row.stock THEN
+    RAISE EXCEPTION 'O vendedor tem apenas % Robux em estoque', seller_row.stock;
+  END IF;
+
+  IF _delivery_method = 'gamepass' THEN
+    IF COALESCE(_delivery_details->>'gamepass_url', '') !~* '^https://(www\.)?roblox\.com/game-pass/[0-9]+' THEN
+      RAISE EXCEPTION 'Informe o link do gamepass (https://www.roblox.com/game-pass/...)';
+    END IF;
+
+    IF COALESCE(_delivery_details->>'place_url', '') <> ''
+      AND _delivery_details->>'place_url' !~* '^https://(www\.)?roblox\.com/games/[0-9]+' THEN
+      RAISE EXCEPTION 'Link do jogo inválido';
+    END IF;
+
+    -- Only keep known keys; the price is always computed here
+    details := jsonb_build_object(
+      'gamepass_url', _delivery_details->>'gamepass_url',
+      'place_url', NULLIF(_delivery_details->>'place_url', ''),
+      'gamepass_price', public.gamepass_price(_amount)
+    );
+  END IF;
+
+  IF _delivery_method = 'group_payout' THEN
+    SELECT * INTO group_row
+    FROM public.seller_groups
+    WHERE id = NULLIF(_delivery_details->>'seller_group_id', '')::UUID
+      AND seller_id = _seller_id
+      AND is_active;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Escolha um grupo do vendedor para receber o pagamento';
+    END IF;
+
+    joined_at := NULLIF(_delivery_details->>'joined_at', '')::TIMESTAMP WITH TIME ZONE;
+
+    IF joined_at > NOW() THEN
+      RAISE EXCEPTION 'A data de entrada no grupo não pode estar no futuro';
+    END IF;
+
+    details := public.group_payout_details(group_row, joined_at);
+  END IF;
+
+  subtotal := public.calculate_order_total(_seller_id, _amount, _delivery_method);
+
+  IF NULLIF(TRIM(_coupon_code), '') IS NOT NULL THEN
+    SELECT * INTO coupon_row
+    FROM public.coupons
+    WHERE code = UPPER(TRIM(_coupon_code))
+    FOR UPDATE;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Cupom inválido';
+    END IF;
+
+    discount := public.coupon_discount(coupon_row, buyer_id, _seller_id, subtotal);
+
+    -- Platform-wide coupons are paid for by the platform, so the seller still
+    -- receives the full price; seller coupons come out of the seller's sale
+    IF coupon_row.seller_id IS NULL THEN
+      platform_share := discount;
+    END IF;
+  END IF;
+
+  order_total := subtotal - discount;
+
+  -- Lock the buyer row so concurrent purchases cannot double-spend
+  SELECT * INTO buyer_row
+  FROM public.profiles
+  WHERE id = buyer_id
+  FOR UPDATE;
+
+  IF buyer_row.roblox_verified_at IS NULL THEN
+    RAISE EXCEPTION 'Vincule e verifique sua conta Roblox antes de comprar';
+  END IF;
+
+  IF buyer_row.balance < order_total THEN
+    RAISE EXCEPTION 'Saldo insuficiente';
+  END IF;
+
+  INSERT INTO public.orders (
+    buyer_id,
+    seller_id,
+    amount,
+    total_price,
+    delivery_method,
+    delivery_details,
+    buyer_roblox_user_id,
+    buyer_roblox_username,
+    coupon_id,
+    discount_amount
+  )
+  VALUES (
+    buyer_id,
+    _seller_id,
+    _amount,
+    order_total,
+    _delivery_method,
+    details,
+    buyer_row.roblox_user_id,
+    buyer_row.roblox_username,
+    coupon_row.id,
+    discount
+  )
+  RETURNING * INTO new_order;
+
+  PERFORM set_config('app.stock_updating', 'on', true);
+
+  UPDATE public.sellers
+  SET stock = stock - _amount,
+      reserved_stock = reserved_stock + _amount
+  WHERE id = _seller_id;
+
+  PERFORM set_config('app.stock_updating', 'off', true);
+
+  PERFORM public.ledger_post(
+    public.ledger_account_id('user_wallet', buyer_id),
+    public.ledger_account_id('escrow'),
+    order_total,
+    'Compra retida em garantia',
+    new_order.id
+  );
+
+  IF platform_share > 0 THEN
+    PERFORM public.ledger_post(
+      public.ledger_account_id('platform_fees'),
+      public.ledger_account_id('escrow'),
+      platform_share,
+      'Desconto de cupom custeado pela plataforma',
+      new_order.id
+    );
+  END IF;
+
+  INSERT INTO public.escrows (order_id, buyer_id, seller_id, amount, platform_funded)
+  VALUES (new_order.id, buyer_id, _seller_id, order_total + platform_share, platform_share);
+
+  INSERT INTO public.transactions (user_id, order_id, type, amount, description)
+  VALUES (
+    buyer_id,
+    new_order.id,
+    'purchase',
+    -subtotal,
+    'Compra de ' || _amount || ' Robux (valor retido em garantia)'
+  );
+
+  IF discount > 0 THEN
+    INSERT INTO public.coupon_redemptions (coupon_id, user_id, order_id, discount_amount)
+    VALUES (coupon_row.id, buyer_id, new_order.id, discount);
+
+    UPDATE public.coupons
+    SET uses_count = uses_count + 1
+    WHERE id = coupon_row.id;
+
+    INSERT INTO public.transactions (user_id, order_id, type, amount, description)
+    VALUES (
+      buyer_id,
+      new_order.id,
+      'discount',
+      discount,
+      'Desconto do cupom ' || coupon_row.code
+    );
+  END IF;
+
+  RETURN new_order;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.place_order(UUID, INTEGER, public.delivery_method, JSONB, TEXT) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION public.place_order(UUID, INTEGER, public.delivery_method, JSONB, TEXT) TO authenticated;